@@ -0,0 +1,54 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { CompletionRequest, CompletionResult, LLMProvider, StubProvider } from '../services/llmProvider';
+
+/**
+ * Model responses are stored per structured output, e.g. `SemanticGroupingResult.json`
+ */
+const fixturePath = (dir: string, request: CompletionRequest): string | undefined =>
+  request.jsonSchema ? join(dir, `${request.jsonSchema.name}.json`) : undefined;
+
+/**
+ * Offline provider answering structured requests from the fixture directory. A request
+ * without a fixture fails, so the service falls back to its heuristics just as it would
+ * for a broken model; plain requests get a fixed answer.
+ */
+export function createFixtureProvider(dir?: string): StubProvider {
+  return new StubProvider(async request => {
+    const path = dir && fixturePath(dir, request);
+    if (!request.jsonSchema) return 'Offline fixture provider';
+    if (!path) throw new Error(`Offline: no fixture directory for ${request.jsonSchema.name}`);
+
+    try {
+      return await readFile(path, 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') throw new Error(`Offline: no fixture at ${path}`);
+      throw error;
+    }
+  });
+}
+
+/**
+ * Passes requests through and saves the structured responses as fixtures for --offline runs
+ */
+export class RecordingProvider implements LLMProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+
+  constructor(private provider: LLMProvider, private dir: string) {
+    // The recorded results stay identifiable as the wrapped model's, e.g. in cache keys
+    this.name = provider.name;
+    this.defaultModel = provider.defaultModel;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const result = await this.provider.complete(request);
+    const path = fixturePath(this.dir, request);
+    if (path) {
+      await mkdir(this.dir, { recursive: true });
+      await writeFile(path, result.content);
+      console.info(`💾 [CLI] Recorded ${path}`);
+    }
+    return result;
+  }
+}
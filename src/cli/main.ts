@@ -0,0 +1,182 @@
+/**
+ * Headless Figma-to-code converter for CI and scripts. Build and run it with
+ * `npm run cli -- <file key | Figma URL | export.json> --out <dir>`; `--help` lists the
+ * options. It runs the same pipeline as the app and writes the React component, its icon
+ * components, the theme and the downloaded images to the output directory.
+ *
+ * A JSON export (the response of GET /v1/files/:key) needs no Figma token. With --offline
+ * nothing goes over the network: the model stages answer from fixtures recorded by an
+ * earlier run with --record-fixtures, or use their heuristic fallbacks.
+ */
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import FigmaService, { FigmaFile } from '../services/figmaService';
+import SemanticGroupingService, { SemanticGroupingResult } from '../services/semanticGroupingService';
+import GPTVisionService from '../services/gptVisionService';
+import { createLLMProvider, hasLLMCredentials } from '../services/llmProvider';
+import { isAbortError } from '../services/httpClient';
+import {
+  FigmaFileAnalysis,
+  FigmaPipelineState,
+  createFigmaPipeline,
+  createFigmaPipelineServices
+} from '../services/figmaPipeline';
+import { CliOptions, CliUsageError, USAGE, parseCliOptions } from './options';
+import { RecordingProvider, createFixtureProvider } from './fixtures';
+import { OutputWriter } from './output';
+
+const IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp'
+};
+
+const isJsonExport = (input: string) => extname(input).toLowerCase() === '.json';
+
+/**
+ * Read a saved GET /v1/files/:key response and analyze it without the API
+ */
+const analyzeExport = async (figma: FigmaService, options: CliOptions): Promise<FigmaFileAnalysis> => {
+  const file: FigmaFile = JSON.parse(await readFile(options.input, 'utf8'));
+  if (!file?.document) {
+    throw new CliUsageError(`${options.input} is not a Figma file export (no "document"); save the response of GET /v1/files/:key`);
+  }
+
+  const analysis = figma.analyzeLocalFile(file, options.nodeIds);
+  if (options.image) {
+    // The vision model needs the screen as a URL; local files are inlined
+    analysis.imageUrl = /^https?:\/\//.test(options.image)
+      ? options.image
+      : `data:${IMAGE_TYPES[extname(options.image).toLowerCase()] || 'image/png'};base64,${(await readFile(options.image)).toString('base64')}`;
+  }
+  return analysis;
+};
+
+/**
+ * Stands in for a skipped grouping stage: every node stays ungrouped
+ */
+const ungrouped = (figma: FigmaFileAnalysis): SemanticGroupingResult => ({
+  groups: [],
+  totalNodes: figma.components.length,
+  groupedNodes: 0,
+  ungroupedNodes: figma.components,
+  confidence: 0,
+  processingTime: 0
+});
+
+const main = async () => {
+  let options: CliOptions | undefined;
+  try {
+    options = parseCliOptions(process.argv.slice(2));
+  } catch (error) {
+    if (!(error instanceof CliUsageError)) throw error;
+    console.error(`❌ [CLI] ${error.message}\n\n${USAGE}`);
+    process.exit(2);
+  }
+  if (!options) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  // The services log every step; the CLI reports progress itself
+  if (!options.verbose) console.log = () => undefined;
+
+  const local = isJsonExport(options.input);
+  if (options.offline && !local) {
+    throw new CliUsageError('--offline needs a JSON export of the file instead of a file key or URL');
+  }
+  const figmaToken = process.env.FIGMA_TOKEN || '';
+  if (!local && !figmaToken) {
+    throw new CliUsageError('Set FIGMA_TOKEN to read the file from Figma, or pass a JSON export');
+  }
+
+  const services = createFigmaPipelineServices({ figmaToken, llmSettings: options.llmSettings });
+  if (options.offline) {
+    services.semanticGrouping = new SemanticGroupingService(createFixtureProvider(options.fixtures));
+    services.vision = new GPTVisionService(createFixtureProvider(options.fixtures));
+  } else if (options.recordFixtures) {
+    const dir = options.recordFixtures;
+    services.semanticGrouping = new SemanticGroupingService(new RecordingProvider(createLLMProvider(options.llmSettings, 'semanticGrouping'), dir));
+    services.vision = new GPTVisionService(new RecordingProvider(createLLMProvider(options.llmSettings, 'vision'), dir));
+  }
+
+  const skipped = new Set<string>(options.skip);
+  if (skipped.has('semanticGrouping') && !skipped.has('visualValidation')) {
+    console.info('ℹ️ [CLI] Skipping visual validation too, it checks the semantic groups');
+    skipped.add('visualValidation');
+  }
+  if (local && !options.offline && !options.image && !skipped.has('visualValidation')) {
+    console.info('ℹ️ [CLI] Skipping visual validation: a JSON export has no screen image, pass one with --image');
+    skipped.add('visualValidation');
+  }
+
+  const modelStages = ['semanticGrouping', 'visualValidation'].filter(stage => !skipped.has(stage));
+  if (!options.offline && modelStages.length > 0 && !hasLLMCredentials(options.llmSettings)) {
+    throw new CliUsageError(`Set LLM_API_KEY for ${modelStages.join(' and ')}, or use --offline or --skip`);
+  }
+
+  const pipeline = createFigmaPipeline(services);
+  pipeline.subscribe(event => {
+    const label = 'stage' in event ? pipeline.stages.find(stage => stage.name === event.stage)?.label : undefined;
+    if (event.type === 'stage:start') {
+      console.info(`▶️  ${label}${event.attempt > 1 ? ` (attempt ${event.attempt})` : ''}`);
+    } else if (event.type === 'stage:progress') {
+      console.info(`   ${event.message}`);
+    } else if (event.type === 'stage:retry') {
+      console.warn(`⚠️ [CLI] ${label} failed, retrying in ${event.delayMs}ms:`, (event.error as any)?.message || event.error);
+    } else if (event.type === 'stage:complete') {
+      console.info(`✅ ${label} (${event.durationMs}ms)`);
+    }
+  });
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  // The file analysis comes first, so a skipped grouping stage can be stood in for
+  let initial: Partial<FigmaPipelineState>;
+  if (local) {
+    initial = { figmaUrl: options.input, figma: await analyzeExport(services.figma, options) };
+  } else {
+    const { fileKey, nodeIds } = services.figma.parseFigmaUrl(options.input);
+    const selected = options.nodeIds.length > 0 ? options.nodeIds : nodeIds;
+    const figmaUrl = `https://www.figma.com/design/${fileKey}${selected.length > 0 ? `?node-id=${selected.map(id => id.replace(/:/g, '-')).join(',')}` : ''}`;
+    initial = await pipeline.run({ figmaUrl }, { signal: controller.signal, stages: ['fetchFigma'] });
+  }
+  if (skipped.has('semanticGrouping')) {
+    initial.semanticGrouping = ungrouped(initial.figma!);
+  }
+
+  const state = await pipeline.run(initial, {
+    signal: controller.signal,
+    stages: pipeline.stages.map(stage => stage.name).filter(name => name !== 'fetchFigma' && !skipped.has(name))
+  }) as FigmaPipelineState;
+
+  const output = new OutputWriter(options.out);
+  let generated = state.generated;
+  if (!options.offline && !skipped.has('assets')) {
+    // An export's screen image is the one passed with --image
+    generated = await output.downloadAssets(generated, local ? '' : state.assets.imageUrl, controller.signal);
+  }
+  await output.writeScreen(generated);
+  await output.writeTheme(state.figma.designTokens, state.figma.fileData.name);
+  if (options.json) {
+    await output.writeAnalyses(state);
+  }
+
+  console.info(`\n🏁 [CLI] ${state.figma.fileData.name} → ${generated.componentName}, ${output.written.length} file(s) in ${options.out}:`);
+  output.written.sort().forEach(path => console.info(`   ${path}`));
+};
+
+main().catch(error => {
+  if (error instanceof CliUsageError) {
+    console.error(`❌ [CLI] ${error.message}`);
+    process.exit(2);
+  }
+  if (isAbortError(error)) {
+    console.error('🛑 [CLI] Cancelled');
+    process.exit(130);
+  }
+  console.error('❌ [CLI] Conversion failed:', error?.message || error);
+  process.exit(1);
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { CliUsageError, parseCliOptions } from './options';
+
+const parse = (args: string, env: NodeJS.ProcessEnv = {}) => parseCliOptions(args.split(' '), env);
+
+describe('parseCliOptions', () => {
+  it('returns undefined when only the help is asked for', () => {
+    expect(parse('--help')).toBeUndefined();
+  });
+
+  it('needs exactly one file to convert', () => {
+    expect(() => parseCliOptions([], {})).toThrow('Missing the Figma file to convert');
+    expect(() => parse('abc def')).toThrow('Unexpected arguments: def');
+  });
+
+  it('reports unknown options as usage errors', () => {
+    expect(() => parse('abc --colour red')).toThrow(CliUsageError);
+  });
+
+  it('accepts stages to skip, comma-separated or repeated', () => {
+    expect(parse('abc --skip semanticGrouping,visualValidation --skip assets')?.skip)
+      .toEqual(['semanticGrouping', 'visualValidation', 'assets']);
+  });
+
+  it('rejects stages that cannot be skipped', () => {
+    expect(() => parse('abc --skip fetchFigma,assets')).toThrow(/^Cannot skip fetchFigma; choose from/);
+  });
+
+  it('does not record fixtures offline', () => {
+    expect(() => parse('export.json --offline --record-fixtures fixtures')).toThrow(CliUsageError);
+  });
+
+  it('reads node ids in the URL form as Figma ids', () => {
+    expect(parse('abc -n 12-34 --node 5:6')?.nodeIds).toEqual(['12:34', '5:6']);
+  });
+
+  it('falls back to the environment for the model settings', () => {
+    const options = parse('abc', {
+      LLM_PROVIDER: 'azure-openai',
+      LLM_API_KEY: 'key',
+      LLM_ENDPOINT: 'https://azure.example',
+      LLM_API_VERSION: '2024-06-01',
+      LLM_MODEL_SEMANTIC_GROUPING: 'grouping-model',
+      LLM_MODEL_VISION: 'vision-model'
+    });
+
+    expect(options?.llmSettings).toEqual({
+      provider: 'azure-openai',
+      apiKey: 'key',
+      endpoint: 'https://azure.example',
+      apiVersion: '2024-06-01',
+      models: { semanticGrouping: 'grouping-model', vision: 'vision-model' }
+    });
+  });
+
+  it('prefers the options over the environment, and a stage model over --model', () => {
+    const options = parse('abc --provider openai --model base --vision-model vision', {
+      LLM_PROVIDER: 'azure-openai',
+      LLM_MODEL_SEMANTIC_GROUPING: 'env-grouping'
+    });
+
+    expect(options?.llmSettings.provider).toBe('openai');
+    expect(options?.llmSettings.models).toEqual({ semanticGrouping: 'base', vision: 'vision' });
+  });
+
+  it('defaults to OpenAI and rejects unknown providers', () => {
+    expect(parse('abc')?.llmSettings.provider).toBe('openai');
+    expect(() => parse('abc --provider acme')).toThrow('Unknown provider "acme"');
+  });
+
+  it('writes to figma-export unless told otherwise', () => {
+    expect(parse('abc')?.out).toBe('figma-export');
+    expect(parse('abc -o build/screens')?.out).toBe('build/screens');
+  });
+});
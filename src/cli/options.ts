@@ -0,0 +1,142 @@
+import { parseArgs } from 'node:util';
+import { LLM_PROVIDER_LABELS, LLMProviderKind, LLMSettings } from '../services/llmProvider';
+
+// Pipeline stages that may be left out, plus the download of the exported images
+export const SKIPPABLE_STAGES = ['semanticGrouping', 'visualValidation', 'assets'] as const;
+
+export type SkippableStage = typeof SKIPPABLE_STAGES[number];
+
+export interface CliOptions {
+  // Figma file key or URL, or the path of a JSON export
+  input: string;
+  out: string;
+  // Frames to convert; a URL's node-id is used when none are given
+  nodeIds: string[];
+  skip: SkippableStage[];
+  llmSettings: LLMSettings;
+  // No network at all: a JSON export as input and models answered from fixtures
+  offline: boolean;
+  fixtures?: string;
+  // Save the model responses of this run as fixtures
+  recordFixtures?: string;
+  // Screen image for the vision model when the input is a JSON export
+  image?: string;
+  json: boolean;
+  verbose: boolean;
+}
+
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+export const USAGE = `Usage: npm run cli -- <file key | Figma URL | export.json> [options]
+
+Converts a Figma file to a React + Material-UI component, its theme and assets.
+
+Options:
+  -o, --out <dir>           Output directory (default: ./figma-export)
+  -n, --node <id>           Frame to convert, e.g. 12:34; repeat for several
+      --skip <stages>       Comma-separated: ${SKIPPABLE_STAGES.join(', ')}
+      --provider <kind>     ${Object.keys(LLM_PROVIDER_LABELS).join(', ')} (default: openai)
+      --model <name>        Model for both model stages
+      --grouping-model <name>, --vision-model <name>
+                            Model for one stage
+      --endpoint <url>      Azure or OpenAI-compatible endpoint
+      --api-version <v>     Azure API version
+      --image <path | url>  Screen image for visual validation of a JSON export
+      --offline             No network: needs a JSON export; models answer from --fixtures
+      --fixtures <dir>      Model responses recorded with --record-fixtures
+      --record-fixtures <dir>
+                            Save this run's model responses as fixtures
+      --json                Also write the intermediate analyses to <out>/analysis
+  -v, --verbose             Show the services' logs
+  -h, --help                Show this help
+
+Environment:
+  FIGMA_TOKEN               Figma access token, for file keys and URLs
+  LLM_API_KEY               Key of the model provider
+  LLM_PROVIDER, LLM_ENDPOINT, LLM_API_VERSION, LLM_MODEL_SEMANTIC_GROUPING, LLM_MODEL_VISION
+                            Defaults for the matching options
+`;
+
+/**
+ * Read the command line; returns undefined when only the help was asked for
+ */
+export function parseCliOptions(argv: string[], env: NodeJS.ProcessEnv = process.env): CliOptions | undefined {
+  let parsed: ReturnType<typeof parse>;
+  try {
+    parsed = parse(argv);
+  } catch (error: any) {
+    throw new CliUsageError(error?.message || String(error));
+  }
+  const { values, positionals } = parsed;
+
+  if (values.help) return undefined;
+  if (positionals.length !== 1) {
+    throw new CliUsageError(positionals.length === 0 ? 'Missing the Figma file to convert' : `Unexpected arguments: ${positionals.slice(1).join(' ')}`);
+  }
+
+  const skip = (values.skip || []).flatMap(value => value.split(',')).map(value => value.trim()).filter(Boolean);
+  const unknownStages = skip.filter(stage => !(SKIPPABLE_STAGES as readonly string[]).includes(stage));
+  if (unknownStages.length > 0) {
+    throw new CliUsageError(`Cannot skip ${unknownStages.join(', ')}; choose from ${SKIPPABLE_STAGES.join(', ')}`);
+  }
+
+  const provider = (values.provider || env.LLM_PROVIDER || 'openai') as LLMProviderKind;
+  if (!(provider in LLM_PROVIDER_LABELS)) {
+    throw new CliUsageError(`Unknown provider "${provider}"`);
+  }
+
+  if (values.offline && values['record-fixtures']) {
+    throw new CliUsageError('--record-fixtures needs the real models and cannot be combined with --offline');
+  }
+
+  return {
+    input: positionals[0],
+    out: values.out || 'figma-export',
+    nodeIds: (values.node || []).map(id => id.replace(/-/g, ':')),
+    skip: skip as SkippableStage[],
+    llmSettings: {
+      provider,
+      apiKey: env.LLM_API_KEY,
+      endpoint: values.endpoint || env.LLM_ENDPOINT,
+      apiVersion: values['api-version'] || env.LLM_API_VERSION,
+      models: {
+        semanticGrouping: values['grouping-model'] || values.model || env.LLM_MODEL_SEMANTIC_GROUPING,
+        vision: values['vision-model'] || values.model || env.LLM_MODEL_VISION
+      }
+    },
+    offline: !!values.offline,
+    fixtures: values.fixtures,
+    recordFixtures: values['record-fixtures'],
+    image: values.image,
+    json: !!values.json,
+    verbose: !!values.verbose
+  };
+}
+
+const parse = (argv: string[]) => parseArgs({
+  args: argv,
+  allowPositionals: true,
+  options: {
+    out: { type: 'string', short: 'o' },
+    node: { type: 'string', short: 'n', multiple: true },
+    skip: { type: 'string', multiple: true },
+    provider: { type: 'string' },
+    model: { type: 'string' },
+    'grouping-model': { type: 'string' },
+    'vision-model': { type: 'string' },
+    endpoint: { type: 'string' },
+    'api-version': { type: 'string' },
+    image: { type: 'string' },
+    offline: { type: 'boolean' },
+    fixtures: { type: 'string' },
+    'record-fixtures': { type: 'string' },
+    json: { type: 'boolean' },
+    verbose: { type: 'boolean', short: 'v' },
+    help: { type: 'boolean', short: 'h' }
+  }
+});
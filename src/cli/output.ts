@@ -0,0 +1,108 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { GeneratedCode } from '../services/codeGeneratorService';
+import { DesignTokens } from '../services/figmaService';
+import DesignTokenExporter from '../services/designTokenExporter';
+import { FigmaPipelineState } from '../services/figmaPipeline';
+
+// Extensions for the content types Figma exports
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg'
+};
+
+/**
+ * Writes the files of a conversion under one directory and keeps track of them
+ */
+export class OutputWriter {
+  // Paths relative to the output directory
+  readonly written: string[] = [];
+
+  constructor(readonly dir: string) {}
+
+  /**
+   * The screen component and the SVG icon components it imports
+   */
+  async writeScreen(generated: GeneratedCode): Promise<void> {
+    await this.write(`${generated.componentName}.tsx`, generated.code);
+    for (const icon of generated.iconModules) {
+      await this.write(`${icon.path}.tsx`, icon.code);
+    }
+  }
+
+  /**
+   * Material-UI theme, CSS variables and DTCG tokens, as the design tokens export offers them
+   */
+  async writeTheme(designTokens: DesignTokens, sourceName: string): Promise<void> {
+    const exporter = new DesignTokenExporter();
+    const files = exporter.exportAll(exporter.buildThemeTokens(designTokens), sourceName);
+    for (const file of files) {
+      await this.write(file.filename, file.content);
+    }
+  }
+
+  /**
+   * Download the images the component uses into `assets/`, and the screen render as
+   * `screen.<ext>` for comparison. Returns the component with its temporary Figma URLs
+   * replaced by the local files; images that cannot be downloaded keep their URL.
+   */
+  async downloadAssets(generated: GeneratedCode, imageUrl: string, signal?: AbortSignal): Promise<GeneratedCode> {
+    const assets: { [name: string]: string } = {};
+    let failed = 0;
+
+    const download = async (url: string, basePath: string): Promise<string | undefined> => {
+      try {
+        const response = await fetch(url, { signal });
+        if (!response.ok) throw new Error(`Asset download failed (${response.status})`);
+
+        const contentType = (response.headers.get('content-type') || 'image/png').split(';')[0].trim();
+        const path = `${basePath}.${EXTENSIONS[contentType] || 'png'}`;
+        await this.write(path, new Uint8Array(await response.arrayBuffer()));
+        return `./${path}`;
+      } catch (error: any) {
+        if (signal?.aborted) throw error;
+        console.warn(`⚠️ [CLI] Could not download ${basePath}:`, error?.message || error);
+        failed++;
+        return undefined;
+      }
+    };
+
+    await Promise.all([
+      ...Object.entries(generated.assets).map(async ([name, url]) => {
+        assets[name] = (url && await download(url, `assets/${name}`)) || url;
+      }),
+      imageUrl ? download(imageUrl, 'screen') : Promise.resolve()
+    ]);
+
+    let code = generated.code;
+    Object.entries(generated.assets).forEach(([name, url]) => {
+      if (url) code = code.split(url).join(assets[name]);
+    });
+    if (failed > 0) {
+      console.warn(`⚠️ [CLI] ${failed} image(s) not downloaded; the component keeps their Figma URLs, which expire`);
+    }
+
+    return { ...generated, code, assets };
+  }
+
+  /**
+   * Each intermediate result of the pipeline as `analysis/<name>.json`
+   */
+  async writeAnalyses(state: Partial<FigmaPipelineState>): Promise<void> {
+    for (const [name, value] of Object.entries(state)) {
+      if (value !== undefined && name !== 'figmaUrl' && name !== 'generated') {
+        await this.write(`analysis/${name}.json`, JSON.stringify(value, null, 2) + '\n');
+      }
+    }
+  }
+
+  private async write(path: string, content: string | Uint8Array): Promise<void> {
+    const target = join(this.dir, path);
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, content);
+    this.written.push(path);
+  }
+}
@@ -11,7 +11,9 @@ import {
   Alert,
   IconButton,
   InputAdornment,
-  Link
+  Link,
+  MenuItem,
+  Grid
 } from '@mui/material';
 import {
   Settings as SettingsIcon,
@@ -19,6 +21,16 @@ import {
   VisibilityOff,
   OpenInNew as ExternalLinkIcon
 } from '@mui/icons-material';
+import {
+  DEFAULT_AZURE_API_VERSION,
+  DEFAULT_COMPATIBLE_ENDPOINT,
+  DEFAULT_STAGE_MODELS,
+  LLM_PROVIDER_LABELS,
+  LLMProviderKind,
+  LLMSettings,
+  LLMStage,
+  resolveLLMSettings
+} from '../services/llmProvider';
 
 interface APISettingsProps {
   open: boolean;
@@ -29,9 +41,24 @@ interface APISettingsProps {
 
 export interface APISettings {
   figmaToken: string;
-  openaiApiKey: string;
+  // Only present in settings saved before provider selection; read through resolveLLMSettings
+  openaiApiKey?: string;
+  llm?: LLMSettings;
 }
 
+const STAGE_LABELS: Record<LLMStage, string> = {
+  semanticGrouping: 'Semantic grouping',
+  vision: 'Vision analysis',
+  vibeCoding: 'Vibe chat'
+};
+
+const API_KEY_LABELS: Record<LLMProviderKind, string> = {
+  'openai': 'OpenAI API Key',
+  'azure-openai': 'Azure OpenAI Key',
+  'anthropic': 'Anthropic API Key',
+  'openai-compatible': 'API Key (optional)'
+};
+
 const APISettings: React.FC<APISettingsProps> = ({
   open,
   onClose,
@@ -39,15 +66,24 @@ const APISettings: React.FC<APISettingsProps> = ({
   currentSettings
 }) => {
   const [figmaToken, setFigmaToken] = useState('');
-  const [openaiApiKey, setOpenaiApiKey] = useState('');
+  const [provider, setProvider] = useState<LLMProviderKind>('openai');
+  const [apiKey, setApiKey] = useState('');
+  const [endpoint, setEndpoint] = useState('');
+  const [apiVersion, setApiVersion] = useState('');
+  const [models, setModels] = useState<Partial<Record<LLMStage, string>>>({});
   const [showFigmaToken, setShowFigmaToken] = useState(false);
-  const [showOpenaiKey, setShowOpenaiKey] = useState(false);
+  const [showApiKey, setShowApiKey] = useState(false);
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
 
   useEffect(() => {
     if (currentSettings) {
+      const llm = resolveLLMSettings(currentSettings);
       setFigmaToken(currentSettings.figmaToken);
-      setOpenaiApiKey(currentSettings.openaiApiKey);
+      setProvider(llm.provider);
+      setApiKey(llm.apiKey || '');
+      setEndpoint(llm.endpoint || '');
+      setApiVersion(llm.apiVersion || '');
+      setModels(llm.models || {});
     }
   }, [currentSettings]);
 
@@ -60,10 +96,27 @@ const APISettings: React.FC<APISettingsProps> = ({
       newErrors.figmaToken = 'Invalid Figma token format';
     }
 
-    if (!openaiApiKey.trim()) {
-      newErrors.openaiApiKey = 'OpenAI API key is required';
-    } else if (!openaiApiKey.startsWith('sk-')) {
-      newErrors.openaiApiKey = 'Invalid OpenAI API key format';
+    if (provider === 'openai') {
+      if (!apiKey.trim()) {
+        newErrors.apiKey = 'OpenAI API key is required';
+      } else if (!apiKey.startsWith('sk-')) {
+        newErrors.apiKey = 'Invalid OpenAI API key format';
+      }
+    } else if (provider === 'anthropic') {
+      if (!apiKey.trim()) {
+        newErrors.apiKey = 'Anthropic API key is required';
+      } else if (!apiKey.startsWith('sk-ant-')) {
+        newErrors.apiKey = 'Invalid Anthropic API key format';
+      }
+    } else if (provider === 'azure-openai') {
+      if (!apiKey.trim()) {
+        newErrors.apiKey = 'Azure OpenAI key is required';
+      }
+      if (!/^https:\/\/.+/.test(endpoint.trim())) {
+        newErrors.endpoint = 'Enter your resource endpoint, e.g. https://my-resource.openai.azure.com';
+      }
+    } else if (endpoint.trim() && !/^https?:\/\/.+/.test(endpoint.trim())) {
+      newErrors.endpoint = 'Enter the server URL, e.g. http://localhost:11434/v1';
     }
 
     setErrors(newErrors);
@@ -72,9 +125,19 @@ const APISettings: React.FC<APISettingsProps> = ({
 
   const handleSave = () => {
     if (validateSettings()) {
+      const stageModels = Object.fromEntries(
+        Object.entries(models).filter(([, model]) => model?.trim())
+      ) as Partial<Record<LLMStage, string>>;
+
       onSave({
         figmaToken,
-        openaiApiKey
+        llm: {
+          provider,
+          apiKey: apiKey.trim() || undefined,
+          endpoint: endpoint.trim() || undefined,
+          apiVersion: provider === 'azure-openai' ? apiVersion.trim() || undefined : undefined,
+          models: stageModels
+        }
       });
       onClose();
     }
@@ -138,45 +201,110 @@ const APISettings: React.FC<APISettingsProps> = ({
 
         <Box sx={{ mb: 3 }}>
           <Typography variant="h6" gutterBottom>
-            OpenAI API Key
+            AI Provider
           </Typography>
           <Typography variant="body2" color="text.secondary" paragraph>
-            Get your API key from OpenAI to use GPT Vision for design analysis.
-            <Link 
-              href="https://platform.openai.com/api-keys" 
-              target="_blank" 
-              sx={{ ml: 1 }}
-            >
-              Get API key <ExternalLinkIcon fontSize="small" />
-            </Link>
+            Choose the model vendor used for design analysis and vibe chat. Local servers such as Ollama or LM Studio work offline.
+            {provider === 'openai' && (
+              <Link 
+                href="https://platform.openai.com/api-keys" 
+                target="_blank" 
+                sx={{ ml: 1 }}
+              >
+                Get API key <ExternalLinkIcon fontSize="small" />
+              </Link>
+            )}
           </Typography>
           <TextField
+            select
             fullWidth
-            label="OpenAI API Key"
-            type={showOpenaiKey ? 'text' : 'password'}
-            value={openaiApiKey}
-            onChange={(e) => setOpenaiApiKey(e.target.value)}
-            error={!!errors.openaiApiKey}
-            helperText={errors.openaiApiKey || 'Starts with sk-'}
+            label="Provider"
+            value={provider}
+            onChange={(e) => {
+              setProvider(e.target.value as LLMProviderKind);
+              setErrors({});
+            }}
+            sx={{ mb: 2 }}
+          >
+            {(Object.keys(LLM_PROVIDER_LABELS) as LLMProviderKind[]).map(kind => (
+              <MenuItem key={kind} value={kind}>{LLM_PROVIDER_LABELS[kind]}</MenuItem>
+            ))}
+          </TextField>
+
+          {(provider === 'azure-openai' || provider === 'openai-compatible') && (
+            <TextField
+              fullWidth
+              label={provider === 'azure-openai' ? 'Azure Endpoint' : 'Server URL'}
+              placeholder={provider === 'azure-openai' ? 'https://my-resource.openai.azure.com' : DEFAULT_COMPATIBLE_ENDPOINT}
+              value={endpoint}
+              onChange={(e) => setEndpoint(e.target.value)}
+              error={!!errors.endpoint}
+              helperText={errors.endpoint || (provider === 'openai-compatible'
+                ? `Defaults to Ollama at ${DEFAULT_COMPATIBLE_ENDPOINT}; LM Studio uses http://localhost:1234/v1`
+                : undefined)}
+              sx={{ mb: 2 }}
+            />
+          )}
+
+          <TextField
+            fullWidth
+            label={API_KEY_LABELS[provider]}
+            type={showApiKey ? 'text' : 'password'}
+            value={apiKey}
+            onChange={(e) => setApiKey(e.target.value)}
+            error={!!errors.apiKey}
+            helperText={errors.apiKey || (provider === 'openai' ? 'Starts with sk-' : provider === 'anthropic' ? 'Starts with sk-ant-' : undefined)}
             InputProps={{
               endAdornment: (
                 <InputAdornment position="end">
                   <IconButton
-                    onClick={() => setShowOpenaiKey(!showOpenaiKey)}
+                    onClick={() => setShowApiKey(!showApiKey)}
                     edge="end"
                   >
-                    {showOpenaiKey ? <VisibilityOff /> : <Visibility />}
+                    {showApiKey ? <VisibilityOff /> : <Visibility />}
                   </IconButton>
                 </InputAdornment>
               ),
             }}
+            sx={{ mb: 2 }}
           />
+
+          {provider === 'azure-openai' && (
+            <TextField
+              fullWidth
+              label="API Version"
+              placeholder={DEFAULT_AZURE_API_VERSION}
+              value={apiVersion}
+              onChange={(e) => setApiVersion(e.target.value)}
+              sx={{ mb: 2 }}
+            />
+          )}
+
+          <Typography variant="subtitle2" gutterBottom>
+            {provider === 'azure-openai' ? 'Deployments per stage' : 'Models per stage'}
+          </Typography>
+          <Grid container spacing={2}>
+            {(Object.keys(STAGE_LABELS) as LLMStage[]).map(stage => (
+              <Grid item xs={12} md={4} key={stage}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  label={STAGE_LABELS[stage]}
+                  placeholder={DEFAULT_STAGE_MODELS[provider][stage]}
+                  value={models[stage] || ''}
+                  onChange={(e) => setModels(prev => ({ ...prev, [stage]: e.target.value }))}
+                  InputLabelProps={{ shrink: true }}
+                  helperText={stage === 'vision' ? 'Must accept images' : undefined}
+                />
+              </Grid>
+            ))}
+          </Grid>
         </Box>
 
         <Alert severity="warning">
           <Typography variant="body2">
             <strong>Privacy Note:</strong> Your API keys are stored locally in your browser and never sent to our servers. 
-            They are only used to communicate directly with Figma and OpenAI APIs.
+            They are only used to communicate directly with Figma and your chosen AI provider.
           </Typography>
         </Alert>
       </DialogContent>
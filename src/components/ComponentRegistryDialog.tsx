@@ -0,0 +1,237 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  List,
+  ListItem,
+  ListItemText,
+  Chip
+} from '@mui/material';
+import { Widgets as WidgetsIcon } from '@mui/icons-material';
+import { useList } from '@refinedev/core';
+import {
+  ComponentRegistryEntry,
+  ProjectComponentRegistry,
+  validateComponentRegistry
+} from '../services/componentRegistry';
+import { getComponentProperties } from '../services/figmaService';
+
+interface ComponentRegistryDialogProps {
+  open: boolean;
+  projectId?: string;
+  projectName?: string;
+  value?: ProjectComponentRegistry | null;
+  onClose: () => void;
+  onSave: (value: ProjectComponentRegistry) => void;
+}
+
+interface DiscoveredComponent {
+  key: string;
+  name: string;
+  instances: number;
+  properties: string[];
+}
+
+const toPascalCase = (name: string): string =>
+  name
+    .replace(/[^A-Za-z0-9]+/g, ' ')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('')
+    .replace(/^\d+/, '') || 'Component';
+
+const toCamelCase = (name: string): string => {
+  const pascal = toPascalCase(name);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+};
+
+const ComponentRegistryDialog: React.FC<ComponentRegistryDialogProps> = ({
+  open,
+  projectId,
+  projectName,
+  value,
+  onClose,
+  onSave
+}) => {
+  const [entriesText, setEntriesText] = useState('[]');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // Instances found in this project's imported Figma screens
+  const { data: screensData } = useList<{ id: string; analysis_data?: any }>({
+    resource: 'screens',
+    filters: projectId ? [{ field: 'project_id', operator: 'eq', value: projectId }] : [],
+    meta: { select: 'id, analysis_data' },
+    queryOptions: { enabled: open && !!projectId }
+  });
+
+  const discovered = useMemo<DiscoveredComponent[]>(() => {
+    const byKey = new Map<string, DiscoveredComponent>();
+    (screensData?.data || []).forEach(screen => {
+      (screen.analysis_data?.figmaData?.components || []).forEach((component: any) => {
+        const mainComponent = component.properties?.mainComponent;
+        if (component.type !== 'INSTANCE' || !mainComponent?.key) return;
+
+        const key = mainComponent.setKey || mainComponent.key;
+        const found: DiscoveredComponent = byKey.get(key) || {
+          key,
+          name: mainComponent.setName || mainComponent.name,
+          instances: 0,
+          properties: []
+        };
+        found.instances++;
+        Object.keys(getComponentProperties(component)).forEach(property => {
+          if (!found.properties.includes(property)) found.properties.push(property);
+        });
+        byKey.set(key, found);
+      });
+    });
+    return Array.from(byKey.values()).sort((a, b) => b.instances - a.instances);
+  }, [screensData]);
+
+  useEffect(() => {
+    if (open) {
+      setEntriesText(JSON.stringify(value?.entries || [], null, 2));
+      setErrors([]);
+    }
+  }, [open, value]);
+
+  const parseEntries = (): ComponentRegistryEntry[] | null => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(entriesText || '[]');
+    } catch (error: any) {
+      setErrors([`Registry is not valid JSON: ${error.message}`]);
+      return null;
+    }
+
+    const problems = validateComponentRegistry(parsed);
+    setErrors(problems);
+    return problems.length === 0 ? parsed as ComponentRegistryEntry[] : null;
+  };
+
+  // Start an entry for a discovered component; the import path is left for the user to fill in
+  const addEntry = (component: DiscoveredComponent) => {
+    let current: ComponentRegistryEntry[];
+    try {
+      current = JSON.parse(entriesText || '[]');
+    } catch (error: any) {
+      setErrors([`Registry is not valid JSON: ${error.message}`]);
+      return;
+    }
+
+    const propMap: ComponentRegistryEntry['propMap'] = {};
+    component.properties.forEach(property => {
+      propMap[property] = { prop: toCamelCase(property) };
+    });
+
+    const entry: ComponentRegistryEntry = {
+      id: toCamelCase(component.name),
+      figmaKey: component.key,
+      import: { from: '', name: toPascalCase(component.name) },
+      ...(component.properties.length > 0 ? { propMap } : {}),
+      children: 'text'
+    };
+    setEntriesText(JSON.stringify([...current, entry], null, 2));
+  };
+
+  const handleSave = () => {
+    const entries = parseEntries();
+    if (!entries) return;
+    onSave({ entries });
+  };
+
+  const registeredKeys = new Set<string>();
+  try {
+    (JSON.parse(entriesText || '[]') as ComponentRegistryEntry[]).forEach(entry => registeredKeys.add(entry.figmaKey));
+  } catch {
+    // Invalid JSON is reported on save
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          <WidgetsIcon sx={{ mr: 1 }} />
+          Component Registry{projectName ? ` - ${projectName}` : ''}
+        </Box>
+      </DialogTitle>
+
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" paragraph>
+          Map Figma components to your own React components. Instances of a registered component
+          (matched by component or component set key, and optionally by variant values) are generated
+          as your component with the mapped props instead of Material-UI approximations.
+        </Typography>
+
+        <Typography variant="subtitle2" gutterBottom>
+          Components in this project's screens
+        </Typography>
+        {discovered.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            No component instances found yet. Import a Figma screen that uses library components.
+          </Typography>
+        ) : (
+          <List dense sx={{ mb: 2, maxHeight: 200, overflow: 'auto' }}>
+            {discovered.map(component => (
+              <ListItem
+                key={component.key}
+                secondaryAction={
+                  registeredKeys.has(component.key)
+                    ? <Chip label="Registered" size="small" color="success" />
+                    : <Button size="small" onClick={() => addEntry(component)}>Add entry</Button>
+                }
+              >
+                <ListItemText
+                  primary={`${component.name} (${component.instances} instance${component.instances === 1 ? '' : 's'})`}
+                  secondary={`${component.key}${component.properties.length > 0 ? ` · ${component.properties.join(', ')}` : ''}`}
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+
+        <Typography variant="subtitle2" gutterBottom>
+          Registry entries (JSON)
+        </Typography>
+        <TextField
+          fullWidth
+          multiline
+          minRows={10}
+          maxRows={24}
+          value={entriesText}
+          onChange={(e) => setEntriesText(e.target.value)}
+          InputProps={{ sx: { fontFamily: 'monospace', fontSize: '0.8rem' } }}
+          helperText='Each entry: { "id", "figmaKey", "variants", "import": { "from", "name", "default" }, "props", "propMap": { "<Figma property>": { "prop", "values" } }, "children": "text" | "nodes" | "none" }'
+        />
+
+        {errors.length > 0 && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {errors.slice(0, 10).map((message, index) => (
+              <Typography key={index} variant="body2" sx={{ fontFamily: 'monospace' }}>
+                {message}
+              </Typography>
+            ))}
+          </Alert>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={handleSave} variant="contained">
+          Save Registry
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ComponentRegistryDialog;
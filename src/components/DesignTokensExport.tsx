@@ -0,0 +1,140 @@
+import React, { useMemo } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Button,
+  Chip,
+  Tooltip
+} from '@mui/material';
+import { Download as DownloadIcon, Palette as PaletteIcon } from '@mui/icons-material';
+import { DesignTokens } from '../services/figmaService';
+import DesignTokenExporter, { TokenExportFile } from '../services/designTokenExporter';
+
+interface DesignTokensExportProps {
+  designTokens: DesignTokens;
+  // Figma file name, used in the exported file headers
+  sourceName?: string;
+}
+
+const exporter = new DesignTokenExporter();
+
+const downloadFile = (file: TokenExportFile) => {
+  const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const Swatch: React.FC<{ name: string; color: string }> = ({ name, color }) => (
+  <Tooltip title={color}>
+    <Box sx={{ textAlign: 'center', width: 72 }}>
+      <Box sx={{ width: 40, height: 40, mx: 'auto', bgcolor: color, border: '1px solid', borderColor: 'divider', borderRadius: '4px' }} />
+      <Typography variant="caption" display="block" noWrap>
+        {name}
+      </Typography>
+    </Box>
+  </Tooltip>
+);
+
+const DesignTokensExport: React.FC<DesignTokensExportProps> = ({ designTokens, sourceName }) => {
+  const tokens = useMemo(() => exporter.buildThemeTokens(designTokens), [designTokens]);
+  const files = useMemo(() => exporter.exportAll(tokens, sourceName), [tokens, sourceName]);
+
+  const { extra, background, text, divider, ...roles } = tokens.palette;
+  const swatches: Array<[string, string]> = [
+    ...Object.entries(roles).map(([role, shades]) => [role, shades!.main] as [string, string]),
+    ['background', background.default],
+    ['paper', background.paper],
+    ['text', text.primary],
+    ['text 2', text.secondary],
+    ['divider', divider],
+    ...Object.entries(extra)
+  ];
+
+  return (
+    <Card sx={{ mt: 3 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+          <PaletteIcon sx={{ mr: 1 }} />
+          <Typography variant="h6" sx={{ flexGrow: 1 }}>
+            Design Tokens
+          </Typography>
+          {files.map(file => (
+            <Button
+              key={file.filename}
+              size="small"
+              startIcon={<DownloadIcon />}
+              onClick={() => downloadFile(file)}
+              sx={{ ml: 1 }}
+            >
+              {file.filename}
+            </Button>
+          ))}
+        </Box>
+
+        <Typography variant="subtitle2" gutterBottom>
+          Palette
+        </Typography>
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: '8px', mb: 2 }}>
+          {swatches.map(([name, color]) => (
+            <Swatch key={name} name={name} color={color} />
+          ))}
+        </Box>
+
+        {tokens.named.length > 0 && (
+          <>
+            <Typography variant="subtitle2" gutterBottom>
+              Figma Styles &amp; Variables
+              {tokens.modes.map(modeSet => ` · ${modeSet.collection}: ${modeSet.modes.join(' / ')}`).join('')}
+            </Typography>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: '8px', mb: 2 }}>
+              {tokens.named.filter(token => token.type === 'color').map(token => (
+                <Swatch key={`${token.source}-${token.collection || ''}-${token.name}`} name={token.name} color={token.value} />
+              ))}
+              {tokens.named.filter(token => token.type !== 'color').map(token => (
+                <Chip
+                  key={`${token.source}-${token.collection || ''}-${token.name}`}
+                  size="small"
+                  variant="outlined"
+                  label={`${token.name} (${token.type})`}
+                />
+              ))}
+            </Box>
+          </>
+        )}
+
+        <Typography variant="subtitle2" gutterBottom>
+          Typography ({tokens.typography.fontFamily})
+        </Typography>
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: '8px', mb: 2 }}>
+          {Object.entries(tokens.typography.variants).map(([variant, token]) => (
+            <Chip
+              key={variant}
+              size="small"
+              variant="outlined"
+              label={`${variant}: ${token.fontSize}px / ${token.fontWeight}${token.lineHeight ? ` / ${token.lineHeight}` : ''}`}
+            />
+          ))}
+        </Box>
+
+        <Typography variant="subtitle2" gutterBottom>
+          Spacing (unit {tokens.spacing.unit}px)
+        </Typography>
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: '8px' }}>
+          {tokens.spacing.scale.map(value => (
+            <Chip key={value} size="small" label={`${value}px`} />
+          ))}
+          {tokens.spacing.offGrid.map(value => (
+            <Chip key={`off-${value}`} size="small" variant="outlined" color="warning" label={`${value}px off-grid`} />
+          ))}
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DesignTokensExport;
@@ -20,6 +20,7 @@ import {
 } from '@mui/icons-material';
 import FigmaService from '../services/figmaService';
 import GPTVisionService from '../services/gptVisionService';
+import { OpenAIProvider } from '../services/llmProvider';
 
 interface FigmaAnalysisDemoProps {
   figmaToken: string;
@@ -44,7 +45,7 @@ const FigmaAnalysisDemo: React.FC<FigmaAnalysisDemoProps> = ({
 
     try {
       const figmaService = new FigmaService(figmaToken);
-      const gptVisionService = new GPTVisionService(openaiApiKey);
+      const gptVisionService = new GPTVisionService(new OpenAIProvider(openaiApiKey));
 
       // Step 1: Extract file key and fetch Figma data
       const fileKey = figmaService.extractFileKey(figmaUrl);
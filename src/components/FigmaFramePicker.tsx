@@ -0,0 +1,160 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardActionArea,
+  Checkbox,
+  CircularProgress,
+  Grid,
+  Typography
+} from '@mui/material';
+import { ViewQuilt as FramesIcon } from '@mui/icons-material';
+import FigmaService, { FigmaFrameSummary, FigmaPageFrames, parseFigmaUrl } from '../services/figmaService';
+import { isAbortError } from '../services/httpClient';
+
+interface FigmaFramePickerProps {
+  figmaUrl: string;
+  figmaToken: string;
+  selectedFrames: FigmaFrameSummary[];
+  onChange: (frames: FigmaFrameSummary[]) => void;
+}
+
+const FigmaFramePicker: React.FC<FigmaFramePickerProps> = ({ figmaUrl, figmaToken, selectedFrames, onChange }) => {
+  const [pages, setPages] = useState<FigmaPageFrames[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+  // The latest callback, so a parent passing a new one does not clear the selection
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  // A different file or token invalidates the listed frames
+  useEffect(() => {
+    abortRef.current?.abort();
+    setPages(null);
+    setError('');
+    onChangeRef.current([]);
+  }, [figmaUrl, figmaToken]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const loadFrames = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const { fileKey, nodeIds } = parseFigmaUrl(figmaUrl);
+      const loaded = await new FigmaService(figmaToken).getPageFrames(fileKey, controller.signal);
+      setPages(loaded);
+      // Frames named in the link start out selected
+      onChange(loaded.flatMap(page => page.frames).filter(frame => nodeIds.includes(frame.id)));
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      console.error('❌ [FRAME PICKER] Failed to list frames:', err);
+      setError(err?.message || 'Could not load the frames of this file.');
+    } finally {
+      if (abortRef.current === controller) setIsLoading(false);
+    }
+  };
+
+  const isSelected = (frame: FigmaFrameSummary) => selectedFrames.some(selected => selected.id === frame.id);
+
+  const toggleFrame = (frame: FigmaFrameSummary) => {
+    onChange(isSelected(frame)
+      ? selectedFrames.filter(selected => selected.id !== frame.id)
+      : [...selectedFrames, frame]);
+  };
+
+  const togglePage = (page: FigmaPageFrames) => {
+    const allSelected = page.frames.every(isSelected);
+    const others = selectedFrames.filter(selected => !page.frames.some(frame => frame.id === selected.id));
+    onChange(allSelected ? others : [...others, ...page.frames]);
+  };
+
+  if (!pages) {
+    return (
+      <Box sx={{ mb: 2 }}>
+        <Button
+          variant="outlined"
+          startIcon={isLoading ? <CircularProgress size={16} /> : <FramesIcon />}
+          onClick={loadFrames}
+          disabled={isLoading || !figmaToken}
+        >
+          {isLoading ? 'Loading frames...' : 'Choose frames'}
+        </Button>
+        {error && (
+          <Alert severity="error" sx={{ mt: 1 }}>
+            {error}
+          </Alert>
+        )}
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ mb: 2, maxHeight: 420, overflow: 'auto' }}>
+      <Typography variant="body2" color="text.secondary" gutterBottom>
+        {selectedFrames.length > 0
+          ? `${selectedFrames.length} frame(s) selected. Each one becomes its own screen.`
+          : 'Select the frames to import. Each one becomes its own screen.'}
+      </Typography>
+
+      {pages.filter(page => page.frames.length > 0).map(page => (
+        <Box key={page.id} sx={{ mb: 2 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+            <Typography variant="subtitle2" sx={{ flexGrow: 1 }}>
+              {page.name}
+            </Typography>
+            <Button size="small" onClick={() => togglePage(page)}>
+              {page.frames.every(isSelected) ? 'Clear page' : 'Select page'}
+            </Button>
+          </Box>
+
+          <Grid container spacing={1}>
+            {page.frames.map(frame => (
+              <Grid item xs={6} sm={4} key={frame.id}>
+                <Card variant="outlined" sx={{ borderColor: isSelected(frame) ? 'primary.main' : 'divider' }}>
+                  <CardActionArea onClick={() => toggleFrame(frame)}>
+                    <Box sx={{ height: 96, bgcolor: 'grey.100', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                      {frame.thumbnailUrl ? (
+                        <img
+                          src={frame.thumbnailUrl}
+                          alt={frame.name}
+                          style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain' }}
+                        />
+                      ) : (
+                        <FramesIcon color="disabled" />
+                      )}
+                    </Box>
+                    <Box sx={{ display: 'flex', alignItems: 'center', px: 0.5 }}>
+                      <Checkbox size="small" checked={isSelected(frame)} tabIndex={-1} disableRipple />
+                      <Box sx={{ minWidth: 0 }}>
+                        <Typography variant="caption" display="block" noWrap>
+                          {frame.name}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          {frame.width}×{frame.height}
+                        </Typography>
+                      </Box>
+                    </Box>
+                  </CardActionArea>
+                </Card>
+              </Grid>
+            ))}
+          </Grid>
+        </Box>
+      ))}
+
+      {pages.every(page => page.frames.length === 0) && (
+        <Alert severity="info">No screen-sized frames were found in this file.</Alert>
+      )}
+    </Box>
+  );
+};
+
+export default FigmaFramePicker;
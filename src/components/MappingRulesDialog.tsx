@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  Checkbox,
+  FormControlLabel,
+  FormGroup
+} from '@mui/material';
+import { Rule as RuleIcon } from '@mui/icons-material';
+import {
+  BUILT_IN_MAPPING_RULES,
+  MappingRule,
+  ProjectMappingRules,
+  validateMappingRules
+} from '../services/mappingRuleEngine';
+import { EXAMPLE_RULE_PACKS } from '../services/mappingRulePacks';
+
+interface MappingRulesDialogProps {
+  open: boolean;
+  projectName?: string;
+  value?: ProjectMappingRules | null;
+  onClose: () => void;
+  onSave: (value: ProjectMappingRules) => void;
+}
+
+const MappingRulesDialog: React.FC<MappingRulesDialogProps> = ({
+  open,
+  projectName,
+  value,
+  onClose,
+  onSave
+}) => {
+  const [packs, setPacks] = useState<string[]>([]);
+  const [rulesText, setRulesText] = useState('[]');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setPacks(value?.packs || []);
+      setRulesText(JSON.stringify(value?.rules || [], null, 2));
+      setErrors([]);
+    }
+  }, [open, value]);
+
+  const parseRules = (): MappingRule[] | null => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(rulesText || '[]');
+    } catch (error: any) {
+      setErrors([`Rules are not valid JSON: ${error.message}`]);
+      return null;
+    }
+
+    const problems = validateMappingRules(parsed);
+    setErrors(problems);
+    return problems.length === 0 ? parsed as MappingRule[] : null;
+  };
+
+  const togglePack = (packId: string) => {
+    setPacks(prev => prev.includes(packId) ? prev.filter(id => id !== packId) : [...prev, packId]);
+  };
+
+  // Copy a pack's rules into the editor as a starting point for project rules
+  const copyPackRules = (packId: string) => {
+    const pack = EXAMPLE_RULE_PACKS.find(candidate => candidate.id === packId);
+    const current = parseRules();
+    if (!pack || !current) return;
+    setRulesText(JSON.stringify([...current, ...pack.rules], null, 2));
+  };
+
+  const handleSave = () => {
+    const rules = parseRules();
+    if (!rules) return;
+    onSave({ packs, rules });
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          <RuleIcon sx={{ mr: 1 }} />
+          Component Mapping Rules{projectName ? ` - ${projectName}` : ''}
+        </Box>
+      </DialogTitle>
+
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" paragraph>
+          Rules decide which Material-UI component each Figma layer becomes. Project rules run first,
+          then enabled example packs, then the {BUILT_IN_MAPPING_RULES.length} built-in rules
+          (text roles, button components, clickable labels, shadowed cards, dividers).
+          Anything unmatched becomes a Box.
+        </Typography>
+
+        <Typography variant="subtitle2" gutterBottom>
+          Example packs
+        </Typography>
+        <FormGroup sx={{ mb: 2 }}>
+          {EXAMPLE_RULE_PACKS.map(pack => (
+            <Box key={pack.id} sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+              <FormControlLabel
+                control={<Checkbox checked={packs.includes(pack.id)} onChange={() => togglePack(pack.id)} />}
+                label={`${pack.name} (${pack.rules.length} rules)${pack.description ? ` - ${pack.description}` : ''}`}
+              />
+              <Button size="small" onClick={() => copyPackRules(pack.id)}>
+                Copy into project rules
+              </Button>
+            </Box>
+          ))}
+        </FormGroup>
+
+        <Typography variant="subtitle2" gutterBottom>
+          Project rules (JSON)
+        </Typography>
+        <TextField
+          fullWidth
+          multiline
+          minRows={10}
+          maxRows={24}
+          value={rulesText}
+          onChange={(e) => setRulesText(e.target.value)}
+          InputProps={{ sx: { fontFamily: 'monospace', fontSize: '0.8rem' } }}
+          helperText='Each rule: { "id", "when": { nodeTypes, name, component, variant, text, textRole, layout, interactive, hasText, hasImage, hasFill, hasBorder, hasShadow, min/maxWidth, min/maxHeight }, "component", "props", "sx", "content", "priority" }'
+        />
+
+        {errors.length > 0 && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {errors.slice(0, 10).map((message, index) => (
+              <Typography key={index} variant="body2" sx={{ fontFamily: 'monospace' }}>
+                {message}
+              </Typography>
+            ))}
+          </Alert>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={handleSave} variant="contained">
+          Save Rules
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default MappingRulesDialog;
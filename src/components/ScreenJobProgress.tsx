@@ -0,0 +1,213 @@
+import React from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Typography
+} from '@mui/material';
+import {
+  CheckCircle as CompleteIcon,
+  Error as ErrorIcon,
+  Schedule as QueuedIcon
+} from '@mui/icons-material';
+import { useList, useUpdate } from '@refinedev/core';
+import {
+  SCREEN_JOBS_TABLE,
+  SCREEN_JOB_EVENTS_TABLE,
+  ScreenJob,
+  ScreenJobEvent
+} from '../services/screenJobs';
+import { CHECKPOINT_STALE_MS, getCheckpoint, startCheckpoint } from '../services/processingCheckpoint';
+
+interface ScreenJobProgressProps {
+  screen: {
+    id: string;
+    name: string;
+    figma_url?: string;
+    analysis_data?: any;
+  };
+}
+
+interface StageProgress {
+  stage: string;
+  label: string;
+  message?: string;
+  progress?: number;
+  complete: boolean;
+}
+
+const JOB_STATUS_LABELS: Record<ScreenJob['status'], string> = {
+  queued: 'Queued',
+  running: 'Running',
+  succeeded: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+/**
+ * Stages in the order they started, with their latest message
+ */
+const summarizeStages = (events: ScreenJobEvent[]): StageProgress[] => {
+  const stages = new Map<string, StageProgress>();
+  events.forEach(event => {
+    if (!event.stage) return;
+    const stage = stages.get(event.stage) || { stage: event.stage, label: event.stage, complete: false };
+    if (event.type === 'stage:start') {
+      stage.label = event.message || event.stage;
+      stage.message = undefined;
+    } else if (event.type === 'stage:complete') {
+      stage.complete = true;
+      if (event.message === 'Restored from cache') stage.message = event.message;
+    } else {
+      stage.message = event.message || undefined;
+      stage.progress = event.progress ?? undefined;
+    }
+    stages.set(event.stage, stage);
+  });
+  return Array.from(stages.values());
+};
+
+/**
+ * Progress of a screen processed by the job worker, kept current through the live provider
+ */
+const ScreenJobProgress: React.FC<ScreenJobProgressProps> = ({ screen }) => {
+  const { data: jobsData } = useList<ScreenJob>({
+    resource: SCREEN_JOBS_TABLE,
+    filters: [{ field: 'screen_id', operator: 'eq', value: screen.id }],
+    sorters: [{ field: 'created_at', order: 'desc' }],
+    pagination: { pageSize: 1 },
+    liveMode: 'auto'
+  });
+  const job = jobsData?.data[0];
+
+  const { data: eventsData } = useList<ScreenJobEvent>({
+    resource: SCREEN_JOB_EVENTS_TABLE,
+    filters: [{ field: 'job_id', operator: 'eq', value: job?.id }],
+    sorters: [{ field: 'created_at', order: 'asc' }],
+    pagination: { mode: 'off' },
+    liveMode: 'auto',
+    queryOptions: { enabled: !!job }
+  });
+  const stages = summarizeStages(eventsData?.data || []);
+
+  const { mutate: updateJob } = useUpdate();
+  const { mutate: updateScreen } = useUpdate();
+
+  const isStale = job?.status === 'running' && !!job.heartbeat_at
+    && Date.now() - Date.parse(job.heartbeat_at) > CHECKPOINT_STALE_MS;
+
+  const cancelJob = () => {
+    if (!job) return;
+    updateJob({
+      resource: SCREEN_JOBS_TABLE,
+      id: job.id,
+      values: { status: 'cancelled' },
+      successNotification: false
+    });
+    // A running job is stopped by its worker; nobody else would update the screen
+    if (job.status === 'queued' && screen.figma_url) {
+      updateScreen({
+        resource: 'screens',
+        id: screen.id,
+        values: {
+          status: 'error',
+          analysis_data: {
+            ...screen.analysis_data,
+            checkpoint: { ...startCheckpoint(screen.figma_url, getCheckpoint(screen)), cancelled: true }
+          }
+        },
+        successNotification: false
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+          <Typography variant="h6" sx={{ flexGrow: 1 }}>
+            {screen.name}
+          </Typography>
+          {job && (
+            <Chip
+              size="small"
+              label={`${JOB_STATUS_LABELS[job.status]}${job.attempts > 1 ? ` · attempt ${job.attempts}` : ''}`}
+              color={job.status === 'failed' ? 'error' : job.status === 'running' ? 'warning' : 'default'}
+            />
+          )}
+          {job && (job.status === 'queued' || job.status === 'running') && (
+            <Button size="small" color="inherit" onClick={cancelJob}>
+              Cancel
+            </Button>
+          )}
+        </Box>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          Processing on the server. You can close this tab; the screen is ready when you come back.
+        </Typography>
+
+        {!job && <LinearProgress sx={{ my: 2 }} />}
+
+        {job?.status === 'queued' && (
+          <Alert severity="info" icon={<QueuedIcon />} sx={{ my: 1 }}>
+            Waiting for a worker to pick up this screen.
+          </Alert>
+        )}
+
+        {isStale && (
+          <Alert severity="warning" sx={{ my: 1 }}>
+            The worker stopped responding. Another worker will resume from the last completed stage.
+          </Alert>
+        )}
+
+        {job?.error && (
+          <Alert severity="error" sx={{ my: 1 }}>
+            {job.error}
+          </Alert>
+        )}
+
+        <List dense>
+          {stages.map((stage, index) => {
+            const isActive = !stage.complete && index === stages.length - 1 && job?.status === 'running';
+            return (
+              <ListItem key={stage.stage}>
+                <ListItemIcon>
+                  {stage.complete ? (
+                    <CompleteIcon color="success" />
+                  ) : isActive ? (
+                    <CircularProgress size={20} />
+                  ) : job?.status === 'failed' ? (
+                    <ErrorIcon color="error" />
+                  ) : (
+                    <QueuedIcon color="disabled" />
+                  )}
+                </ListItemIcon>
+                <ListItemText
+                  primary={stage.label}
+                  secondary={
+                    <>
+                      {stage.message}
+                      {isActive && stage.progress !== undefined && (
+                        <LinearProgress variant="determinate" value={stage.progress * 100} sx={{ mt: 0.5 }} />
+                      )}
+                    </>
+                  }
+                />
+              </ListItem>
+            );
+          })}
+        </List>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ScreenJobProgress;
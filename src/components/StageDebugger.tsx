@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   Box,
   Card,
@@ -25,135 +25,153 @@ import {
   PlayArrow as RunIcon,
   GroupWork as GroupIcon,
   Visibility as VisualIcon,
-  Compare as CompareIcon
+  Compare as CompareIcon,
+  Refresh as RerunIcon
 } from '@mui/icons-material';
-import FigmaService from '../services/figmaService';
-import SemanticGroupingService, { SemanticGroupingResult } from '../services/semanticGroupingService';
-import GPTVisionService, { GPTVisionAnalysis } from '../services/gptVisionService';
+import { LLMSettings } from '../services/llmProvider';
+import { FigmaPipelineState, createFigmaPipeline, createFigmaPipelineServices } from '../services/figmaPipeline';
+import { StructuredOutputDiagnostics } from '../services/structuredOutput';
+import { createStageCache } from '../services/stageCache';
 
 interface StageDebuggerProps {
   figmaToken: string;
-  openaiApiKey: string;
+  llmSettings: LLMSettings;
 }
 
+/**
+ * How a stage's model response was validated: attempts, repairs and the reason for any fallback
+ */
+const StructuredOutputReport: React.FC<{ diagnostics?: StructuredOutputDiagnostics }> = ({ diagnostics }) => {
+  if (!diagnostics) return null;
+
+  const failedAttempts = diagnostics.attempts.filter(attempt => attempt.errors.length > 0);
+  const repaired = diagnostics.attempts.some(attempt => attempt.repaired && attempt.errors.length === 0);
+  const severity = diagnostics.usedFallback ? 'error' : failedAttempts.length > 0 || repaired ? 'warning' : 'success';
+
+  return (
+    <Alert severity={severity} sx={{ mb: 3 }}>
+      <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
+        {diagnostics.usedFallback
+          ? `Model response rejected, heuristic fallback used (${diagnostics.provider}/${diagnostics.model})`
+          : `${diagnostics.schemaName} validated in ${diagnostics.attempts.length} attempt(s) (${diagnostics.provider}/${diagnostics.model})${repaired ? ', after local repair' : ''}`}
+      </Typography>
+      {diagnostics.failureReason && (
+        <Typography variant="body2">{diagnostics.failureReason}</Typography>
+      )}
+      {failedAttempts.map(attempt => (
+        <Box key={attempt.attempt} sx={{ mt: 1 }}>
+          <Typography variant="caption" sx={{ fontWeight: 'bold' }}>
+            Attempt {attempt.attempt}:
+          </Typography>
+          {attempt.errors.slice(0, 10).map((message, index) => (
+            <Typography key={index} variant="caption" display="block" sx={{ fontFamily: 'monospace' }}>
+              {message}
+            </Typography>
+          ))}
+          {attempt.errors.length > 10 && (
+            <Typography variant="caption" display="block">
+              …and {attempt.errors.length - 10} more
+            </Typography>
+          )}
+        </Box>
+      ))}
+    </Alert>
+  );
+};
+
+// Stages the debugger runs, in pipeline order
+const DEBUG_STAGES = ['fetchFigma', 'storeAssets', 'semanticGrouping', 'visualValidation'];
+
+const stageCache = createStageCache();
+
 const StageDebugger: React.FC<StageDebuggerProps> = ({
   figmaToken,
-  openaiApiKey
+  llmSettings
 }) => {
   const [currentTab, setCurrentTab] = useState(0);
   const [figmaUrl, setFigmaUrl] = useState('CbS1cPHwdvmOJfPJFzKodU');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   
-  // Results state
-  const [figmaData, setFigmaData] = useState<any>(null);
-  const [semanticGrouping, setSemanticGrouping] = useState<SemanticGroupingResult | null>(null);
-  const [gptAnalysis, setGptAnalysis] = useState<GPTVisionAnalysis | null>(null);
+  // Results so far; each button runs one stage of the Figma pipeline on top of them
+  const [pipelineState, setPipelineState] = useState<Partial<FigmaPipelineState>>({});
+  const figmaData = pipelineState.figma;
+  const semanticGrouping = pipelineState.semanticGrouping || null;
+  const gptAnalysis = pipelineState.visionAnalysis || null;
+  // Stages whose result came from the cache in the last run that included them
+  const [cachedStages, setCachedStages] = useState<Record<string, boolean>>({});
 
-  const runStage3A = async () => {
-    if (!figmaData) {
-      setError('Please fetch Figma data first');
-      return;
-    }
+  const pipeline = useMemo(
+    () => createFigmaPipeline(createFigmaPipelineServices({ figmaToken, llmSettings })),
+    [figmaToken, llmSettings]
+  );
 
+  /**
+   * Run some stages of the pipeline and keep their outputs. Stages in `force` run even
+   * when the cache has their result.
+   */
+  const runStages = async (
+    initial: Partial<FigmaPipelineState>,
+    stages: string[],
+    label: string,
+    force: string[] = []
+  ) => {
     setIsLoading(true);
     setError('');
-    
+
+    const unsubscribe = pipeline.subscribe(event => {
+      if (event.type === 'stage:complete') {
+        setCachedStages(previous => ({ ...previous, [event.stage]: event.cached }));
+      }
+    });
+
     try {
-      console.log('🔍 Running Stage 3A: Semantic Grouping...');
-      const semanticGroupingService = new SemanticGroupingService(openaiApiKey);
-      
-      const result = await semanticGroupingService.groupComponents(
-        figmaData.figmaFile,
-        figmaData.figmaComponents
-      );
-      
-      setSemanticGrouping(result);
-      console.log('✅ Stage 3A Complete:', result);
-      
+      const state = await pipeline.run(initial, { stages, cache: stageCache, force });
+      setPipelineState(state);
+      console.log(`✅ ${label} complete:`, state);
     } catch (err: any) {
-      setError(`Stage 3A failed: ${err.message}`);
+      setError(`${label} failed: ${err.message}`);
     } finally {
+      unsubscribe();
       setIsLoading(false);
     }
   };
 
+  /**
+   * Run one stage again, ignoring its cached result, on top of the cached results of the
+   * stages before it
+   */
+  const rerunStage = async (stage: string, label: string) => {
+    console.log(`🔄 Re-running ${label} without its cached result...`);
+    await runStages({ figmaUrl }, DEBUG_STAGES.slice(0, DEBUG_STAGES.indexOf(stage) + 1), label, [stage]);
+  };
+
+  const cacheNote = (stage: string) => (cachedStages[stage] ? ' · cached' : '');
+
+  const runStage3A = async () => {
+    if (!figmaData) {
+      setError('Please fetch Figma data first');
+      return;
+    }
+
+    console.log('🔍 Running Stage 3A: Semantic Grouping...');
+    // A new grouping invalidates the visual validation built on the old one
+    await runStages({ ...pipelineState, visionAnalysis: undefined }, ['semanticGrouping'], 'Stage 3A');
+  };
+
   const runStage3B = async () => {
     if (!figmaData || !semanticGrouping) {
       setError('Please run Stage 3A first');
       return;
     }
 
-    setIsLoading(true);
-    setError('');
-    
-    try {
-      console.log('🎨 Running Stage 3B: Visual Validation...');
-      const gptVisionService = new GPTVisionService(openaiApiKey);
-      
-      const result = await gptVisionService.analyzeSemanticGroups(
-        figmaData.figmaFile,
-        figmaData.imageUrl,
-        semanticGrouping
-      );
-      
-      setGptAnalysis(result);
-      console.log('✅ Stage 3B Complete:', result);
-      
-    } catch (err: any) {
-      setError(`Stage 3B failed: ${err.message}`);
-    } finally {
-      setIsLoading(false);
-    }
+    console.log('🎨 Running Stage 3B: Visual Validation...');
+    await runStages(pipelineState, ['visualValidation'], 'Stage 3B');
   };
 
   const fetchFigmaData = async () => {
-    setIsLoading(true);
-    setError('');
-    
-    try {
-      const figmaService = new FigmaService(figmaToken);
-      
-      // Extract file key and fetch data
-      const fileKey = figmaService.extractFileKey(figmaUrl);
-      const figmaFile = await figmaService.getFile(fileKey);
-      
-      // Get main frames and export image
-      const mainFrames = figmaService.getMainFrames(figmaFile);
-      if (mainFrames.length === 0) {
-        throw new Error('No frames found in Figma file');
-      }
-
-      const images = await figmaService.getImages(fileKey, [mainFrames[0]], {
-        format: 'png',
-        scale: 2
-      });
-      
-      const imageUrl = images[mainFrames[0]];
-      if (!imageUrl) {
-        throw new Error('Failed to export image from Figma');
-      }
-
-      // Analyze structure
-      const figmaComponents = figmaService.analyzeFileStructure(figmaFile);
-      
-      setFigmaData({
-        figmaFile,
-        imageUrl,
-        figmaComponents
-      });
-      
-      console.log('📊 Figma data fetched:', { 
-        fileName: figmaFile.name, 
-        componentsCount: figmaComponents.length,
-        imageUrl 
-      });
-      
-    } catch (err: any) {
-      setError(`Figma fetch failed: ${err.message}`);
-    } finally {
-      setIsLoading(false);
-    }
+    // Fetching again starts over, dropping the results of later stages
+    await runStages({ figmaUrl }, ['fetchFigma', 'storeAssets'], 'Figma fetch');
   };
 
   return (
@@ -192,9 +210,19 @@ const StageDebugger: React.FC<StageDebuggerProps> = ({
             Fetch Figma Data
           </Button>
 
+          <Button
+            variant="text"
+            startIcon={<RerunIcon />}
+            onClick={() => rerunStage('fetchFigma', 'Figma fetch')}
+            disabled={!figmaUrl.trim() || isLoading}
+            sx={{ mr: 2 }}
+          >
+            Re-fetch (skip cache)
+          </Button>
+
           {figmaData && (
             <Chip 
-              label={`✅ ${figmaData.figmaFile.name} (${figmaData.figmaComponents.length} nodes)`}
+              label={`✅ ${figmaData.fileData.name} (${figmaData.components.length} nodes)${cacheNote('fetchFigma')}`}
               color="success"
             />
           )}
@@ -227,9 +255,18 @@ const StageDebugger: React.FC<StageDebuggerProps> = ({
                 >
                   {isLoading ? <CircularProgress size={20} /> : 'Run Stage 3A'}
                 </Button>
+                <Button
+                  size="small"
+                  startIcon={<RerunIcon />}
+                  onClick={() => rerunStage('semanticGrouping', 'Stage 3A')}
+                  disabled={isLoading}
+                  fullWidth
+                >
+                  Re-run, skipping its cache
+                </Button>
                 {semanticGrouping && (
                   <Typography variant="caption" display="block" sx={{ mt: 1, textAlign: 'center' }}>
-                    ✅ {semanticGrouping.groups.length} groups ({(semanticGrouping.confidence * 100).toFixed(0)}%)
+                    {semanticGrouping.diagnostics?.usedFallback ? '⚠️ Fallback:' : '✅'} {semanticGrouping.groups.length} groups ({(semanticGrouping.confidence * 100).toFixed(0)}%){cacheNote('semanticGrouping')}
                   </Typography>
                 )}
               </Grid>
@@ -245,9 +282,18 @@ const StageDebugger: React.FC<StageDebuggerProps> = ({
                 >
                   {isLoading ? <CircularProgress size={20} /> : 'Run Stage 3B'}
                 </Button>
+                <Button
+                  size="small"
+                  startIcon={<RerunIcon />}
+                  onClick={() => rerunStage('visualValidation', 'Stage 3B')}
+                  disabled={isLoading || !semanticGrouping}
+                  fullWidth
+                >
+                  Re-run, skipping its cache
+                </Button>
                 {gptAnalysis && (
                   <Typography variant="caption" display="block" sx={{ mt: 1, textAlign: 'center' }}>
-                    ✅ {gptAnalysis.components.length} components ({(gptAnalysis.confidence * 100).toFixed(0)}%)
+                    {gptAnalysis.diagnostics?.usedFallback ? '⚠️ Fallback:' : '✅'} {gptAnalysis.components.length} components ({(gptAnalysis.confidence * 100).toFixed(0)}%){cacheNote('visualValidation')}
                   </Typography>
                 )}
               </Grid>
@@ -311,6 +357,8 @@ const StageDebugger: React.FC<StageDebuggerProps> = ({
                   </Grid>
                 </Grid>
 
+                <StructuredOutputReport diagnostics={semanticGrouping.diagnostics} />
+
                 <TableContainer component={Paper}>
                   <Table size="small">
                     <TableHead>
@@ -382,6 +430,8 @@ const StageDebugger: React.FC<StageDebuggerProps> = ({
                   </Grid>
                 </Grid>
 
+                <StructuredOutputReport diagnostics={gptAnalysis.diagnostics} />
+
                 <TableContainer component={Paper}>
                   <Table size="small">
                     <TableHead>
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import {
   Box,
   Paper,
@@ -28,6 +28,9 @@ import {
   ContentCopy as CopyIcon
 } from '@mui/icons-material';
 import { useCreate, useUpdate } from '@refinedev/core';
+import VibeCodingService, { createStubVibeProvider } from '../services/vibeCodingService';
+import { LLMSettings, createLLMProvider, hasLLMCredentials } from '../services/llmProvider';
+import { isAbortError } from '../services/httpClient';
 
 interface VibeSession {
   id: string;
@@ -51,6 +54,7 @@ interface Screen {
   status: 'processing' | 'iterating' | 'ready' | 'error';
   iteration_count: number;
   confidence_score?: number;
+  analysis_data?: any;
 }
 
 interface VibeChatInterfaceProps {
@@ -58,17 +62,44 @@ interface VibeChatInterfaceProps {
   sessions: VibeSession[];
   onSessionUpdate: () => void;
   onScreenUpdate: () => void;
+  llmSettings?: LLMSettings;
 }
 
+/**
+ * Pick the model backend: the configured provider, or the local stub when
+ * VITE_LLM_PROVIDER=stub for offline work
+ */
+const createVibeCodingService = (llmSettings?: LLMSettings): VibeCodingService | null => {
+  if (import.meta.env.VITE_LLM_PROVIDER === 'stub') {
+    return new VibeCodingService(createStubVibeProvider());
+  }
+  if (llmSettings && hasLLMCredentials(llmSettings)) {
+    return new VibeCodingService(createLLMProvider(llmSettings, 'vibeCoding'));
+  }
+  return null;
+};
+
 const VibeChatInterface: React.FC<VibeChatInterfaceProps> = ({
   screen,
   sessions,
   onSessionUpdate,
-  onScreenUpdate
+  onScreenUpdate,
+  llmSettings
 }) => {
   const [message, setMessage] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
+  const [pendingPrompt, setPendingPrompt] = useState<string | null>(null);
+  const [chatError, setChatError] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const vibeCodingService = useMemo(() => createVibeCodingService(llmSettings), [llmSettings]);
+
+  // Sessions arrive newest first; the chat reads top to bottom
+  const orderedSessions = useMemo(
+    () => [...sessions].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()),
+    [sessions]
+  );
 
   const { mutate: createSession } = useCreate();
   const { mutate: updateScreen } = useUpdate();
@@ -80,111 +111,76 @@ const VibeChatInterface: React.FC<VibeChatInterfaceProps> = ({
 
   useEffect(() => {
     scrollToBottom();
-  }, [sessions]);
+  }, [orderedSessions, pendingPrompt]);
+
+  // Drop any in-flight request when the chat closes
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
 
   const handleSendMessage = async () => {
-    if (!message.trim() || isProcessing) return;
+    if (!message.trim() || isProcessing || !vibeCodingService || !screen.current_code) return;
 
     setIsProcessing(true);
+    setChatError('');
     const userMessage = message;
     setMessage('');
+    setPendingPrompt(userMessage);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
     try {
-      // Create user message session
-      const sessionData = {
-        screen_id: screen.id,
-        session_type: 'chat' as const,
-        user_prompt: userMessage,
-        is_accepted: false
-      };
+      const result = await vibeCodingService.iterate({
+        prompt: userMessage,
+        currentCode: screen.current_code,
+        analysisData: screen.analysis_data,
+        history: orderedSessions.map(session => ({
+          userPrompt: session.user_prompt,
+          aiResponse: session.ai_response
+        })),
+        signal: controller.signal
+      });
 
       createSession({
         resource: 'vibe_sessions',
-        values: sessionData
+        values: {
+          screen_id: screen.id,
+          session_type: 'iteration' as const,
+          user_prompt: userMessage,
+          ai_response: result.explanation,
+          generated_code: result.code,
+          ai_provider: `${result.provider}/${result.model}`,
+          confidence_score: result.confidence,
+          is_accepted: false
+        }
       }, {
-        onSuccess: async () => {
-          // Simulate AI processing (replace with actual API call)
-          await simulateAIResponse(userMessage);
+        onSuccess: () => {
           onSessionUpdate();
         },
         onError: (error) => {
-          console.error('Failed to create session:', error);
+          console.error('Failed to save session:', error);
+          setChatError('The AI response could not be saved. Please try again.');
+          setMessage(userMessage);
+        },
+        onSettled: () => {
+          setPendingPrompt(null);
           setIsProcessing(false);
         }
       });
     } catch (error) {
-      console.error('Error sending message:', error);
+      if (!isAbortError(error)) {
+        console.error('Error sending message:', error);
+        setChatError(error instanceof Error ? error.message : 'The AI request failed');
+        setMessage(userMessage);
+      }
+      setPendingPrompt(null);
       setIsProcessing(false);
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
     }
   };
 
-  const simulateAIResponse = async (userPrompt: string) => {
-    // This would be replaced with actual AI API calls
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        const aiResponse = generateMockAIResponse(userPrompt);
-        const generatedCode = generateMockCode(userPrompt);
-
-        createSession({
-          resource: 'vibe_sessions',
-          values: {
-            screen_id: screen.id,
-            session_type: 'chat' as const,
-            user_prompt: userPrompt,
-            ai_response: aiResponse,
-            generated_code: generatedCode,
-            ai_provider: 'mock',
-            confidence_score: Math.random() * 0.3 + 0.7, // 0.7-1.0
-            is_accepted: false
-          }
-        }, {
-          onSuccess: () => {
-            setIsProcessing(false);
-            resolve(null);
-          }
-        });
-      }, 2000);
-    });
-  };
-
-  const generateMockAIResponse = (prompt: string): string => {
-    if (prompt.toLowerCase().includes('color')) {
-      return "I've updated the color scheme based on your request. The new design uses a more vibrant palette that should better match your brand.";
-    } else if (prompt.toLowerCase().includes('button')) {
-      return "I've modified the button styles to be more modern and accessible. The new buttons have better spacing and hover effects.";
-    } else if (prompt.toLowerCase().includes('layout')) {
-      return "I've restructured the layout to be more responsive and user-friendly. The new layout works better on mobile devices.";
-    } else {
-      return "I've analyzed your request and made the appropriate changes to the code. The updated version should better match your requirements.";
-    }
-  };
-
-  const generateMockCode = (prompt: string): string => {
-    return `// Updated code based on: "${prompt}"
-import React from 'react';
-import { Box, Button, Typography, Card } from '@mui/material';
-
-const GeneratedComponent = () => {
-  return (
-    <Box sx={{ p: 2 }}>
-      <Typography variant="h4" gutterBottom>
-        Updated Design
-      </Typography>
-      <Card sx={{ p: 2, mt: 2 }}>
-        <Typography variant="body1">
-          This code has been updated based on your feedback.
-        </Typography>
-        <Button variant="contained" sx={{ mt: 2 }}>
-          Action Button
-        </Button>
-      </Card>
-    </Box>
-  );
-};
-
-export default GeneratedComponent;`;
-  };
-
   const handleAcceptCode = (session: VibeSession) => {
     if (!session.generated_code) return;
 
@@ -241,13 +237,19 @@ export default GeneratedComponent;`;
       {/* Messages Area */}
       <Box sx={{ flex: 1, overflow: 'auto', p: 2, bgcolor: 'grey.50' }}>
         <List>
-          {sessions.length === 0 && (
+          {!vibeCodingService && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              Configure an AI provider in API Settings to start vibe-coding.
+            </Alert>
+          )}
+
+          {orderedSessions.length === 0 && !pendingPrompt && (
             <Alert severity="info" sx={{ mb: 2 }}>
               Start a conversation to modify your screen design. Try asking to change colors, layout, or add new features.
             </Alert>
           )}
           
-          {sessions.map((session) => (
+          {orderedSessions.map((session) => (
             <Box key={session.id} sx={{ mb: 2 }}>
               {/* User Message */}
               {session.user_prompt && (
@@ -343,6 +345,27 @@ export default GeneratedComponent;`;
             </Box>
           ))}
 
+          {pendingPrompt && (
+            <ListItem sx={{ justifyContent: 'flex-end', px: 0 }}>
+              <Box sx={{ display: 'flex', alignItems: 'flex-start', maxWidth: '80%' }}>
+                <Paper sx={{ p: 2, bgcolor: 'primary.main', color: 'white', ml: 2 }}>
+                  <Typography variant="body2">
+                    {pendingPrompt}
+                  </Typography>
+                </Paper>
+                <Avatar sx={{ ml: 1, bgcolor: 'primary.main' }}>
+                  <PersonIcon />
+                </Avatar>
+              </Box>
+            </ListItem>
+          )}
+
+          {chatError && (
+            <Alert severity="error" sx={{ mb: 2 }} onClose={() => setChatError('')}>
+              {chatError}
+            </Alert>
+          )}
+
           {isProcessing && (
             <ListItem sx={{ justifyContent: 'flex-start', px: 0 }}>
               <Box sx={{ display: 'flex', alignItems: 'center' }}>
@@ -375,13 +398,13 @@ export default GeneratedComponent;`;
             value={message}
             onChange={(e) => setMessage(e.target.value)}
             onKeyPress={handleKeyPress}
-            disabled={isProcessing}
+            disabled={isProcessing || !vibeCodingService || !screen.current_code}
             variant="outlined"
             size="small"
           />
           <IconButton
             onClick={handleSendMessage}
-            disabled={!message.trim() || isProcessing}
+            disabled={!message.trim() || isProcessing || !vibeCodingService || !screen.current_code}
             color="primary"
             sx={{ alignSelf: 'flex-end' }}
           >
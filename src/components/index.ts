@@ -7,3 +7,8 @@ export { default as APISettings } from "./APISettings";
 export { default as FigmaAPITest } from "./FigmaAPITest";
 export { default as DebugPipeline } from './DebugPipeline';
 export { default as StageDebugger } from './StageDebugger';
+export { default as MappingRulesDialog } from './MappingRulesDialog';
+export { default as ComponentRegistryDialog } from './ComponentRegistryDialog';
+export { default as DesignTokensExport } from './DesignTokensExport';
+export { default as FigmaFramePicker } from './FigmaFramePicker';
+export { default as ScreenJobProgress } from './ScreenJobProgress';
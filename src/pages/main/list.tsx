@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import {
   Box,
   Card,
@@ -32,7 +32,9 @@ import {
   CardActions,
   Tooltip,
   Avatar,
-  Badge
+  Badge,
+  FormControlLabel,
+  Switch
 } from '@mui/material';
 import {
   Add as AddIcon,
@@ -47,7 +49,10 @@ import {
   Preview as PreviewIcon,
   History as HistoryIcon,
   Settings as SettingsIcon,
-  Link as LinkIcon
+  Link as LinkIcon,
+  Rule as RuleIcon,
+  Widgets as WidgetsIcon,
+  Replay as RetryIcon
 } from '@mui/icons-material';
 import { useList, useCreate, useUpdate, useDelete, useGetIdentity } from '@refinedev/core';
 import { supabaseClient } from '../../utility';
@@ -59,14 +64,27 @@ import {
   APISettings,
   FigmaAPITest,
   DebugPipeline,
-  StageDebugger
+  StageDebugger,
+  MappingRulesDialog,
+  ComponentRegistryDialog,
+  DesignTokensExport,
+  FigmaFramePicker,
+  ScreenJobProgress
 } from '../../components';
 import { APISettings as APISettingsType } from '../../components/APISettings';
+import FigmaService, { parseFigmaUrl, figmaFrameUrl, FigmaUrlInfo, FigmaFrameSummary } from '../../services/figmaService';
+import { hasLLMCredentials, resolveLLMSettings } from '../../services/llmProvider';
+import { getCheckpoint } from '../../services/processingCheckpoint';
+import { SCREEN_JOBS_TABLE, WORKER_RUNNER } from '../../services/screenJobs';
+import { ProjectMappingRules } from '../../services/mappingRuleEngine';
+import { ProjectComponentRegistry } from '../../services/componentRegistry';
 
 interface Project {
   id: string;
   name: string;
   description?: string;
+  mapping_rules?: ProjectMappingRules | null;
+  component_registry?: ProjectComponentRegistry | null;
   created_at: string;
   updated_at: string;
 }
@@ -100,6 +118,14 @@ interface VibeSession {
   created_at: string;
 }
 
+const getFigmaUrlInfo = (value: string): FigmaUrlInfo | null => {
+  try {
+    return parseFigmaUrl(value);
+  } catch {
+    return null;
+  }
+};
+
 const VibecodingInterface = () => {
   const [selectedProject, setSelectedProject] = useState<Project | null>(null);
   const [selectedScreen, setSelectedScreen] = useState<Screen | null>(null);
@@ -114,8 +140,15 @@ const VibecodingInterface = () => {
   const [menuProject, setMenuProject] = useState<Project | null>(null);
   const [uploadType, setUploadType] = useState<'image' | 'figma'>('figma');
   const [figmaUrl, setFigmaUrl] = useState('CbS1cPHwdvmOJfPJFzKodU');
+  const [selectedFrames, setSelectedFrames] = useState<FigmaFrameSummary[]>([]);
+  const [processInBackground, setProcessInBackground] = useState(false);
   const [apiSettingsOpen, setApiSettingsOpen] = useState(false);
   const [apiSettings, setApiSettings] = useState<APISettingsType | null>(null);
+  const [rulesProject, setRulesProject] = useState<Project | null>(null);
+  const [registryProject, setRegistryProject] = useState<Project | null>(null);
+
+  const llmSettings = useMemo(() => resolveLLMSettings(apiSettings), [apiSettings]);
+  const hasRequiredSettings = !!apiSettings?.figmaToken && hasLLMCredentials(llmSettings);
 
   // Get current user identity
   const { data: identity } = useGetIdentity<{
@@ -134,11 +167,13 @@ const VibecodingInterface = () => {
   const { data: screensData, isLoading: screensLoading, refetch: refetchScreens } = useList<Screen>({
     resource: 'screens',
     filters: selectedProject ? [{ field: 'project_id', operator: 'eq', value: selectedProject.id }] : [],
-    sorters: [{ field: 'updated_at', order: 'desc' }]
+    sorters: [{ field: 'updated_at', order: 'desc' }],
+    // Screens processed by the job worker update without a refresh
+    liveMode: 'auto'
   });
 
   // Fetch vibe sessions for selected screen
-  const { data: vibeSessionsData, isLoading: vibeSessionsLoading } = useList<VibeSession>({
+  const { data: vibeSessionsData, isLoading: vibeSessionsLoading, refetch: refetchVibeSessions } = useList<VibeSession>({
     resource: 'vibe_sessions',
     filters: selectedScreen ? [{ field: 'screen_id', operator: 'eq', value: selectedScreen.id }] : [],
     sorters: [{ field: 'created_at', order: 'desc' }]
@@ -148,7 +183,9 @@ const VibecodingInterface = () => {
   const { mutate: createProject } = useCreate();
   const { mutate: updateProject } = useUpdate();
   const { mutate: deleteProject } = useDelete();
-  const { mutate: createScreen } = useCreate();
+  const { mutate: createScreen, mutateAsync: createScreenAsync } = useCreate();
+  const { mutate: updateScreen } = useUpdate();
+  const { mutateAsync: createJobAsync } = useCreate();
 
   const projects = projectsData?.data || [];
   const screens = screensData?.data || [];
@@ -233,54 +270,90 @@ const VibecodingInterface = () => {
     localStorage.setItem('vibeforge-api-settings', JSON.stringify(settings));
   };
 
+  /**
+   * Queue a screen for the server-side job worker
+   */
+  const enqueueScreenJob = useCallback(async (screenId: string) => {
+    if (!selectedProject || !identity?.id) return;
+    await createJobAsync({
+      resource: SCREEN_JOBS_TABLE,
+      values: { screen_id: screenId, project_id: selectedProject.id, user_id: identity.id },
+      successNotification: false
+    });
+  }, [selectedProject, identity, createJobAsync]);
+
   const handleFigmaUpload = useCallback(async () => {
-    if (!figmaUrl.trim() || !selectedProject || !screenName.trim() || !identity?.id) return;
+    if (!figmaUrl.trim() || !selectedProject || !identity?.id) return;
+    if (!screenName.trim() && selectedFrames.length === 0) return;
 
     try {
       // Validate Figma URL or file ID format
-      const isFileId = !figmaUrl.includes('/') && figmaUrl.length > 10;
-      const isValidUrl = figmaUrl.includes('figma.com/file/');
+      const figmaInfo = getFigmaUrlInfo(figmaUrl);
       
-      if (!isFileId && !isValidUrl) {
+      if (!figmaInfo) {
         throw new Error('Please enter a valid Figma file ID or URL');
       }
 
-      console.log('Creating screen with data:', {
+      // One screen per picked frame, or a single screen for the link as entered
+      const newScreens = selectedFrames.length > 0
+        ? selectedFrames.map(frame => ({
+            name: screenName.trim()
+              ? (selectedFrames.length > 1 ? `${screenName} - ${frame.name}` : screenName)
+              : frame.name,
+            figma_url: figmaFrameUrl(figmaUrl, frame.id)
+          }))
+        : [{ name: screenName, figma_url: figmaUrl }];
+
+      // The screens' processors share one file fetch and token extraction
+      if (selectedFrames.length > 1 && apiSettings?.figmaToken && !processInBackground) {
+        new FigmaService(apiSettings.figmaToken)
+          .prepareFrameImport(figmaInfo.fileKey, selectedFrames.map(frame => frame.id))
+          .catch(error => console.warn('⚠️ Shared Figma import failed, frames will be fetched one by one:', error));
+      }
+
+      console.log('Creating screens with data:', {
         project_id: selectedProject.id,
-        name: screenName,
-        figma_url: figmaUrl,
-        figma_file_key: figmaUrl, // Store file key for easier API calls
+        screens: newScreens,
+        figma_file_key: figmaInfo.fileKey, // Store file key for easier API calls
         status: 'processing'
       });
 
-      // Create screen record with Figma URL
-      createScreen({
-        resource: 'screens',
-        values: {
-          project_id: selectedProject.id,
-          name: screenName,
-          figma_url: figmaUrl,
-          figma_file_key: figmaUrl, // Store the file key
-          status: 'processing'
-        }
-      }, {
-        onSuccess: (data) => {
-          console.log('Screen created successfully:', data);
-          setUploadDialogOpen(false);
-          setFigmaUrl('CbS1cPHwdvmOJfPJFzKodU'); // Reset to default file ID
-          setScreenName('');
-          refetchScreens();
-        },
-        onError: (error) => {
-          console.error('Failed to create screen:', error);
-          alert(`Failed to create screen: ${error.message || error}`);
-        }
-      });
+      // Create screen records with Figma URLs
+      try {
+        await Promise.all(newScreens.map(async newScreen => {
+          const { data: created } = await createScreenAsync({
+            resource: 'screens',
+            values: {
+              project_id: selectedProject.id,
+              name: newScreen.name,
+              figma_url: newScreen.figma_url,
+              figma_file_key: figmaInfo.fileKey, // Store the file key
+              status: 'processing',
+              // Marked before the job exists, so this tab never starts processing it itself
+              ...(processInBackground ? { analysis_data: { runner: WORKER_RUNNER } } : {})
+            },
+            successNotification: newScreens.length > 1 ? false : undefined
+          });
+          if (processInBackground && created.id) {
+            await enqueueScreenJob(String(created.id));
+          }
+        }));
+        console.log('Screens created successfully:', newScreens.length);
+        setUploadDialogOpen(false);
+        setFigmaUrl('CbS1cPHwdvmOJfPJFzKodU'); // Reset to default file ID
+        setSelectedFrames([]);
+        setScreenName('');
+      } catch (error: any) {
+        console.error('Failed to create screen:', error);
+        alert(`Failed to create screen: ${error.message || error}`);
+      } finally {
+        refetchScreens();
+      }
     } catch (error: any) {
       console.error('Figma upload failed:', error);
       alert(`Upload failed: ${error.message || error}`);
     }
-  }, [figmaUrl, selectedProject, screenName, createScreen, refetchScreens, identity]);
+  }, [figmaUrl, selectedFrames, selectedProject, screenName, createScreenAsync, refetchScreens, identity, apiSettings, processInBackground, enqueueScreenJob]);
 
   const handleUploadSubmit = () => {
     if (uploadType === 'figma') {
@@ -291,16 +364,13 @@ const VibecodingInterface = () => {
   };
 
   const isUploadReady = () => {
-    if (!screenName.trim()) return false;
-    
     if (uploadType === 'figma') {
-      const hasValidInput = figmaUrl.trim() && (
-        figmaUrl.includes('figma.com/file/') || 
-        (!figmaUrl.includes('/') && figmaUrl.length > 10)
-      );
-      return hasValidInput && apiSettings?.figmaToken && apiSettings?.openaiApiKey;
+      // Picked frames are named after themselves when no screen name is given
+      if (!screenName.trim() && selectedFrames.length === 0) return false;
+      const hasValidInput = figmaUrl.trim() && getFigmaUrlInfo(figmaUrl) !== null;
+      return hasValidInput && hasRequiredSettings;
     } else {
-      return uploadFile;
+      return screenName.trim() && uploadFile;
     }
   };
 
@@ -332,6 +402,100 @@ const VibecodingInterface = () => {
     });
   };
 
+  const handleOpenMappingRules = () => {
+    setRulesProject(menuProject);
+    handleProjectMenuClose();
+  };
+
+  const handleSaveMappingRules = (mappingRules: ProjectMappingRules) => {
+    if (!rulesProject) return;
+
+    updateProject({
+      resource: 'projects',
+      id: rulesProject.id,
+      values: { mapping_rules: mappingRules }
+    }, {
+      onSuccess: () => {
+        if (selectedProject?.id === rulesProject.id) {
+          setSelectedProject({ ...selectedProject, mapping_rules: mappingRules });
+        }
+        setRulesProject(null);
+        refetchProjects();
+      }
+    });
+  };
+
+  const handleOpenComponentRegistry = () => {
+    setRegistryProject(menuProject);
+    handleProjectMenuClose();
+  };
+
+  const handleSaveComponentRegistry = (componentRegistry: ProjectComponentRegistry) => {
+    if (!registryProject) return;
+
+    updateProject({
+      resource: 'projects',
+      id: registryProject.id,
+      values: { component_registry: componentRegistry }
+    }, {
+      onSuccess: () => {
+        if (selectedProject?.id === registryProject.id) {
+          setSelectedProject({ ...selectedProject, component_registry: componentRegistry });
+        }
+        setRegistryProject(null);
+        refetchProjects();
+      }
+    });
+  };
+
+  /**
+   * Process a failed screen again, continuing after its last completed stage or from scratch
+   */
+  const retryProcessing = (screen: Screen, resume: boolean) => {
+    const { checkpoint, ...analysisData } = screen.analysis_data || {};
+    updateScreen({
+      resource: 'screens',
+      id: screen.id,
+      values: {
+        status: 'processing',
+        analysis_data: resume ? { ...analysisData, checkpoint } : analysisData
+      },
+      successNotification: false
+    }, {
+      onSuccess: () => {
+        if (analysisData.runner === WORKER_RUNNER) {
+          enqueueScreenJob(screen.id).catch(error => console.error('Failed to queue the screen:', error));
+        }
+      }
+    });
+  };
+
+  /**
+   * Why a failed Figma screen stopped, with the actions to process it again
+   */
+  const renderRecovery = (screen: Screen) => {
+    const checkpoint = getCheckpoint(screen);
+    return (
+      <Box sx={{ mt: 1 }} onClick={(event) => event.stopPropagation()}>
+        {checkpoint && (
+          <>
+            <Typography variant="caption" color="error" display="block">
+              {checkpoint.cancelled
+                ? 'Cancelled'
+                : `Failed${checkpoint.failedStageLabel ? ` at "${checkpoint.failedStageLabel}"` : ''}${checkpoint.error ? `: ${checkpoint.error}` : ''}`}
+            </Typography>
+            <Button size="small" startIcon={<RetryIcon />} onClick={() => retryProcessing(screen, true)}>
+              {checkpoint.cancelled ? 'Resume' : checkpoint.failedStageLabel ? 'Retry from failed stage' : 'Retry'}
+            </Button>
+          </>
+        )}
+        <Button size="small" onClick={() => retryProcessing(screen, false)}>
+          Start over
+        </Button>
+      </Box>
+    );
+  };
+
   const getStatusColor = (status: Screen['status']) => {
     switch (status) {
       case 'ready': return 'success';
@@ -381,7 +545,7 @@ const VibecodingInterface = () => {
               variant="outlined"
               startIcon={<UploadIcon />}
               onClick={() => setUploadDialogOpen(true)}
-              disabled={!apiSettings?.figmaToken || !apiSettings?.openaiApiKey}
+              disabled={!hasRequiredSettings}
             >
               Add Figma Screen
             </Button>
@@ -477,12 +641,17 @@ const VibecodingInterface = () => {
                         .filter(screen => screen.status === 'processing')
                         .map(screen => (
                           <Box key={screen.id} sx={{ mb: 2 }}>
-                            {screen.figma_url && apiSettings ? (
+                            {screen.analysis_data?.runner === WORKER_RUNNER ? (
+                              <ScreenJobProgress screen={screen} />
+                            ) : screen.figma_url && apiSettings ? (
                               <FigmaToCodeProcessor 
                                 screen={screen}
                                 onComplete={refetchScreens}
                                 figmaToken={apiSettings.figmaToken}
-                                openaiApiKey={apiSettings.openaiApiKey}
+                                llmSettings={llmSettings}
+                                mappingRules={selectedProject.mapping_rules}
+                                componentRegistry={selectedProject.component_registry}
+                                userId={identity?.id}
                               />
                             ) : (
                             <ImageToCodeProcessor 
@@ -535,6 +704,7 @@ const VibecodingInterface = () => {
                                     v{screen.iteration_count}
                                   </Typography>
                                 </Box>
+                                {screen.status === 'error' && screen.figma_url && renderRecovery(screen)}
                                 {screen.confidence_score && (
                                   <Box sx={{ mt: 1 }}>
                                     <Typography variant="caption">
@@ -575,9 +745,10 @@ const VibecodingInterface = () => {
                     sessions={vibeSessions}
                     onSessionUpdate={() => {
                       // Refetch vibe sessions when they're updated
-                      refetchScreens();
+                      refetchVibeSessions();
                     }}
                     onScreenUpdate={refetchScreens}
+                    llmSettings={llmSettings}
                   />
                 </Box>
               )}
@@ -596,7 +767,12 @@ const VibecodingInterface = () => {
                         overflow: 'auto',
                         bgcolor: 'background.paper'
                       }}>
-                        <LiveCodePreview code={selectedScreen.current_code} />
+                        <LiveCodePreview
+                          code={selectedScreen.current_code}
+                          modules={Object.fromEntries(
+                            (selectedScreen.analysis_data?.generatedIcons || []).map((icon: any) => [icon.path, icon.code])
+                          )}
+                        />
                       </Box>
                     </Card>
                   ) : (
@@ -631,6 +807,12 @@ const VibecodingInterface = () => {
                       No code generated yet for this screen.
                     </Alert>
                   )}
+                  {selectedScreen.analysis_data?.figmaData?.designTokens && (
+                    <DesignTokensExport
+                      designTokens={selectedScreen.analysis_data.figmaData.designTokens}
+                      sourceName={selectedScreen.analysis_data.figmaData.fileData?.name}
+                    />
+                  )}
                 </Box>
               )}
 
@@ -653,7 +835,7 @@ const VibecodingInterface = () => {
                     </Alert>
                     <StageDebugger 
                       figmaToken={apiSettings.figmaToken} 
-                      openaiApiKey={apiSettings.openaiApiKey} 
+                      llmSettings={llmSettings} 
                     />
                   </Box>
                 );
@@ -714,7 +896,7 @@ const VibecodingInterface = () => {
       </Dialog>
 
       {/* Upload Screen Dialog */}
-      <Dialog open={uploadDialogOpen} onClose={() => setUploadDialogOpen(false)} maxWidth="sm" fullWidth>
+      <Dialog open={uploadDialogOpen} onClose={() => setUploadDialogOpen(false)} maxWidth="md" fullWidth>
         <DialogTitle>Add New Screen</DialogTitle>
         <DialogContent>
           <TextField
@@ -724,6 +906,7 @@ const VibecodingInterface = () => {
             variant="outlined"
             value={screenName}
             onChange={(e) => setScreenName(e.target.value)}
+            helperText={uploadType === 'figma' && selectedFrames.length > 0 ? 'Optional: picked frames are named after the Figma frame' : undefined}
             sx={{ mb: 2 }}
           />
 
@@ -739,21 +922,41 @@ const VibecodingInterface = () => {
               <TextField
                 fullWidth
                 label="Figma File ID or URL"
-                placeholder="CbS1cPHwdvmOJfPJFzKodU or https://www.figma.com/file/..."
+                placeholder="CbS1cPHwdvmOJfPJFzKodU or https://www.figma.com/design/..."
                 value={figmaUrl}
                 onChange={(e) => setFigmaUrl(e.target.value)}
                 sx={{ mb: 2 }}
-                helperText="File ID from URL (CbS1cPHwdvmOJfPJFzKodU) or paste full Figma URL"
+                helperText="File ID from URL (CbS1cPHwdvmOJfPJFzKodU) or paste full Figma URL. Links with ?node-id= import just that frame."
+              />
+
+              {apiSettings?.figmaToken && getFigmaUrlInfo(figmaUrl) && (
+                <FigmaFramePicker
+                  figmaUrl={figmaUrl}
+                  figmaToken={apiSettings.figmaToken}
+                  selectedFrames={selectedFrames}
+                  onChange={setSelectedFrames}
+                />
+              )}
+
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={processInBackground}
+                    onChange={(e) => setProcessInBackground(e.target.checked)}
+                  />
+                }
+                label="Process on the server (keeps going after you close this tab; needs a job worker set up for your account)"
+                sx={{ mb: 2 }}
               />
 
               <Alert severity="info" sx={{ mb: 2, fontSize: '0.85rem' }}>
                 <Typography variant="body2">
                   <strong>Your file ID:</strong> CbS1cPHwdvmOJfPJFzKodU (already filled in)<br/>
-                  <strong>Find other file IDs:</strong> In any Figma URL like https://figma.com/file/<strong>FILE-ID-HERE</strong>/title
+                  <strong>Find other file IDs:</strong> In any Figma URL like https://figma.com/design/<strong>FILE-ID-HERE</strong>/title
                 </Typography>
               </Alert>
               
-              {(!apiSettings?.figmaToken || !apiSettings?.openaiApiKey) && (
+              {!hasRequiredSettings && (
                 <Alert severity="warning" sx={{ mb: 2 }}>
                   You need to configure your API settings first.
                   <Button 
@@ -799,6 +1002,7 @@ const VibecodingInterface = () => {
           <Button onClick={() => {
             setUploadDialogOpen(false);
             setFigmaUrl('CbS1cPHwdvmOJfPJFzKodU'); // Reset to default file ID
+            setSelectedFrames([]);
             setScreenName('');
             setUploadFile(null);
           }}>Cancel</Button>
@@ -807,7 +1011,9 @@ const VibecodingInterface = () => {
             variant="contained" 
             disabled={!isUploadReady()}
           >
-            {uploadType === 'figma' ? 'Analyze Figma File' : 'Upload & Process'}
+            {uploadType === 'figma'
+              ? (selectedFrames.length > 1 ? `Analyze ${selectedFrames.length} Frames` : 'Analyze Figma File')
+              : 'Upload & Process'}
           </Button>
         </DialogActions>
       </Dialog>
@@ -822,12 +1028,39 @@ const VibecodingInterface = () => {
           <EditIcon sx={{ mr: 1 }} />
           Edit
         </MenuItem>
+        <MenuItem onClick={handleOpenMappingRules}>
+          <RuleIcon sx={{ mr: 1 }} />
+          Mapping Rules
+        </MenuItem>
+        <MenuItem onClick={handleOpenComponentRegistry}>
+          <WidgetsIcon sx={{ mr: 1 }} />
+          Component Registry
+        </MenuItem>
         <MenuItem onClick={handleDeleteProject}>
           <DeleteIcon sx={{ mr: 1 }} />
           Delete
         </MenuItem>
       </Menu>
 
+      {/* Mapping Rules Dialog */}
+      <MappingRulesDialog
+        open={!!rulesProject}
+        projectName={rulesProject?.name}
+        value={rulesProject?.mapping_rules}
+        onClose={() => setRulesProject(null)}
+        onSave={handleSaveMappingRules}
+      />
+
+      {/* Component Registry Dialog */}
+      <ComponentRegistryDialog
+        open={!!registryProject}
+        projectId={registryProject?.id}
+        projectName={registryProject?.name}
+        value={registryProject?.component_registry}
+        onClose={() => setRegistryProject(null)}
+        onSave={handleSaveComponentRegistry}
+      />
+
       {/* API Settings Dialog */}
       <APISettings
         open={apiSettingsOpen}
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import AssetStorageService from './assetStorageService';
+import FigmaService from './figmaService';
+import { FigmaFileAnalysis, FigmaPipelineServices, createFigmaPipeline } from './figmaPipeline';
+import { figmaFile, loginScreen } from '../test/figmaFixtures';
+
+const STORED_URL = 'https://storage.example/screen-assets/';
+
+/**
+ * In-memory stand-in for the Supabase storage bucket
+ */
+const fakeStorage = () => {
+  const files = new Map<string, Blob>();
+  const bucket = {
+    list: async () => ({ data: [], error: null }),
+    upload: async (path: string, body: Blob) => {
+      files.set(path, body);
+      return { data: { path }, error: null };
+    },
+    getPublicUrl: (path: string) => ({ data: { publicUrl: `${STORED_URL}${path}` } })
+  };
+  return { files, client: { storage: { from: () => bucket } } as unknown as ConstructorParameters<typeof AssetStorageService>[0] };
+};
+
+// Figma export URLs; the "expired" one answers 403 like an expired export does
+const EXPORTS: Record<string, string> = {
+  'https://figma.example/render.png': 'screen',
+  'https://figma.example/photo.png': 'photo'
+};
+const EXPIRED_URL = 'https://figma.example/expired.png';
+
+const stubFetch = () => vi.stubGlobal('fetch', vi.fn(async (url: string) =>
+  EXPORTS[url]
+    ? new Response(EXPORTS[url], { status: 200, headers: { 'content-type': 'image/png' } })
+    : new Response('Forbidden', { status: 403 })));
+
+describe('AssetStorageService', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('stores exports under their content hash and lists the ones it could not copy', async () => {
+    stubFetch();
+    const { client, files } = fakeStorage();
+    const result = await new AssetStorageService(client).persistAssets('user/project', {
+      '1:2': 'https://figma.example/photo.png',
+      '1:3': EXPIRED_URL
+    });
+
+    expect(files.size).toBe(1);
+    expect(result.urls['1:2']).toMatch(new RegExp(`^${STORED_URL}user/project/[0-9a-f]{64}\\.png$`));
+    expect(result.urls['1:3']).toBe(EXPIRED_URL);
+    expect(result.uploaded).toBe(1);
+    expect(result.failed).toEqual(['1:3']);
+  });
+
+  it('reports the assets left on temporary URLs from the storeAssets stage', async () => {
+    stubFetch();
+    const figma = {
+      ...new FigmaService('test-token').analyzeLocalFile(figmaFile(loginScreen())),
+      imageUrl: 'https://figma.example/render.png',
+      assetUrls: { '1:2': 'https://figma.example/photo.png', '1:3': EXPIRED_URL }
+    } as FigmaFileAnalysis;
+    const services = {
+      assetStorage: { service: new AssetStorageService(fakeStorage().client), folder: 'user/project' }
+    } as unknown as FigmaPipelineServices;
+    const pipeline = createFigmaPipeline(services);
+    const messages: string[] = [];
+    pipeline.subscribe(event => {
+      if (event.type === 'stage:progress') messages.push(event.message);
+    });
+
+    const state = await pipeline.run({ figma }, { stages: ['storeAssets'] });
+
+    expect(state.assets?.imageUrl).toMatch(/^https:\/\/storage\.example\//);
+    expect(state.assets?.expiring).toEqual(['1:3']);
+    expect(messages).toContain('1 image(s) could not be stored and keep their temporary Figma URLs, which expire');
+  });
+});
@@ -0,0 +1,144 @@
+import { supabaseClient } from '../utility';
+import { isAbortError } from './httpClient';
+import { sha256Hex } from '../utils/contentHash';
+
+export const SCREEN_ASSETS_BUCKET = 'screen-assets';
+
+export interface PersistedAssets {
+  // Stable public URLs, keyed like the input
+  urls: { [key: string]: string };
+  uploaded: number;
+  reused: number;
+  // Keys of the assets that could not be copied and keep their temporary URL
+  failed: string[];
+}
+
+// Extensions for the content types Figma exports
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'application/pdf': 'pdf'
+};
+
+type StorageClient = Pick<typeof supabaseClient, 'storage'>;
+
+class AssetStorageService {
+  private client: StorageClient;
+  private bucket: string;
+  // Content hash -> public URL, shared by every asset of one service instance
+  private stored = new Map<string, Promise<string>>();
+
+  constructor(client: StorageClient = supabaseClient, bucket: string = SCREEN_ASSETS_BUCKET) {
+    this.client = client;
+    this.bucket = bucket;
+  }
+
+  /**
+   * Copy temporary Figma export URLs into the bucket under `folder` (`<userId>/<projectId>`,
+   * the same layout as screen-images). Files are named by content hash, so assets that are
+   * already stored are not uploaded again. Assets that cannot be copied keep their original URL
+   * and are listed in `failed`.
+   */
+  async persistAssets(
+    folder: string,
+    sourceUrls: { [key: string]: string },
+    signal?: AbortSignal
+  ): Promise<PersistedAssets> {
+    const result: PersistedAssets = { urls: {}, uploaded: 0, reused: 0, failed: [] };
+
+    await Promise.all(Object.entries(sourceUrls).map(async ([key, sourceUrl]) => {
+      if (!sourceUrl) return;
+      try {
+        const { url, uploaded } = await this.persistAsset(folder, sourceUrl, signal);
+        result.urls[key] = url;
+        if (uploaded) {
+          result.uploaded++;
+        } else {
+          result.reused++;
+        }
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.warn('⚠️ [ASSET STORAGE] Keeping the temporary Figma URL for', key, error);
+        result.urls[key] = sourceUrl;
+        result.failed.push(key);
+      }
+    }));
+
+    console.log('🗄️ [ASSET STORAGE] Assets persisted:', {
+      bucket: this.bucket,
+      folder,
+      uploaded: result.uploaded,
+      reused: result.reused,
+      failed: result.failed.length
+    });
+
+    return result;
+  }
+
+  /**
+   * Download one asset and store it under its content hash
+   */
+  private async persistAsset(
+    folder: string,
+    sourceUrl: string,
+    signal?: AbortSignal
+  ): Promise<{ url: string; uploaded: boolean }> {
+    const response = await fetch(sourceUrl, { signal });
+    if (!response.ok) {
+      throw new Error(`Asset download failed (${response.status})`);
+    }
+
+    const contentType = (response.headers.get('content-type') || 'image/png').split(';')[0].trim();
+    const bytes = await response.arrayBuffer();
+    const path = `${folder}/${await sha256Hex(bytes)}.${EXTENSIONS[contentType] || 'png'}`;
+
+    // The same content may appear several times in one run (e.g. a repeated image fill)
+    const pending = this.stored.get(path);
+    if (pending) {
+      return { url: await pending, uploaded: false };
+    }
+
+    let uploaded = false;
+    const upload = (async () => {
+      if (!(await this.exists(path))) {
+        const { error } = await this.client.storage
+          .from(this.bucket)
+          .upload(path, new Blob([bytes], { type: contentType }), {
+            contentType,
+            cacheControl: '31536000',
+            upsert: false
+          });
+        // Another run may have stored the same content in the meantime
+        if (error && !/exists|duplicate/i.test(error.message)) throw error;
+        uploaded = !error;
+      }
+      return this.client.storage.from(this.bucket).getPublicUrl(path).data.publicUrl;
+    })();
+
+    this.stored.set(path, upload);
+    try {
+      return { url: await upload, uploaded };
+    } catch (error) {
+      this.stored.delete(path);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a file is already stored at the path
+   */
+  private async exists(path: string): Promise<boolean> {
+    const separator = path.lastIndexOf('/');
+    const name = path.slice(separator + 1);
+    const { data, error } = await this.client.storage
+      .from(this.bucket)
+      .list(path.slice(0, separator), { search: name, limit: 1 });
+    if (error) return false;
+    return (data || []).some(file => file.name === name);
+  }
+}
+
+export default AssetStorageService;
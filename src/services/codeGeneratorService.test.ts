@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import ts from 'typescript';
+import FigmaService from './figmaService';
+import StyleMapperService from './styleMapperService';
+import CodeGeneratorService from './codeGeneratorService';
+import { SemanticGroupingResult } from './semanticGroupingService';
+import { figmaFile, grouping, loginScreen, semanticGroup } from '../test/figmaFixtures';
+
+const generate = (semanticGrouping?: SemanticGroupingResult) => {
+  const analysis = new FigmaService('test-token').analyzeLocalFile(figmaFile(loginScreen()));
+  const styleMapping = new StyleMapperService().mapComponentsToMui(analysis.components, analysis.designTokens, {});
+  return new CodeGeneratorService().generate(styleMapping, { semanticGrouping });
+};
+
+/**
+ * Syntax errors the TypeScript parser reports for the generated screen
+ */
+const syntaxErrors = (code: string): string[] =>
+  (ts.transpileModule(code, {
+    fileName: 'Screen.tsx',
+    reportDiagnostics: true,
+    compilerOptions: { jsx: ts.JsxEmit.ReactJSX, target: ts.ScriptTarget.ES2020 }
+  }).diagnostics || []).map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+
+describe('CodeGeneratorService', () => {
+  it('generates a screen component from the mapped tree', () => {
+    const generated = generate();
+
+    expect(generated.componentName).toBe('GeneratedFigmaScreen');
+    expect(generated.code).toContain('export default GeneratedFigmaScreen;');
+    expect(generated.code).toContain('Welcome back');
+    expect(generated.code).toContain('Sign in');
+    expect(syntaxErrors(generated.code)).toEqual([]);
+  });
+
+  it('leaves hidden layers and their contents out', () => {
+    const { code } = generate();
+
+    expect(code).not.toContain('Wrong password');
+    expect(code).not.toContain('Error Banner');
+  });
+
+  it('compiles when a semantic group belongs to the root node', () => {
+    const box = { x: 0, y: 0, width: 375, height: 667 };
+    const { code } = generate(grouping([semanticGroup('g1', 'Login form', box, ['1:2', '1:3'])]));
+
+    expect(code).toContain('{/* Login form: Login form group */}');
+    expect(syntaxErrors(code)).toEqual([]);
+  });
+
+  it('compiles with group comments on nested nodes', () => {
+    const box = { x: 24, y: 72, width: 327, height: 48 };
+    const { code } = generate(grouping([semanticGroup('g1', 'Primary action', box, ['1:4'])]));
+
+    expect(code).toContain('{/* Primary action: Primary action group */}');
+    expect(syntaxErrors(code)).toEqual([]);
+  });
+});
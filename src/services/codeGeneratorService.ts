@@ -0,0 +1,753 @@
+import { MappedComponent, StyleMapping } from './styleMapperService';
+import { SemanticGroup, SemanticGroupingResult } from './semanticGroupingService';
+import { RichText, TextParagraph, TextRun } from '../utils/richText';
+import { svgIconModule } from '../utils/svgIcon';
+
+export interface CodeGenerationOptions {
+  componentName?: string;
+  semanticGrouping?: SemanticGroupingResult | null;
+  indent?: string;
+}
+
+export interface GeneratedCode {
+  code: string;
+  componentName: string;
+  muiImports: string[];
+  // Module specifiers of design-system components from the component registry
+  libraryImports: string[];
+  // SVG icon components the screen imports
+  iconModules: GeneratedIconModule[];
+  assets: { [name: string]: string };
+}
+
+export interface GeneratedIconModule {
+  componentName: string;
+  // Import specifier used by the screen, e.g. './icons/ArrowIcon'
+  path: string;
+  code: string;
+}
+
+// Raw JavaScript expression that must not be quoted when serialized
+class Expression {
+  constructor(readonly source: string) {}
+}
+
+interface LibraryImport {
+  from: string;
+  name: string;
+  isDefault: boolean;
+  // Identifier used in the markup; differs from name when two modules export the same name
+  local: string;
+}
+
+interface IconComponent {
+  local: string;
+  muiIcon?: string;
+  module?: GeneratedIconModule;
+}
+
+interface GenerationContext {
+  indent: string;
+  imports: Set<string>;
+  libraryImports: Map<string, LibraryImport>;
+  // Icon component per icon node id; nodes with the same icon share one
+  icons: Map<string, IconComponent>;
+  assets: { [name: string]: string };
+  assetNames: Map<string, string>;
+  colors: { [key: string]: string };
+  colorTokens: Map<string, string>;
+  usedColorTokens: Set<string>;
+  groupsByNode: Map<string, SemanticGroup[]>;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Turns a mapped component tree into the source of a single React component.
+ * Pure string generation with no React dependency, so it can run anywhere.
+ */
+class CodeGeneratorService {
+
+  /**
+   * Generate a TSX module for the mapped screen
+   */
+  generate(styleMapping: StyleMapping, options: CodeGenerationOptions = {}): GeneratedCode {
+    const componentName = options.componentName || 'GeneratedFigmaScreen';
+    const libraryImports = this.collectLibraryImports(styleMapping.components, componentName);
+    const context: GenerationContext = {
+      indent: options.indent || '  ',
+      imports: new Set(['Box']),
+      libraryImports,
+      icons: this.collectIcons(styleMapping.components, componentName, libraryImports, options.indent || '  '),
+      assets: {},
+      assetNames: new Map(),
+      colors: styleMapping.designSystem.colors,
+      colorTokens: this.buildColorTokenLookup(styleMapping.designSystem.colors),
+      usedColorTokens: new Set(),
+      groupsByNode: this.assignGroupsToNodes(styleMapping.components, options.semanticGrouping)
+    };
+
+    console.log('🧱 [CODE GENERATOR] Generating component:', {
+      componentName,
+      roots: styleMapping.components.length,
+      semanticGroups: options.semanticGrouping?.groups?.length || 0
+    });
+
+    const body = this.renderRoot(styleMapping.components, context);
+    const tokenModes = this.getUsedTokenModes(styleMapping, context);
+    const muiImports = Array.from(context.imports).sort();
+    const librarySources = Array.from(new Set(Array.from(context.libraryImports.values()).map(entry => entry.from))).sort();
+    const iconModules = Array.from(new Set(Array.from(context.icons.values()).map(icon => icon.module)))
+      .filter((module): module is GeneratedIconModule => !!module);
+
+    const sections = [
+      this.renderImports(muiImports, context),
+      this.renderTokens(styleMapping, context, tokenModes),
+      this.renderAssets(context),
+      tokenModes
+        ? `const ${componentName} = ({ mode = ${this.serializeValue(tokenModes.defaultMode, '', context, false)} }: { mode?: keyof typeof tokenModes }) => {
+${context.indent}const tokens = tokenModes[mode];
+
+${context.indent}return (
+${body}
+${context.indent});
+};`
+        : `const ${componentName} = () => {
+${context.indent}return (
+${body}
+${context.indent});
+};`,
+      `export default ${componentName};`
+    ].filter(Boolean);
+
+    const code = sections.join('\n\n') + '\n';
+
+    console.log('✅ [CODE GENERATOR] Generated code:', {
+      length: code.length,
+      imports: muiImports,
+      libraryImports: librarySources,
+      icons: new Set(Array.from(context.icons.values()).map(icon => icon.local)).size,
+      assets: Object.keys(context.assets).length,
+      colorTokens: context.usedColorTokens.size
+    });
+
+    return {
+      code,
+      componentName,
+      muiImports,
+      libraryImports: librarySources,
+      iconModules,
+      assets: context.assets
+    };
+  }
+
+  private renderImports(muiImports: string[], context: GenerationContext): string {
+    const { indent } = context;
+    const muiSpecifiers = muiImports.map(name => {
+      const local = this.muiTag(name, context);
+      return `${indent}${local === name ? name : `${name} as ${local}`}`;
+    });
+
+    const byModule = new Map<string, LibraryImport[]>();
+    context.libraryImports.forEach(entry => {
+      byModule.set(entry.from, [...(byModule.get(entry.from) || []), entry]);
+    });
+    const libraryLines = Array.from(byModule.keys()).sort().map(from => {
+      const entries = byModule.get(from)!;
+      const defaultImport = entries.find(entry => entry.isDefault);
+      const named = entries
+        .filter(entry => !entry.isDefault)
+        .map(entry => entry.local === entry.name ? entry.name : `${entry.name} as ${entry.local}`);
+      const clauses = [defaultImport?.local, named.length > 0 ? `{ ${named.join(', ')} }` : undefined].filter(Boolean);
+      return `import ${clauses.join(', ')} from '${from}';`;
+    });
+
+    const icons = Array.from(new Map(Array.from(context.icons.values()).map(icon => [icon.local, icon])).values())
+      .sort((a, b) => a.local.localeCompare(b.local));
+    const muiIcons = icons.filter(icon => icon.muiIcon).map(icon => `${indent}${icon.muiIcon} as ${icon.local}`);
+    const iconLines = icons
+      .filter(icon => icon.module)
+      .map(icon => `import ${icon.local} from '${icon.module!.path}';`);
+
+    return [
+      `import React from 'react';
+import {
+${muiSpecifiers.join(',\n')}
+} from '@mui/material';`,
+      ...(muiIcons.length > 0 ? [`import {\n${muiIcons.join(',\n')}\n} from '@mui/icons-material';`] : []),
+      ...libraryLines,
+      ...iconLines
+    ].join('\n');
+  }
+
+  /**
+   * Emit only the design tokens the markup actually references. With variable modes the
+   * tokens are emitted per mode and the component picks them through a `mode` prop.
+   */
+  private renderTokens(
+    styleMapping: StyleMapping,
+    context: GenerationContext,
+    tokenModes: NonNullable<StyleMapping['designSystem']['colorModes']> | null
+  ): string {
+    if (context.usedColorTokens.size === 0) return '';
+
+    const colors: { [key: string]: string } = {};
+    Array.from(context.usedColorTokens).sort().forEach(key => {
+      colors[key] = styleMapping.designSystem.colors[key];
+    });
+
+    if (!tokenModes) {
+      return `const tokens = ${this.serializeValue({ colors }, '', context, false)};`;
+    }
+
+    const modes: Record<string, any> = {};
+    Object.entries(tokenModes.modes).forEach(([mode, overrides]) => {
+      const modeColors = { ...colors };
+      Object.keys(colors).forEach(key => {
+        if (overrides[key]) modeColors[key] = overrides[key];
+      });
+      modes[mode] = { colors: modeColors };
+    });
+    return `const tokenModes = ${this.serializeValue(modes, '', context, false)};`;
+  }
+
+  /**
+   * The design system's variable modes, when a referenced token differs between them
+   */
+  private getUsedTokenModes(
+    styleMapping: StyleMapping,
+    context: GenerationContext
+  ): NonNullable<StyleMapping['designSystem']['colorModes']> | null {
+    const colorModes = styleMapping.designSystem.colorModes;
+    if (!colorModes || Object.keys(colorModes.modes).length < 2) return null;
+
+    const varies = Array.from(context.usedColorTokens).some(key =>
+      Object.values(colorModes.modes).some(values => values[key] && values[key] !== styleMapping.designSystem.colors[key]));
+    return varies ? colorModes : null;
+  }
+
+  private renderAssets(context: GenerationContext): string {
+    if (Object.keys(context.assets).length === 0) return '';
+    return `const assets = ${this.serializeValue(context.assets, '', context, false)};`;
+  }
+
+  /**
+   * Render the top-level nodes, wrapping them when there is more than one
+   */
+  private renderRoot(roots: MappedComponent[], context: GenerationContext): string {
+    const depth = 2;
+    const pad = context.indent.repeat(depth);
+    if (roots.length === 1) {
+      if (!context.groupsByNode.get(roots[0].id)?.length) {
+        return this.renderNode(roots[0], depth, context, false);
+      }
+      // Group comments go before their element, which `return (` does not allow
+      return `${pad}<>
+${this.renderNode(roots[0], depth + 1, context, false)}
+${pad}</>`;
+    }
+
+    const box = this.muiTag('Box', context);
+    if (roots.length === 0) {
+      return `${pad}<${box} />`;
+    }
+
+    const children = roots.map(root => this.renderNode(root, depth + 1, context, false)).join('\n');
+    return `${pad}<${box} sx={{ display: 'flex', flexDirection: 'column' }}>
+${children}
+${pad}</${box}>`;
+  }
+
+  /**
+   * Render a mapped node and its subtree as JSX
+   */
+  private renderNode(
+    node: MappedComponent,
+    depth: number,
+    context: GenerationContext,
+    positioned: boolean
+  ): string {
+    if (node.library) {
+      return this.renderLibraryNode(node, depth, context, positioned);
+    }
+
+    const pad = context.indent.repeat(depth);
+    const { props, sx: propsSx } = this.splitProps(node.props);
+    const sx: Record<string, any> = { ...node.sx, ...propsSx };
+    const children = node.children || [];
+
+    // Colors bound to named Figma styles or variables, unless a rule replaced the value
+    Object.entries(node.tokens || {}).forEach(([sxKey, key]) => {
+      const value = sx[sxKey];
+      if (typeof value === 'string' && context.colors[key] && value.toLowerCase() === context.colors[key].toLowerCase()) {
+        context.usedColorTokens.add(key);
+        sx[sxKey] = new Expression(this.tokenReference(key));
+      }
+    });
+
+    // Children of a frame without auto-layout keep their Figma offsets
+    const flowsChildren = sx.display === 'flex' || sx.display === 'grid';
+    if (positioned) {
+      sx.position = 'absolute';
+      sx.left = node.position.x;
+      sx.top = node.position.y;
+    }
+    const positionsChildren = children.length > 0 && (!flowsChildren || children.some(child => child.absolute));
+    if (positionsChildren && !sx.position) {
+      sx.position = 'relative';
+    }
+
+    const lines: string[] = [];
+    (context.groupsByNode.get(node.id) || []).forEach(group => {
+      lines.push(`${pad}{/* ${this.escapeComment(`${group.name}: ${group.description}`)} */}`);
+    });
+
+    const icon = context.icons.get(node.id);
+    if (icon) {
+      lines.push(`${pad}<${icon.local}${this.renderAttributes(props, sx, pad, context)} />`);
+      return lines.join('\n');
+    }
+
+    if (node.imageUrl && children.length === 0 && !node.content) {
+      lines.push(this.renderImage(node, sx, props, pad, context));
+      return lines.join('\n');
+    }
+    if (node.imageUrl) {
+      // Image fills behind other content become a background
+      const assetName = this.registerAsset(node, context);
+      sx.backgroundImage = new Expression(`\`url(\${assets.${assetName}})\``);
+      sx.backgroundSize = 'cover';
+      sx.backgroundPosition = 'center';
+    }
+
+    const tag = this.muiTag(node.muiComponent || 'Box', context);
+    context.imports.add(node.muiComponent || 'Box');
+
+    // Lists cannot sit inside the paragraph Typography renders by default
+    if (node.richText?.paragraphs.some(paragraph => paragraph.listType) && node.muiComponent === 'Typography' && !props.component) {
+      props.component = 'div';
+    }
+
+    const attributes = this.renderAttributes(props, sx, pad, context);
+    const inner: string[] = [];
+
+    if (node.richText) {
+      inner.push(...this.renderRichText(node.richText, depth + 1, context));
+    } else if (node.content) {
+      inner.push(`${pad}${context.indent}${this.renderText(node.content)}`);
+    }
+    children.forEach(child => {
+      const childPositioned = !flowsChildren || !!child.absolute;
+      inner.push(this.renderNode(child, depth + 1, context, childPositioned));
+    });
+
+    if (inner.length === 0) {
+      lines.push(`${pad}<${tag}${attributes} />`);
+    } else {
+      lines.push(`${pad}<${tag}${attributes}>\n${inner.join('\n')}\n${pad}</${tag}>`);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Paragraphs of a mixed-style text layer: styled runs become spans or links, several
+   * paragraphs become blocks and consecutive list lines become ul/ol lists
+   */
+  private renderRichText(richText: RichText, depth: number, context: GenerationContext): string[] {
+    const pad = context.indent.repeat(depth);
+    const { paragraphs } = richText;
+    const lines: string[] = [];
+    const box = this.muiTag('Box', context);
+
+    for (let index = 0; index < paragraphs.length; index++) {
+      const paragraph = paragraphs[index];
+
+      if (paragraph.listType) {
+        const items: TextParagraph[] = [];
+        while (index < paragraphs.length && paragraphs[index].listType === paragraph.listType) {
+          items.push(paragraphs[index++]);
+        }
+        index--;
+
+        context.imports.add('Box');
+        const listTag = paragraph.listType === 'ORDERED' ? 'ol' : 'ul';
+        lines.push(`${pad}<${box}${this.renderAttributes({ component: listTag }, { margin: 0, paddingLeft: '24px' }, pad, context)}>`);
+        items.forEach(item => {
+          const itemPad = pad + context.indent;
+          const itemSx = item.indent ? { marginLeft: `${item.indent * 24}px` } : {};
+          lines.push(`${itemPad}<${box}${this.renderAttributes({ component: 'li' }, itemSx, itemPad, context)}>`);
+          lines.push(...this.renderTextRuns(item.runs, depth + 2, context));
+          lines.push(`${itemPad}</${box}>`);
+        });
+        lines.push(`${pad}</${box}>`);
+      } else if (paragraphs.length === 1) {
+        lines.push(...this.renderTextRuns(paragraph.runs, depth, context));
+      } else if (paragraph.runs.length === 0) {
+        lines.push(`${pad}<br />`);
+      } else {
+        context.imports.add('Box');
+        const spacing = richText.paragraphSpacing && index < paragraphs.length - 1
+          ? { marginBottom: `${richText.paragraphSpacing}px` }
+          : {};
+        lines.push(`${pad}<${box}${this.renderAttributes({ component: 'span' }, { display: 'block', ...spacing }, pad, context)}>`);
+        lines.push(...this.renderTextRuns(paragraph.runs, depth + 1, context));
+        lines.push(`${pad}</${box}>`);
+      }
+    }
+
+    return lines;
+  }
+
+  private renderTextRuns(runs: TextRun[], depth: number, context: GenerationContext): string[] {
+    const pad = context.indent.repeat(depth);
+    return runs.map(run => {
+      const text = this.renderText(run.text);
+      if (run.href) {
+        context.imports.add('Link');
+        const link = this.muiTag('Link', context);
+        return `${pad}<${link}${this.renderAttributes({ href: run.href }, run.sx, pad, context)}>${text}</${link}>`;
+      }
+      if (Object.keys(run.sx).length === 0) {
+        return `${pad}${text}`;
+      }
+      context.imports.add('Box');
+      const box = this.muiTag('Box', context);
+      return `${pad}<${box}${this.renderAttributes({ component: 'span' }, run.sx, pad, context)}>${text}</${box}>`;
+    });
+  }
+
+  private renderImage(
+    node: MappedComponent,
+    sx: Record<string, any>,
+    props: Record<string, any>,
+    pad: string,
+    context: GenerationContext
+  ): string {
+    context.imports.add('Box');
+    const assetName = this.registerAsset(node, context);
+    const attributes = this.renderAttributes(
+      { ...props, component: 'img', src: new Expression(`assets.${assetName}`), alt: node.name },
+      { objectFit: 'cover', ...sx },
+      pad,
+      context
+    );
+    return `${pad}<${this.muiTag('Box', context)}${attributes} />`;
+  }
+
+  /**
+   * Render a design-system component with the registry's props. Its own styles apply,
+   * so the Figma sx is left out; a Box keeps the Figma offset when the parent positions it.
+   */
+  private renderLibraryNode(
+    node: MappedComponent,
+    depth: number,
+    context: GenerationContext,
+    positioned: boolean
+  ): string {
+    const library = node.library!;
+    const tag = context.libraryImports.get(this.libraryKey(library))!.local;
+    const elementDepth = positioned ? depth + 1 : depth;
+    const pad = context.indent.repeat(elementDepth);
+
+    const lines: string[] = [];
+    (context.groupsByNode.get(node.id) || []).forEach(group => {
+      lines.push(`${context.indent.repeat(depth)}{/* ${this.escapeComment(`${group.name}: ${group.description}`)} */}`);
+    });
+
+    const attributes = this.renderAttributes(node.props || {}, {}, pad, context);
+    const inner: string[] = [];
+    if (node.content) {
+      inner.push(`${pad}${context.indent}${this.renderText(node.content)}`);
+    }
+    (node.children || []).forEach(child => {
+      inner.push(this.renderNode(child, elementDepth + 1, context, false));
+    });
+
+    const element = inner.length === 0
+      ? `${pad}<${tag}${attributes} />`
+      : `${pad}<${tag}${attributes}>\n${inner.join('\n')}\n${pad}</${tag}>`;
+
+    if (!positioned) {
+      lines.push(element);
+      return lines.join('\n');
+    }
+
+    context.imports.add('Box');
+    const outerPad = context.indent.repeat(depth);
+    const box = this.muiTag('Box', context);
+    const wrapperAttributes = this.renderAttributes(
+      {},
+      { position: 'absolute', left: node.position.x, top: node.position.y },
+      outerPad,
+      context
+    );
+    lines.push(`${outerPad}<${box}${wrapperAttributes}>\n${element}\n${outerPad}</${box}>`);
+    return lines.join('\n');
+  }
+
+  /**
+   * Local name of a Material-UI component, aliased when a library component takes the name
+   */
+  private muiTag(name: string, context: GenerationContext): string {
+    const taken = Array.from(context.libraryImports.values()).some(entry => entry.local === name);
+    return taken ? `Mui${name}` : name;
+  }
+
+  private libraryKey(library: NonNullable<MappedComponent['library']>): string {
+    return `${library.from}\u0000${library.isDefault ? 'default' : library.name}`;
+  }
+
+  /**
+   * Every library component used in the tree, with a unique local name each
+   */
+  private collectLibraryImports(roots: MappedComponent[], componentName: string): Map<string, LibraryImport> {
+    const imports = new Map<string, LibraryImport>();
+    const locals = new Set<string>(['React', componentName]);
+
+    const visit = (node: MappedComponent) => {
+      if (node.library) {
+        const key = this.libraryKey(node.library);
+        if (!imports.has(key)) {
+          let local = node.library.name;
+          let suffix = 2;
+          while (locals.has(local)) {
+            local = `${node.library.name}${suffix++}`;
+          }
+          locals.add(local);
+          imports.set(key, {
+            from: node.library.from,
+            name: node.library.name,
+            isDefault: node.library.isDefault,
+            local
+          });
+        }
+      }
+      (node.children || []).forEach(visit);
+    };
+    roots.forEach(visit);
+
+    return imports;
+  }
+
+  /**
+   * One component per distinct icon: Material-UI icons are imported from @mui/icons-material,
+   * exported SVGs become icon modules under ./icons
+   */
+  private collectIcons(
+    roots: MappedComponent[],
+    componentName: string,
+    libraryImports: Map<string, LibraryImport>,
+    indent: string
+  ): Map<string, IconComponent> {
+    const icons = new Map<string, IconComponent>();
+    const byIcon = new Map<string, IconComponent>();
+    const locals = new Set<string>([
+      'React',
+      componentName,
+      'Icon',
+      'SvgIcon',
+      'ListItemIcon',
+      ...Array.from(libraryImports.values()).map(entry => entry.local)
+    ]);
+
+    const visit = (node: MappedComponent) => {
+      const icon = node.icon;
+      if (icon && (icon.muiIcon || icon.svg)) {
+        const key = icon.muiIcon ? `mui:${icon.muiIcon}` : `svg:${icon.svg!.viewBox}:${icon.svg!.body}`;
+        let component = byIcon.get(key);
+        if (!component) {
+          const identifier = this.toIdentifier(icon.muiIcon || icon.sourceName).replace(/Icon$/i, '');
+          const base = `${identifier ? identifier.charAt(0).toUpperCase() + identifier.slice(1) : 'Custom'}Icon`;
+          let local = base;
+          let suffix = 2;
+          while (locals.has(local)) {
+            local = `${base}${suffix++}`;
+          }
+          locals.add(local);
+
+          component = icon.muiIcon
+            ? { local, muiIcon: icon.muiIcon }
+            : { local, module: { componentName: local, path: `./icons/${local}`, code: svgIconModule(local, icon.svg!, icon.sourceName, indent) } };
+          byIcon.set(key, component);
+        }
+        icons.set(node.id, component);
+      }
+      (node.children || []).forEach(visit);
+    };
+    roots.forEach(visit);
+
+    return icons;
+  }
+
+  private renderAttributes(
+    props: Record<string, any>,
+    sx: Record<string, any>,
+    pad: string,
+    context: GenerationContext
+  ): string {
+    const attributes = Object.entries(props)
+      .filter(([, value]) => value !== undefined && value !== null && value !== false)
+      .map(([key, value]) => {
+        if (value === true) return key;
+        if (typeof value === 'string') return `${key}=${JSON.stringify(value)}`;
+        return `${key}={${this.serializeValue(value, pad, context)}}`;
+      });
+
+    if (Object.keys(sx).length > 0) {
+      attributes.push(`sx={${this.serializeValue(sx, pad, context)}}`);
+    }
+
+    return attributes.length > 0 ? ` ${attributes.join(' ')}` : '';
+  }
+
+  /**
+   * Plain text stays as JSX text; anything JSX would misread goes through a string literal
+   */
+  private renderText(text: string): string {
+    if (/[{}<>]|\n|^\s|\s$/.test(text)) {
+      return `{${JSON.stringify(text)}}`;
+    }
+    return text;
+  }
+
+  /**
+   * Serialize a value as a JavaScript literal, swapping token colors for references
+   */
+  private serializeValue(value: any, pad: string, context: GenerationContext, useTokens = true): string {
+    if (value instanceof Expression) {
+      return value.source;
+    }
+    if (typeof value === 'string') {
+      const token = useTokens ? context.colorTokens.get(value.toLowerCase()) : undefined;
+      if (token) {
+        context.usedColorTokens.add(token);
+        return this.tokenReference(token);
+      }
+      return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+    }
+    if (typeof value === 'number') {
+      return Number.isInteger(value) ? String(value) : String(Math.round(value * 100) / 100);
+    }
+    if (typeof value === 'boolean' || value === null) {
+      return String(value);
+    }
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.serializeValue(item, pad, context, useTokens)).join(', ')}]`;
+    }
+    if (typeof value === 'object') {
+      const entries = Object.entries(value).filter(([, entry]) => entry !== undefined);
+      if (entries.length === 0) return '{}';
+      const innerPad = pad + context.indent;
+      const lines = entries.map(([key, entry]) =>
+        `${innerPad}${IDENTIFIER.test(key) ? key : `'${key}'`}: ${this.serializeValue(entry, innerPad, context, useTokens)}`
+      );
+      return `{\n${lines.join(',\n')}\n${pad}}`;
+    }
+    return 'undefined';
+  }
+
+  private tokenReference(key: string): string {
+    return IDENTIFIER.test(key) ? `tokens.colors.${key}` : `tokens.colors[${JSON.stringify(key)}]`;
+  }
+
+  /**
+   * Mapped props may carry their own sx overrides; merge those into the node's sx
+   */
+  private splitProps(nodeProps: Record<string, any>): { props: Record<string, any>; sx: Record<string, any> } {
+    const { sx, ...props } = nodeProps || {};
+    return { props, sx: sx || {} };
+  }
+
+  private registerAsset(node: MappedComponent, context: GenerationContext): string {
+    const existing = context.assetNames.get(node.id);
+    if (existing) return existing;
+
+    const base = this.toIdentifier(node.name) || 'image';
+    let name = base;
+    let suffix = 2;
+    while (context.assets[name] !== undefined) {
+      name = `${base}${suffix++}`;
+    }
+
+    context.assets[name] = node.imageUrl as string;
+    context.assetNames.set(node.id, name);
+    return name;
+  }
+
+  private toIdentifier(name: string): string {
+    const words = name
+      .replace(/[^A-Za-z0-9]+/g, ' ')
+      .trim()
+      .split(/\s+/)
+      .filter(Boolean);
+    const identifier = words
+      .map((word, index) => index === 0
+        ? word.charAt(0).toLowerCase() + word.slice(1)
+        : word.charAt(0).toUpperCase() + word.slice(1))
+      .join('');
+    return /^\d/.test(identifier) ? `asset${identifier}` : identifier;
+  }
+
+  private buildColorTokenLookup(colors: { [key: string]: string }): Map<string, string> {
+    const lookup = new Map<string, string>();
+    Object.entries(colors || {}).forEach(([key, color]) => {
+      const normalized = color.toLowerCase();
+      // First name wins when two roles share a color (e.g. primary and accent)
+      if (!lookup.has(normalized)) {
+        lookup.set(normalized, key);
+      }
+    });
+    return lookup;
+  }
+
+  /**
+   * Attach each semantic group to the deepest node whose subtree holds all of its members
+   */
+  private assignGroupsToNodes(
+    roots: MappedComponent[],
+    semanticGrouping?: SemanticGroupingResult | null
+  ): Map<string, SemanticGroup[]> {
+    const groupsByNode = new Map<string, SemanticGroup[]>();
+    if (!semanticGrouping?.groups?.length) return groupsByNode;
+
+    const subtreeIds = new Map<string, Set<string>>();
+    const collectIds = (node: MappedComponent): Set<string> => {
+      const ids = new Set<string>([node.id]);
+      (node.children || []).forEach(child => collectIds(child).forEach(id => ids.add(id)));
+      subtreeIds.set(node.id, ids);
+      return ids;
+    };
+    const allIds = new Set<string>();
+    roots.forEach(root => collectIds(root).forEach(id => allIds.add(id)));
+
+    const findOwner = (nodes: MappedComponent[], memberIds: string[]): MappedComponent | undefined => {
+      for (const node of nodes) {
+        const ids = subtreeIds.get(node.id);
+        if (ids && memberIds.every(id => ids.has(id))) {
+          return findOwner(node.children || [], memberIds) || node;
+        }
+      }
+      return undefined;
+    };
+
+    semanticGrouping.groups.forEach(group => {
+      // Collapsed wrappers are no longer in the tree, so only match surviving members
+      const memberIds = (group.children || []).map(child => child.id).filter(id => allIds.has(id));
+      if (memberIds.length === 0) return;
+
+      const owner = findOwner(roots, memberIds);
+      if (owner) {
+        groupsByNode.set(owner.id, [...(groupsByNode.get(owner.id) || []), group]);
+      }
+    });
+
+    return groupsByNode;
+  }
+
+  private escapeComment(text: string): string {
+    return text.replace(/\*\//g, '* /').replace(/\s+/g, ' ').trim();
+  }
+}
+
+export default CodeGeneratorService;
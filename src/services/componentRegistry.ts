@@ -0,0 +1,211 @@
+import { ComponentAnalysis, getComponentProperties } from './figmaService';
+import { JSONSchema, validateAgainstSchema } from './structuredOutput';
+
+/**
+ * How the Figma layers inside a matched instance are rendered:
+ * 'text' passes their combined text as children, 'nodes' keeps the mapped layers,
+ * 'none' renders a self-closing element.
+ */
+export type RegistryChildren = 'text' | 'nodes' | 'none';
+
+export interface RegistryPropMapping {
+  // Prop on the React component that receives the Figma property value
+  prop: string;
+  // Figma value -> prop value; unlisted values are passed through ("true"/"false" become booleans)
+  values?: Record<string, any>;
+}
+
+/**
+ * One design-system component, matched by Figma component key
+ */
+export interface ComponentRegistryEntry {
+  id: string;
+  description?: string;
+  // Key of the main component or of its component set
+  figmaKey: string;
+  // Only match instances with these variant values, e.g. { "Type": "Primary" }
+  variants?: Record<string, string>;
+  import: {
+    // Module specifier, e.g. "@acme/ui" or "../components/Button"
+    from: string;
+    name: string;
+    // Default export rather than a named one
+    default?: boolean;
+  };
+  // Fixed props
+  props?: Record<string, any>;
+  // Figma component property name -> React prop
+  propMap?: Record<string, RegistryPropMapping>;
+  // Defaults to 'text'
+  children?: RegistryChildren;
+}
+
+/**
+ * Per-project registry, stored in projects.component_registry
+ */
+export interface ProjectComponentRegistry {
+  entries?: ComponentRegistryEntry[];
+}
+
+export interface ComponentRegistryMatch {
+  entryId: string;
+  from: string;
+  name: string;
+  isDefault: boolean;
+  props: Record<string, any>;
+  children: RegistryChildren;
+}
+
+export const COMPONENT_REGISTRY_SCHEMA: JSONSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      description: { type: 'string' },
+      figmaKey: { type: 'string' },
+      variants: { type: 'object', additionalProperties: { type: 'string' } },
+      import: {
+        type: 'object',
+        properties: {
+          from: { type: 'string' },
+          name: { type: 'string' },
+          default: { type: 'boolean' }
+        },
+        required: ['from', 'name'],
+        additionalProperties: false
+      },
+      props: { type: 'object' },
+      propMap: {
+        type: 'object',
+        additionalProperties: {
+          type: 'object',
+          properties: {
+            prop: { type: 'string' },
+            values: { type: 'object' }
+          },
+          required: ['prop'],
+          additionalProperties: false
+        }
+      },
+      children: { type: 'string', enum: ['text', 'nodes', 'none'] }
+    },
+    required: ['id', 'figmaKey', 'import'],
+    additionalProperties: false
+  }
+};
+
+/**
+ * Problems with user-supplied registry entries: schema errors, bad identifiers and duplicate IDs
+ */
+export const validateComponentRegistry = (entries: unknown): string[] => {
+  const errors = validateAgainstSchema(entries, COMPONENT_REGISTRY_SCHEMA, 'entries');
+  if (errors.length > 0 || !Array.isArray(entries)) return errors;
+
+  const seen = new Set<string>();
+  entries.forEach((entry: ComponentRegistryEntry, index) => {
+    if (!/^[A-Z][A-Za-z0-9_]*$/.test(entry.import.name)) {
+      errors.push(`entries[${index}].import.name: "${entry.import.name}" is not a component name`);
+    }
+    if (!entry.import.from.trim()) {
+      errors.push(`entries[${index}].import.from: is empty`);
+    }
+    Object.entries(entry.propMap || {}).forEach(([figmaProp, mapping]) => {
+      if (!/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(mapping.prop)) {
+        errors.push(`entries[${index}].propMap.${figmaProp}.prop: "${mapping.prop}" is not a prop name`);
+      }
+    });
+    if (seen.has(entry.id)) {
+      errors.push(`entries[${index}].id: "${entry.id}" is used more than once`);
+    }
+    seen.add(entry.id);
+  });
+
+  return errors;
+};
+
+/**
+ * Resolves Figma component instances to components from the project's own design system
+ */
+class ComponentRegistry {
+  private entriesByKey = new Map<string, ComponentRegistryEntry[]>();
+
+  constructor(entries: ComponentRegistryEntry[] = []) {
+    entries.forEach(entry => {
+      const list = this.entriesByKey.get(entry.figmaKey) || [];
+      list.push(entry);
+      this.entriesByKey.set(entry.figmaKey, list);
+    });
+  }
+
+  static forProject(config?: ProjectComponentRegistry | null): ComponentRegistry {
+    return new ComponentRegistry(config?.entries || []);
+  }
+
+  get size(): number {
+    return this.entriesByKey.size;
+  }
+
+  /**
+   * The registry entry for an instance, preferring the entry with the most matching variant values
+   */
+  resolve(component: ComponentAnalysis): ComponentRegistryMatch | null {
+    const mainComponent = component.properties.mainComponent;
+    if (component.type !== 'INSTANCE' || !mainComponent) return null;
+
+    const candidates = [
+      ...(this.entriesByKey.get(mainComponent.key) || []),
+      ...(mainComponent.setKey ? this.entriesByKey.get(mainComponent.setKey) || [] : [])
+    ];
+    if (candidates.length === 0) return null;
+
+    const values = this.normalize(getComponentProperties(component));
+    let best: { entry: ComponentRegistryEntry; specificity: number } | null = null;
+    for (const entry of candidates) {
+      const required = Object.entries(this.normalize(entry.variants || {}));
+      const matches = required.every(([key, value]) => values[key]?.toLowerCase() === value.toLowerCase());
+      if (matches && (!best || required.length > best.specificity)) {
+        best = { entry, specificity: required.length };
+      }
+    }
+    if (!best) return null;
+
+    const { entry } = best;
+    return {
+      entryId: entry.id,
+      from: entry.import.from,
+      name: entry.import.name,
+      isDefault: !!entry.import.default,
+      props: { ...(entry.props || {}), ...this.mapProps(entry, values) },
+      children: entry.children || 'text'
+    };
+  }
+
+  private mapProps(entry: ComponentRegistryEntry, values: Record<string, string>): Record<string, any> {
+    const props: Record<string, any> = {};
+    Object.entries(entry.propMap || {}).forEach(([figmaProp, mapping]) => {
+      const value = values[figmaProp.toLowerCase()];
+      if (value === undefined) return;
+
+      if (mapping.values && value in mapping.values) {
+        props[mapping.prop] = mapping.values[value];
+      } else if (value === 'true' || value === 'false') {
+        props[mapping.prop] = value === 'true';
+      } else {
+        props[mapping.prop] = value;
+      }
+    });
+    return props;
+  }
+
+  // Figma property names are matched case-insensitively
+  private normalize(values: Record<string, string>): Record<string, string> {
+    const normalized: Record<string, string> = {};
+    Object.entries(values).forEach(([key, value]) => {
+      normalized[key.toLowerCase()] = value;
+    });
+    return normalized;
+  }
+}
+
+export default ComponentRegistry;
@@ -0,0 +1,786 @@
+import { DesignTokens, ColorUsage, TextStyleUsage, SpacingUsage, NamedToken, TokenModeSet, TypographyValue } from './figmaService';
+
+export interface PaletteColorToken {
+  main: string;
+  light: string;
+  dark: string;
+  contrastText: string;
+}
+
+export type PaletteRole = 'primary' | 'secondary' | 'error' | 'warning' | 'info' | 'success';
+
+export type TypographyVariant =
+  | 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6'
+  | 'body1' | 'body2' | 'caption' | 'button';
+
+export interface TypographyToken {
+  // Only set when it differs from the base font family
+  fontFamily?: string;
+  fontSize: number;
+  fontWeight: number;
+  // Unitless ratio of line height to font size
+  lineHeight?: number;
+  // px
+  letterSpacing?: number;
+  textTransform?: 'none';
+}
+
+/**
+ * Design tokens organised the way a Material-UI theme expects them
+ */
+export interface ThemeTokens {
+  palette: Partial<Record<PaletteRole, PaletteColorToken>> & {
+    background: { default: string; paper: string };
+    text: { primary: string; secondary: string };
+    divider: string;
+    // Colors with no palette role, named by hue
+    extra: Record<string, string>;
+  };
+  typography: {
+    fontFamily: string;
+    variants: Partial<Record<TypographyVariant, TypographyToken>>;
+  };
+  spacing: {
+    // Base unit in px; theme.spacing(n) is n * unit
+    unit: number;
+    // Spacing values used in the design, in px
+    scale: number[];
+    // Values that are not a multiple of the unit
+    offGrid: number[];
+  };
+  // Every source color under a token name (primary, primary2, textSecondary, blue...)
+  colors: Record<string, string>;
+  // Figma styles and variables, exported under their own names
+  named: NamedToken[];
+  modes: TokenModeSet[];
+}
+
+export interface TokenExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+interface ColorCluster {
+  hex: string;
+  members: string[];
+  fills: number;
+  fillArea: number;
+  strokes: number;
+  text: number;
+  hsl: { h: number; s: number; l: number };
+  lab: [number, number, number];
+}
+
+// Colors closer than this (CIE76 ΔE) are near-duplicates and treated as one token
+const CLUSTER_DISTANCE = 3;
+const TONAL_OFFSET = 0.2;
+const CONTRAST_THRESHOLD = 3;
+const SPACING_UNITS = [8, 5, 4, 2];
+const MIN_GRID_SHARE = 0.7;
+
+const VARIANT_ORDER: TypographyVariant[] = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'body1', 'body2', 'caption', 'button'];
+
+const STATUS_HUES: Array<{ role: PaletteRole; matches: (hue: number) => boolean }> = [
+  { role: 'error', matches: hue => hue < 15 || hue >= 340 },
+  { role: 'warning', matches: hue => hue >= 30 && hue < 60 },
+  { role: 'success', matches: hue => hue >= 90 && hue < 170 },
+  { role: 'info', matches: hue => hue >= 190 && hue < 250 }
+];
+
+const HUE_NAMES: Array<[number, string]> = [
+  [15, 'red'], [40, 'orange'], [65, 'yellow'], [160, 'green'], [190, 'teal'],
+  [250, 'blue'], [275, 'indigo'], [320, 'purple'], [345, 'pink'], [360, 'red']
+];
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = hex.replace('#', '');
+  return [0, 2, 4].map(offset => parseInt(value.slice(offset, offset + 2), 16) / 255) as [number, number, number];
+};
+
+const rgbToHex = (rgb: number[]): string =>
+  `#${rgb.map(channel => Math.round(Math.min(1, Math.max(0, channel)) * 255).toString(16).padStart(2, '0')).join('')}`;
+
+const rgbToHsl = ([r, g, b]: number[]) => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  if (max === min) return { h: 0, s: 0, l };
+
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  let h = max === r ? (g - b) / d + (g < b ? 6 : 0) : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+  h *= 60;
+  return { h, s, l };
+};
+
+const rgbToLab = (rgb: number[]): [number, number, number] => {
+  const [r, g, b] = rgb.map(c => (c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)));
+  const x = (r * 0.4124 + g * 0.3576 + b * 0.1805) / 0.95047;
+  const y = r * 0.2126 + g * 0.7152 + b * 0.0722;
+  const z = (r * 0.0193 + g * 0.1192 + b * 0.9505) / 1.08883;
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+};
+
+const labDistance = (a: number[], b: number[]): number =>
+  Math.sqrt(a.reduce((sum, value, index) => sum + Math.pow(value - b[index], 2), 0));
+
+const luminance = (hex: string): number => {
+  const [r, g, b] = hexToRgb(hex).map(c => (c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)));
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+const contrastRatio = (a: string, b: string): number => {
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+};
+
+// Same maths as Material-UI's lighten/darken, so light/dark match what createTheme would derive
+const lighten = (hex: string, coefficient: number): string =>
+  rgbToHex(hexToRgb(hex).map(channel => channel + (1 - channel) * coefficient));
+
+const darken = (hex: string, coefficient: number): string =>
+  rgbToHex(hexToRgb(hex).map(channel => channel * (1 - coefficient)));
+
+const mix = (from: string, to: string, amount: number): string => {
+  const a = hexToRgb(from);
+  const b = hexToRgb(to);
+  return rgbToHex(a.map((channel, index) => channel + (b[index] - channel) * amount));
+};
+
+const hueDistance = (a: number, b: number): number => {
+  const distance = Math.abs(a - b) % 360;
+  return distance > 180 ? 360 - distance : distance;
+};
+
+const isNeutral = (cluster: ColorCluster): boolean =>
+  cluster.hsl.s < 0.15 || cluster.hsl.l > 0.96 || cluster.hsl.l < 0.06;
+
+const kebabCase = (value: string): string => value.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+
+// Token names are "/"-separated paths; DTCG names may not contain ".", "{" or "}" or start with "$"
+const tokenPath = (name: string): string[] =>
+  name.split('/').map(part => part.trim().replace(/[.{}]/g, '_').replace(/^\$/, '_')).filter(Boolean);
+
+const setPath = (target: Record<string, any>, path: string[], value: any) => {
+  let current = target;
+  path.slice(0, -1).forEach(part => {
+    if (typeof current[part] !== 'object' || current[part] === null || '$value' in current[part]) current[part] = {};
+    current = current[part];
+  });
+  current[path[path.length - 1]] = value;
+};
+
+const namedTokenPath = (token: NamedToken): string[] =>
+  token.source === 'style'
+    ? ['styles', ...tokenPath(token.name)]
+    : ['variables', ...tokenPath(token.collection || 'default'), ...tokenPath(token.name)];
+
+const shadowValues = (effects: any[]) =>
+  effects
+    .filter(effect => effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW')
+    .map(effect => {
+      const { r, g, b, a = 1 } = effect.color || {};
+      const alpha = Math.round(a * 255).toString(16).padStart(2, '0');
+      return {
+        color: `${rgbToHex([r ?? 0, g ?? 0, b ?? 0])}${a < 1 ? alpha : ''}`,
+        offsetX: effect.offset?.x || 0,
+        offsetY: effect.offset?.y || 0,
+        blur: effect.radius || 0,
+        spread: effect.spread || 0,
+        inset: effect.type === 'INNER_SHADOW'
+      };
+    });
+
+const shadowCss = (effects: any[]): string =>
+  shadowValues(effects)
+    .map(shadow => `${shadow.inset ? 'inset ' : ''}${shadow.offsetX}px ${shadow.offsetY}px ${shadow.blur}px ${shadow.spread}px ${shadow.color}`)
+    .join(', ');
+
+const quoteFontFamily = (family: string): string =>
+  /^[\w-]+$/.test(family) && !/^\d/.test(family) ? family : `"${family}"`;
+
+/**
+ * Serialize plain data as a JavaScript object literal with unquoted identifier keys
+ */
+const toLiteral = (value: any, pad = ''): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => toLiteral(item, pad)).join(', ')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, entry]) => entry !== undefined);
+    if (entries.length === 0) return '{}';
+    const inner = `${pad}  `;
+    return `{\n${entries
+      .map(([key, entry]) => `${inner}${/^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key}'`}: ${toLiteral(entry, inner)}`)
+      .join(',\n')}\n${pad}}`;
+  }
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  }
+  return String(value);
+};
+
+/**
+ * Turns the flat tokens extracted from a Figma file into named palette roles,
+ * a typography scale and a spacing scale, and exports them as a Material-UI
+ * theme, CSS custom properties and Design Tokens Community Group JSON.
+ */
+class DesignTokenExporter {
+
+  /**
+   * Name and organise the extracted tokens
+   */
+  buildThemeTokens(designTokens: DesignTokens): ThemeTokens {
+    const clusters = this.clusterColors(this.getColorUsage(designTokens));
+    const { palette, colors } = this.assignPaletteRoles(clusters);
+    const typography = this.buildTypographyScale(this.getTextStyles(designTokens));
+    const spacing = this.buildSpacingScale(this.getSpacingUsage(designTokens));
+
+    console.log('🎨 [TOKEN EXPORTER] Theme tokens built:', {
+      colors: Object.keys(colors).length,
+      clusters: clusters.length,
+      roles: Object.keys(palette).filter(key => key !== 'extra'),
+      typography: Object.keys(typography.variants),
+      spacingUnit: spacing.unit
+    });
+
+    return { palette, typography, spacing, colors, named: designTokens.named || [], modes: designTokens.modes || [] };
+  }
+
+  /**
+   * All three export formats for a set of tokens
+   */
+  exportAll(tokens: ThemeTokens, sourceName?: string): TokenExportFile[] {
+    return [
+      { filename: 'theme.ts', mimeType: 'text/typescript', content: this.toMuiTheme(tokens, sourceName) },
+      { filename: 'tokens.css', mimeType: 'text/css', content: this.toCssVariables(tokens, sourceName) },
+      { filename: 'tokens.json', mimeType: 'application/json', content: JSON.stringify(this.toDtcg(tokens, sourceName), null, 2) + '\n' }
+    ];
+  }
+
+  /**
+   * A module that default-exports a createTheme() theme
+   */
+  toMuiTheme(tokens: ThemeTokens, sourceName?: string): string {
+    const { palette, typography, spacing } = tokens;
+    const { extra, ...roles } = palette;
+
+    const typographyOptions: Record<string, any> = {
+      fontFamily: this.fontStack(typography.fontFamily)
+    };
+    Object.entries(typography.variants).forEach(([variant, token]) => {
+      typographyOptions[variant] = {
+        fontFamily: token.fontFamily ? this.fontStack(token.fontFamily) : undefined,
+        fontSize: `${this.toRem(token.fontSize)}rem`,
+        fontWeight: token.fontWeight,
+        lineHeight: token.lineHeight,
+        letterSpacing: token.letterSpacing !== undefined ? `${token.letterSpacing}px` : undefined,
+        textTransform: token.textTransform
+      };
+    });
+
+    const sections = [
+      `import { createTheme } from '@mui/material/styles';`,
+      `${this.header(sourceName, '//')}
+const theme = createTheme(${toLiteral({ palette: roles, typography: typographyOptions, spacing: spacing.unit })});`
+    ];
+    if (Object.keys(extra).length > 0) {
+      sections.push(`// Colors without a palette role
+export const figmaColors = ${toLiteral(extra)};`);
+    }
+    if (tokens.named.length > 0) {
+      const named: Record<string, any> = {};
+      tokens.named.forEach(token => setPath(named, namedTokenPath(token), this.literalValue(token, token.value)));
+      sections.push(`// Figma styles and variables by name
+export const figmaTokens = ${toLiteral(named)};`);
+    }
+    tokens.modes.forEach(modeSet => {
+      const byMode: Record<string, any> = {};
+      modeSet.modes.forEach(mode => {
+        byMode[mode] = {};
+        tokens.named
+          .filter(token => token.collection === modeSet.collection && token.modes)
+          .forEach(token => setPath(byMode[mode], tokenPath(token.name), this.literalValue(token, token.modes![mode])));
+      });
+      sections.push(`// "${modeSet.collection}" variables per mode (default: ${modeSet.defaultMode})
+export const ${this.modesIdentifier(modeSet.collection)} = ${toLiteral(byMode)};`);
+    });
+    sections.push('export default theme;');
+
+    return sections.join('\n\n') + '\n';
+  }
+
+  /**
+   * A :root block of CSS custom properties
+   */
+  toCssVariables(tokens: ThemeTokens, sourceName?: string): string {
+    const lines: string[] = [];
+    const add = (name: string, value: string | number) => lines.push(`  --${name}: ${value};`);
+
+    const { extra, ...roles } = tokens.palette;
+    Object.entries(roles).forEach(([role, shades]) => {
+      if (typeof shades === 'string') {
+        add(`color-${kebabCase(role)}`, shades);
+        return;
+      }
+      Object.entries(shades).forEach(([shade, color]) => add(`color-${kebabCase(role)}-${kebabCase(shade)}`, color as string));
+    });
+    Object.entries(extra).forEach(([name, color]) => add(`color-${kebabCase(name)}`, color));
+
+    add('font-family-base', this.fontStack(tokens.typography.fontFamily));
+    Object.entries(tokens.typography.variants).forEach(([variant, token]) => {
+      if (token.fontFamily) add(`typography-${variant}-font-family`, this.fontStack(token.fontFamily));
+      add(`typography-${variant}-font-size`, `${token.fontSize}px`);
+      add(`typography-${variant}-font-weight`, token.fontWeight);
+      if (token.lineHeight !== undefined) add(`typography-${variant}-line-height`, token.lineHeight);
+      if (token.letterSpacing !== undefined) add(`typography-${variant}-letter-spacing`, `${token.letterSpacing}px`);
+    });
+
+    add('spacing-unit', `${tokens.spacing.unit}px`);
+    tokens.spacing.scale.forEach(value => {
+      add(`spacing-${this.spacingStep(value, tokens.spacing.unit)}`, `${value}px`);
+    });
+
+    tokens.named.forEach(token => this.cssDeclarations(token, token.value).forEach(([name, value]) => add(name, value)));
+
+    // Non-default modes override the mode-dependent variables under a data attribute
+    const modeBlocks = tokens.modes.flatMap(modeSet => modeSet.modes
+      .filter(mode => mode !== modeSet.defaultMode)
+      .map(mode => {
+        const declarations = tokens.named
+          .filter(token => token.collection === modeSet.collection && token.modes)
+          .flatMap(token => this.cssDeclarations(token, token.modes![mode]))
+          .map(([name, value]) => `  --${name}: ${value};`);
+        return `[data-${kebabCase(this.cssName(modeSet.collection))}="${kebabCase(this.cssName(mode))}"] {\n${declarations.join('\n')}\n}`;
+      }));
+
+    return [`${this.header(sourceName, '/*')}\n:root {\n${lines.join('\n')}\n}`, ...modeBlocks].join('\n\n') + '\n';
+  }
+
+  /**
+   * Design Tokens Community Group format (https://tr.designtokens.org/format/)
+   */
+  toDtcg(tokens: ThemeTokens, sourceName?: string): Record<string, any> {
+    const color = (value: string) => ({ $type: 'color', $value: value });
+    const dimension = (value: number) => ({ $type: 'dimension', $value: `${value}px` });
+
+    const { extra, ...roles } = tokens.palette;
+    const colorGroup: Record<string, any> = {};
+    Object.entries(roles).forEach(([role, shades]) => {
+      colorGroup[role] = typeof shades === 'string'
+        ? color(shades)
+        : Object.fromEntries(Object.entries(shades).map(([shade, value]) => [shade, color(value as string)]));
+    });
+    if (Object.keys(extra).length > 0) {
+      colorGroup.extra = Object.fromEntries(Object.entries(extra).map(([name, value]) => [name, color(value)]));
+    }
+
+    const fontFamilies: Record<string, any> = {
+      base: { $type: 'fontFamily', $value: [tokens.typography.fontFamily, 'sans-serif'] }
+    };
+    const typography: Record<string, any> = {};
+    Object.entries(tokens.typography.variants).forEach(([variant, token]) => {
+      let family = '{fontFamily.base}';
+      if (token.fontFamily) {
+        fontFamilies[variant] = { $type: 'fontFamily', $value: [token.fontFamily, 'sans-serif'] };
+        family = `{fontFamily.${variant}}`;
+      }
+      typography[variant] = {
+        $type: 'typography',
+        $value: {
+          fontFamily: family,
+          fontSize: `${token.fontSize}px`,
+          fontWeight: token.fontWeight,
+          lineHeight: token.lineHeight ?? 1.2,
+          letterSpacing: `${token.letterSpacing ?? 0}px`
+        }
+      };
+    });
+
+    const spacing: Record<string, any> = { unit: dimension(tokens.spacing.unit) };
+    tokens.spacing.scale.forEach(value => {
+      spacing[this.spacingStep(value, tokens.spacing.unit)] = dimension(value);
+    });
+
+    const named: Record<string, any> = {};
+    tokens.named.forEach(token => {
+      const entry = this.dtcgToken(token, token.value);
+      if (!entry) return;
+      if (token.modes) {
+        entry.$extensions = { 'com.figma': { modes: Object.fromEntries(Object.entries(token.modes).map(([mode, value]) => [mode, this.dtcgToken(token, value)?.$value])) } };
+      }
+      if (token.description) entry.$description = token.description;
+      setPath(named, namedTokenPath(token), entry);
+    });
+
+    // Palette roles that match a named color reference it instead of repeating the value
+    const namedColors = tokens.named.filter(token => token.type === 'color' && typeof token.value === 'string');
+    Object.values(colorGroup).forEach((group: any) => {
+      const main = group.main || group;
+      const match = namedColors.find(token => token.value.toLowerCase() === String(main.$value).toLowerCase());
+      if (main.$type === 'color' && match) main.$value = `{${namedTokenPath(match).join('.')}}`;
+    });
+
+    return {
+      $description: sourceName ? `Generated from the Figma file "${sourceName}"` : 'Generated from Figma',
+      color: colorGroup,
+      fontFamily: fontFamilies,
+      typography,
+      spacing,
+      ...named
+    };
+  }
+
+  private dtcgToken(token: NamedToken, value: any): Record<string, any> | null {
+    if (value === undefined) return null;
+    switch (token.type) {
+      case 'color':
+        return { $type: 'color', $value: value };
+      case 'number':
+        return { $type: 'number', $value: value };
+      case 'typography': {
+        const style = value as TypographyValue;
+        return {
+          $type: 'typography',
+          $value: {
+            fontFamily: [style.fontFamily, 'sans-serif'],
+            fontSize: `${style.fontSize}px`,
+            fontWeight: style.fontWeight,
+            lineHeight: style.lineHeightPx ? Math.round((style.lineHeightPx / style.fontSize) * 100) / 100 : 1.2,
+            letterSpacing: `${style.letterSpacing ?? 0}px`
+          }
+        };
+      }
+      case 'effect': {
+        const shadows = shadowValues(value).map(shadow => ({
+          ...shadow,
+          offsetX: `${shadow.offsetX}px`,
+          offsetY: `${shadow.offsetY}px`,
+          blur: `${shadow.blur}px`,
+          spread: `${shadow.spread}px`
+        }));
+        return shadows.length > 0 ? { $type: 'shadow', $value: shadows.length === 1 ? shadows[0] : shadows } : null;
+      }
+      default:
+        // DTCG has no string or boolean type
+        return null;
+    }
+  }
+
+  private cssDeclarations(token: NamedToken, value: any): Array<[string, string | number]> {
+    if (value === undefined) return [];
+    const name = tokenPath(token.name).map(part => kebabCase(this.cssName(part))).join('-');
+    switch (token.type) {
+      case 'color':
+      case 'number':
+        return [[name, value]];
+      case 'string':
+        return [[name, JSON.stringify(value)]];
+      case 'typography': {
+        const style = value as TypographyValue;
+        const declarations: Array<[string, string | number]> = [
+          [`${name}-font-family`, this.fontStack(style.fontFamily)],
+          [`${name}-font-size`, `${style.fontSize}px`],
+          [`${name}-font-weight`, style.fontWeight]
+        ];
+        if (style.lineHeightPx) declarations.push([`${name}-line-height`, `${style.lineHeightPx}px`]);
+        if (style.letterSpacing) declarations.push([`${name}-letter-spacing`, `${style.letterSpacing}px`]);
+        return declarations;
+      }
+      case 'effect': {
+        const css = shadowCss(value);
+        return css ? [[`${name}-shadow`, css]] : [];
+      }
+      default:
+        return [];
+    }
+  }
+
+  private literalValue(token: NamedToken, value: any): any {
+    if (token.type === 'effect') return shadowCss(value || []) || undefined;
+    return value;
+  }
+
+  private cssName(value: string): string {
+    return value.replace(/[^A-Za-z0-9-]+/g, '-').replace(/^-+|-+$/g, '') || 'token';
+  }
+
+  private modesIdentifier(collection: string): string {
+    const words = collection.replace(/[^A-Za-z0-9]+/g, ' ').trim().split(/\s+/).filter(Boolean);
+    const name = words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+    return `figma${/^\d/.test(name) ? `_${name}` : name}Modes`;
+  }
+
+  /**
+   * Usage per color; analyses saved before usage tracking only have the color list
+   */
+  private getColorUsage(designTokens: DesignTokens): ColorUsage[] {
+    if (!designTokens.colorUsage?.length) {
+      return (designTokens.colors || []).map(hex => ({ hex, fills: 1, fillArea: 0, strokes: 0, text: 0 }));
+    }
+
+    // Gradient stops are listed as colors without usage
+    const tracked = new Set(designTokens.colorUsage.map(usage => usage.hex));
+    return [
+      ...designTokens.colorUsage,
+      ...(designTokens.colors || []).filter(hex => !tracked.has(hex)).map(hex => ({ hex, fills: 0, fillArea: 0, strokes: 0, text: 0 }))
+    ];
+  }
+
+  private getTextStyles(designTokens: DesignTokens): TextStyleUsage[] {
+    if (designTokens.textStyles?.length) return designTokens.textStyles;
+    return (designTokens.typography || []).map(token => {
+      const [fontFamily, weight, size] = token.split('-');
+      return { fontFamily, fontWeight: Number(weight) || 400, fontSize: Number(size) || 16, count: 1, characters: 1 };
+    });
+  }
+
+  private getSpacingUsage(designTokens: DesignTokens): SpacingUsage[] {
+    if (designTokens.spacingUsage?.length) return designTokens.spacingUsage;
+    return (designTokens.spacing || []).map(value => ({ value, count: 1 }));
+  }
+
+  /**
+   * Merge perceptually close colors; the most used color of each cluster represents it
+   */
+  private clusterColors(usage: ColorUsage[]): ColorCluster[] {
+    const weight = (color: ColorUsage) => color.fills + color.strokes + color.text;
+    const clusters: ColorCluster[] = [];
+
+    [...usage].sort((a, b) => weight(b) - weight(a) || b.fillArea - a.fillArea).forEach(color => {
+      const hex = color.hex.toLowerCase();
+      const lab = rgbToLab(hexToRgb(hex));
+      const cluster = clusters.find(candidate => labDistance(candidate.lab, lab) < CLUSTER_DISTANCE);
+
+      if (cluster) {
+        cluster.members.push(hex);
+        cluster.fills += color.fills;
+        cluster.fillArea += color.fillArea;
+        cluster.strokes += color.strokes;
+        cluster.text += color.text;
+      } else {
+        clusters.push({
+          hex,
+          members: [hex],
+          fills: color.fills,
+          fillArea: color.fillArea,
+          strokes: color.strokes,
+          text: color.text,
+          hsl: rgbToHsl(hexToRgb(hex)),
+          lab
+        });
+      }
+    });
+
+    return clusters;
+  }
+
+  /**
+   * Background and text roles come from neutral colors by how they are used;
+   * brand and status roles from chromatic colors by usage and hue
+   */
+  private assignPaletteRoles(clusters: ColorCluster[]): Pick<ThemeTokens, 'palette' | 'colors'> {
+    const roleOf = new Map<ColorCluster, string>();
+    const neutrals = clusters.filter(isNeutral);
+    const chromatic = clusters.filter(cluster => !isNeutral(cluster));
+    const unassigned = (cluster: ColorCluster) => !roleOf.has(cluster);
+
+    // Background: the neutral covering the most area, else the lightest neutral
+    const backgroundCluster = [...neutrals].sort((a, b) => b.fillArea - a.fillArea || b.hsl.l - a.hsl.l)[0];
+    const background = backgroundCluster?.hex || '#ffffff';
+    if (backgroundCluster) roleOf.set(backgroundCluster, 'background');
+
+    const paperCluster = neutrals
+      .filter(cluster => unassigned(cluster) && cluster.fills > 0 && cluster.hsl.l > 0.85)
+      .sort((a, b) => b.fillArea - a.fillArea)[0];
+    const paper = paperCluster?.hex || (luminance(background) > 0.9 ? background : '#ffffff');
+    if (paperCluster) roleOf.set(paperCluster, 'paper');
+
+    // Text: the most used readable text colors
+    const textClusters = clusters
+      .filter(cluster => unassigned(cluster) && cluster.text > 0 && contrastRatio(cluster.hex, background) >= CONTRAST_THRESHOLD)
+      .sort((a, b) => Number(isNeutral(b)) - Number(isNeutral(a)) || b.text - a.text);
+    const textPrimaryCluster = textClusters[0] ||
+      [...neutrals].filter(unassigned).sort((a, b) => a.hsl.l - b.hsl.l).find(cluster => contrastRatio(cluster.hex, background) >= 4.5);
+    const textPrimary = textPrimaryCluster?.hex || (luminance(background) > 0.5 ? '#212121' : '#ffffff');
+    if (textPrimaryCluster) roleOf.set(textPrimaryCluster, 'textPrimary');
+
+    const textSecondaryCluster = textClusters.find(cluster => unassigned(cluster) && isNeutral(cluster));
+    const textSecondary = textSecondaryCluster?.hex || mix(textPrimary, background, 0.4);
+    if (textSecondaryCluster) roleOf.set(textSecondaryCluster, 'textSecondary');
+
+    const dividerCluster = neutrals.filter(cluster => unassigned(cluster) && cluster.strokes > 0).sort((a, b) => b.strokes - a.strokes)[0];
+    const divider = dividerCluster?.hex || mix(background, textPrimary, 0.12);
+    if (dividerCluster) roleOf.set(dividerCluster, 'divider');
+
+    // Brand colors: the most used chromatic color, then the most used one with a clearly different hue
+    const palette: ThemeTokens['palette'] = {
+      background: { default: background, paper },
+      text: { primary: textPrimary, secondary: textSecondary },
+      divider,
+      extra: {}
+    };
+    const byUsage = [...chromatic].sort((a, b) =>
+      (b.fills + b.strokes + b.text) - (a.fills + a.strokes + a.text) || b.fillArea - a.fillArea);
+
+    const primary = byUsage.find(unassigned);
+    if (primary) {
+      palette.primary = this.paletteColor(primary.hex);
+      roleOf.set(primary, 'primary');
+
+      const secondary = byUsage.find(cluster => unassigned(cluster) && hueDistance(cluster.hsl.h, primary.hsl.h) >= 30);
+      if (secondary) {
+        palette.secondary = this.paletteColor(secondary.hex);
+        roleOf.set(secondary, 'secondary');
+      }
+    }
+
+    STATUS_HUES.forEach(({ role, matches }) => {
+      const cluster = byUsage.find(candidate => unassigned(candidate) && candidate.hsl.s >= 0.4 && matches(candidate.hsl.h));
+      if (cluster) {
+        palette[role] = this.paletteColor(cluster.hex);
+        roleOf.set(cluster, role);
+      }
+    });
+
+    // Everything else keeps a readable name
+    clusters.filter(unassigned).forEach(cluster => {
+      const base = isNeutral(cluster) ? 'grey' : HUE_NAMES.find(([limit]) => cluster.hsl.h < limit)?.[1] || 'red';
+      let name = base;
+      let suffix = 2;
+      while (palette.extra[name]) name = `${base}${suffix++}`;
+      palette.extra[name] = cluster.hex;
+      roleOf.set(cluster, name);
+    });
+
+    const colors: Record<string, string> = {};
+    clusters.forEach(cluster => {
+      const role = roleOf.get(cluster)!;
+      cluster.members.forEach((hex, index) => {
+        colors[index === 0 ? role : `${role}${index + 1}`] = hex;
+      });
+    });
+
+    return { palette, colors };
+  }
+
+  private paletteColor(main: string): PaletteColorToken {
+    return {
+      main,
+      light: lighten(main, TONAL_OFFSET),
+      dark: darken(main, TONAL_OFFSET * 1.5),
+      // Material-UI's getContrastText: white when it reaches the threshold, else 87% black
+      contrastText: contrastRatio(main, '#ffffff') >= CONTRAST_THRESHOLD ? '#ffffff' : '#000000de'
+    };
+  }
+
+  /**
+   * body1 is the size holding the most text; larger sizes become h6 up to h1,
+   * smaller ones body2 and caption
+   */
+  private buildTypographyScale(styles: TextStyleUsage[]): ThemeTokens['typography'] {
+    const weightOf = (style: TextStyleUsage) => style.characters || style.count;
+
+    const families = new Map<string, number>();
+    const sizes = new Map<number, TextStyleUsage[]>();
+    styles.forEach(style => {
+      families.set(style.fontFamily, (families.get(style.fontFamily) || 0) + weightOf(style));
+      sizes.set(style.fontSize, [...(sizes.get(style.fontSize) || []), style]);
+    });
+
+    const fontFamily = Array.from(families.entries())
+      .filter(([family]) => family !== 'default')
+      .sort((a, b) => b[1] - a[1])[0]?.[0] || 'Roboto';
+    if (sizes.size === 0) {
+      return { fontFamily, variants: {} };
+    }
+
+    const sizeWeight = (size: number) => (sizes.get(size) || []).reduce((sum, style) => sum + weightOf(style), 0);
+    const dominant = (size: number) => [...(sizes.get(size) || [])].sort((a, b) => weightOf(b) - weightOf(a))[0];
+    const token = (style: TextStyleUsage): TypographyToken => ({
+      fontFamily: style.fontFamily !== fontFamily && style.fontFamily !== 'default' ? style.fontFamily : undefined,
+      fontSize: style.fontSize,
+      fontWeight: Number(style.fontWeight) || 400,
+      lineHeight: style.lineHeightPx ? Math.round((style.lineHeightPx / style.fontSize) * 100) / 100 : undefined,
+      letterSpacing: style.letterSpacing ? Math.round(style.letterSpacing * 100) / 100 : undefined
+    });
+
+    const allSizes = Array.from(sizes.keys());
+    const bodySize = [...allSizes].sort((a, b) => sizeWeight(b) - sizeWeight(a) || a - b)[0];
+    const variants: ThemeTokens['typography']['variants'] = { body1: token(dominant(bodySize)) };
+
+    // The six most used larger sizes, smallest first from h6
+    const larger = allSizes
+      .filter(size => size > bodySize)
+      .sort((a, b) => sizeWeight(b) - sizeWeight(a))
+      .slice(0, 6)
+      .sort((a, b) => a - b);
+    (['h6', 'h5', 'h4', 'h3', 'h2', 'h1'] as const).slice(0, larger.length).forEach((variant, index) => {
+      variants[variant] = token(dominant(larger[index]));
+    });
+
+    const smaller = allSizes.filter(size => size < bodySize).sort((a, b) => b - a);
+    if (smaller.length > 0) variants.body2 = token(dominant(smaller[0]));
+    if (smaller.length > 1) variants.caption = token(dominant(smaller[smaller.length - 1]));
+
+    // Buttons use body-size text; Figma designs rarely upper-case labels the way Material-UI does
+    const buttonStyle = (sizes.get(bodySize) || []).filter(style => Number(style.fontWeight) >= 500)
+      .sort((a, b) => weightOf(b) - weightOf(a))[0];
+    variants.button = {
+      ...token(buttonStyle || dominant(bodySize)),
+      fontWeight: buttonStyle ? Number(buttonStyle.fontWeight) : 500,
+      textTransform: 'none'
+    };
+
+    const ordered: ThemeTokens['typography']['variants'] = {};
+    VARIANT_ORDER.filter(variant => variants[variant]).forEach(variant => {
+      ordered[variant] = variants[variant];
+    });
+    return { fontFamily, variants: ordered };
+  }
+
+  /**
+   * The largest unit most spacing values are a multiple of, and the values on that grid
+   */
+  private buildSpacingScale(usage: SpacingUsage[]): ThemeTokens['spacing'] {
+    const values = usage
+      .map(entry => ({ value: Math.round(entry.value), count: entry.count }))
+      .filter(entry => entry.value > 0);
+    const total = values.reduce((sum, entry) => sum + entry.count, 0);
+    const onGrid = (value: number, unit: number) => value % unit === 0;
+
+    const unit = total === 0
+      ? 8
+      : SPACING_UNITS.find(candidate =>
+        values.filter(entry => onGrid(entry.value, candidate)).reduce((sum, entry) => sum + entry.count, 0) / total >= MIN_GRID_SHARE
+      ) || 1;
+
+    const distinct = Array.from(new Set(values.map(entry => entry.value))).sort((a, b) => a - b);
+    return {
+      unit,
+      scale: distinct.filter(value => onGrid(value, unit)),
+      offGrid: distinct.filter(value => !onGrid(value, unit))
+    };
+  }
+
+  private spacingStep(value: number, unit: number): string {
+    return String(Math.round((value / unit) * 100) / 100).replace('.', '_');
+  }
+
+  private fontStack(family: string): string {
+    return `${quoteFontFamily(family)}, sans-serif`;
+  }
+
+  private toRem(px: number): number {
+    return Math.round((px / 16) * 1000) / 1000;
+  }
+
+  private header(sourceName: string | undefined, comment: '//' | '/*'): string {
+    const text = sourceName ? `Generated from the Figma file "${sourceName}"` : 'Generated from Figma';
+    return comment === '//' ? `// ${text}` : `/* ${text} */`;
+  }
+}
+
+export default DesignTokenExporter;
@@ -0,0 +1,162 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import FigmaService from './figmaService';
+import SemanticGroupingService from './semanticGroupingService';
+import GPTVisionService from './gptVisionService';
+import { CompletionRequest, StubProvider } from './llmProvider';
+import { isAbortError } from './httpClient';
+import { MemoryStageCache } from './stageCache';
+import { FIGMA_CACHE_MAX_AGE_MS, FigmaPipelineServices, FigmaPipelineState, createFigmaPipeline } from './figmaPipeline';
+import { figmaFile, loginScreen } from '../test/figmaFixtures';
+
+const MODEL_STAGES = ['semanticGrouping', 'visualValidation'];
+
+/**
+ * Pipeline over the login fixture whose model stages answer with `respond`
+ */
+const setup = (respond: (request: CompletionRequest) => string | Promise<string>) => {
+  const requests: CompletionRequest[] = [];
+  const provider = new StubProvider(request => {
+    requests.push(request);
+    return respond(request);
+  });
+  const services = {
+    semanticGrouping: new SemanticGroupingService(provider),
+    vision: new GPTVisionService(provider)
+  } as unknown as FigmaPipelineServices;
+  const pipeline = createFigmaPipeline(services);
+
+  const figma = {
+    ...new FigmaService('test-token').analyzeLocalFile(figmaFile(loginScreen())),
+    imageUrl: 'https://figma.example/render.png'
+  };
+  const initial: Partial<FigmaPipelineState> = {
+    figmaUrl: 'https://www.figma.com/design/abc',
+    figma,
+    assets: { imageUrl: figma.imageUrl, assetUrls: {} }
+  };
+  return { pipeline, requests, initial };
+};
+
+describe('Figma pipeline model stages', () => {
+  it('make one model call each, without probing the vision model first', async () => {
+    const { pipeline, requests, initial } = setup(() => {
+      throw new Error('model down');
+    });
+    const messages: string[] = [];
+    pipeline.subscribe(event => {
+      if (event.type === 'stage:progress') messages.push(event.message);
+    });
+
+    const state = await pipeline.run(initial, { stages: MODEL_STAGES });
+
+    expect(requests.map(request => request.jsonSchema?.name)).toEqual(['SemanticGroupingResult', 'GPTVisionAnalysis']);
+    expect(state.visionAnalysis?.diagnostics?.usedFallback).toBe(true);
+    expect(messages).toContain('Vision model unavailable, validated heuristically: model down');
+  });
+
+  it('pass the stage signal to the model calls', async () => {
+    const { pipeline, requests, initial } = setup(() => {
+      throw new Error('model down');
+    });
+
+    await pipeline.run(initial, { stages: MODEL_STAGES });
+
+    expect(requests).toHaveLength(2);
+    requests.forEach(request => expect(request.signal).toBeInstanceOf(AbortSignal));
+  });
+
+  it('ask the model again after a heuristic fallback instead of reusing it', async () => {
+    const { pipeline, requests, initial } = setup(() => {
+      throw new Error('rate limited');
+    });
+    const cache = new MemoryStageCache();
+
+    await pipeline.run(initial, { stages: MODEL_STAGES, cache });
+    await pipeline.run(initial, { stages: MODEL_STAGES, cache });
+
+    expect(requests).toHaveLength(4);
+  });
+
+  it('stop instead of falling back when the run is cancelled', async () => {
+    const controller = new AbortController();
+    const { pipeline, requests, initial } = setup(() => {
+      controller.abort();
+      throw new DOMException('The operation was aborted', 'AbortError');
+    });
+
+    const run = pipeline.run(initial, { stages: MODEL_STAGES, signal: controller.signal });
+
+    await expect(run).rejects.toSatisfy(isAbortError);
+    expect(requests).toHaveLength(1);
+  });
+});
+
+describe('Figma pipeline file fetch cache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /**
+   * FigmaService for the login fixture holding `token`; counts the file reads
+   */
+  const figmaWithToken = (token: string, reads: string[]) => {
+    const figma = new FigmaService(token);
+    figma.getFileVersion = async () => ({ version: '42', lastModified: '2026-01-01T00:00:00Z' });
+    figma.analyzeFileWithAssets = async () => {
+      reads.push(token);
+      return { ...figma.analyzeLocalFile(figmaFile(loginScreen())), imageUrl: '' };
+    };
+    return figma;
+  };
+
+  const fetchWith = (token: string, reads: string[], cache: MemoryStageCache) =>
+    createFigmaPipeline({ figma: figmaWithToken(token, reads) } as unknown as FigmaPipelineServices)
+      .run({ figmaUrl: 'https://www.figma.com/design/abc?node-id=1-1' }, { stages: ['fetchFigma'], cache });
+
+  it('stops when the run is cancelled while the cache key is worked out', async () => {
+    const controller = new AbortController();
+    const figma = figmaWithToken('token-a', []);
+    figma.getFileVersion = async () => {
+      controller.abort();
+      return { version: '42', lastModified: '2026-01-01T00:00:00Z' };
+    };
+    figma.analyzeFileWithAssets = () => new Promise(() => undefined);
+
+    const run = createFigmaPipeline({ figma } as unknown as FigmaPipelineServices)
+      .run({ figmaUrl: 'https://www.figma.com/design/abc' }, { stages: ['fetchFigma'], cache: new MemoryStageCache(), signal: controller.signal });
+
+    await expect(run).rejects.toSatisfy(isAbortError);
+  });
+
+  it('reuses a result for the same token', async () => {
+    const reads: string[] = [];
+    const cache = new MemoryStageCache();
+
+    await fetchWith('token-a', reads, cache);
+    await fetchWith('token-a', reads, cache);
+
+    expect(reads).toEqual(['token-a']);
+  });
+
+  it('does not hand a result to a different token', async () => {
+    const reads: string[] = [];
+    const cache = new MemoryStageCache();
+
+    await fetchWith('token-a', reads, cache);
+    await fetchWith('token-b', reads, cache);
+
+    expect(reads).toEqual(['token-a', 'token-b']);
+  });
+
+  it('fetches again once the export URLs in a cached result may have expired', async () => {
+    vi.useFakeTimers();
+    const reads: string[] = [];
+    const cache = new MemoryStageCache();
+
+    await fetchWith('token-a', reads, cache);
+    vi.advanceTimersByTime(FIGMA_CACHE_MAX_AGE_MS + 1);
+    await fetchWith('token-a', reads, cache);
+
+    expect(reads).toEqual(['token-a', 'token-a']);
+  });
+});
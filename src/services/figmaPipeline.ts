@@ -0,0 +1,276 @@
+import Pipeline, { PipelineStage } from './pipelineEngine';
+import FigmaService, { DesignTokens, FigmaAnalysisResult } from './figmaService';
+import SemanticGroupingService, { SemanticGroupingResult } from './semanticGroupingService';
+import GPTVisionService, { GPTVisionAnalysis } from './gptVisionService';
+import StyleMapperService, { StyleMapping, flattenMappedComponents } from './styleMapperService';
+import CodeGeneratorService, { GeneratedCode } from './codeGeneratorService';
+import AssetStorageService from './assetStorageService';
+import MappingRuleEngine, { ProjectMappingRules } from './mappingRuleEngine';
+import ComponentRegistry, { ProjectComponentRegistry } from './componentRegistry';
+import { LLMSettings, createLLMProvider } from './llmProvider';
+
+export type FigmaFileAnalysis = FigmaAnalysisResult & {
+  designTokens: DesignTokens;
+  assetUrls: { [nodeId: string]: string };
+};
+
+export interface ScreenAssets {
+  // Render of the screen's frame
+  imageUrl: string;
+  assetUrls: { [nodeId: string]: string };
+  // Node ids (and 'screen' for the render) that could not be stored and keep their temporary Figma URL
+  expiring?: string[];
+}
+
+export interface FigmaPipelineState {
+  figmaUrl: string;
+  figma: FigmaFileAnalysis;
+  // Stable URLs when asset storage is configured, the temporary Figma URLs otherwise
+  assets: ScreenAssets;
+  styleMapping: StyleMapping;
+  semanticGrouping: SemanticGroupingResult;
+  visionAnalysis: GPTVisionAnalysis;
+  generated: GeneratedCode;
+}
+
+export interface FigmaPipelineServices {
+  figma: FigmaService;
+  semanticGrouping: SemanticGroupingService;
+  vision: GPTVisionService;
+  styleMapper: StyleMapperService;
+  codeGenerator: CodeGeneratorService;
+  // Where exported assets are copied; without it they keep their temporary Figma URLs
+  assetStorage?: { service: AssetStorageService; folder: string };
+}
+
+export interface FigmaPipelineConfig {
+  figmaToken: string;
+  llmSettings: LLMSettings;
+  mappingRules?: ProjectMappingRules | null;
+  componentRegistry?: ProjectComponentRegistry | null;
+  // `<userId>/<projectId>` folder in the screen-assets bucket
+  assetFolder?: string;
+}
+
+type Stage<TIn extends keyof FigmaPipelineState, TOut extends keyof FigmaPipelineState> =
+  PipelineStage<FigmaPipelineState, TIn, TOut>;
+
+const LLM_STAGE_TIMEOUT_MS = 3 * 60 * 1000;
+
+// The analysis includes Figma export URLs, which expire (image fill URLs after at most 14 days);
+// a day keeps well clear of that, so storeAssets is never handed a dead link from the cache
+export const FIGMA_CACHE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Services for the Figma pipeline, built from the user's settings and the project's rules
+ */
+export function createFigmaPipelineServices(config: FigmaPipelineConfig): FigmaPipelineServices {
+  return {
+    figma: new FigmaService(config.figmaToken),
+    semanticGrouping: new SemanticGroupingService(createLLMProvider(config.llmSettings, 'semanticGrouping')),
+    vision: new GPTVisionService(createLLMProvider(config.llmSettings, 'vision')),
+    styleMapper: new StyleMapperService(
+      MappingRuleEngine.forProject(config.mappingRules),
+      ComponentRegistry.forProject(config.componentRegistry)
+    ),
+    codeGenerator: new CodeGeneratorService(),
+    ...(config.assetFolder ? { assetStorage: { service: new AssetStorageService(), folder: config.assetFolder } } : {})
+  };
+}
+
+/**
+ * Figma link -> file analysis -> stored assets -> Material-UI mapping -> semantic grouping
+ * (stage 3A) -> visual validation (stage 3B) -> React code
+ */
+export function createFigmaPipeline(services: FigmaPipelineServices): Pipeline<FigmaPipelineState> {
+  const fetchFigma: Stage<'figmaUrl', 'figma'> = {
+    name: 'fetchFigma',
+    label: 'Fetching Figma file data',
+    description: 'Reading the file structure, styles, variables and design tokens from the Figma API',
+    inputs: ['figmaUrl'],
+    outputs: ['figma'],
+    timeoutMs: 5 * 60 * 1000,
+    // Keyed by what the link points at rather than the link itself, which may carry view parameters,
+    // and by the token, so a result is only reused by someone who can read the file
+    cache: {
+      version: '2',
+      inputs: [],
+      maxAgeMs: FIGMA_CACHE_MAX_AGE_MS,
+      key: async ({ figmaUrl }, signal) => {
+        const { fileKey, nodeIds } = services.figma.parseFigmaUrl(figmaUrl);
+        const { version } = await services.figma.getFileVersion(fileKey, signal);
+        const { tokenHash } = await services.figma.describeAccess();
+        return { fileKey, nodeIds: [...nodeIds].sort(), fileVersion: version, tokenHash };
+      }
+    },
+    run: async ({ figmaUrl }, { signal, report }) => {
+      const { fileKey, nodeIds } = services.figma.parseFigmaUrl(figmaUrl);
+      report(nodeIds.length > 0 ? `File ${fileKey}, nodes ${nodeIds.join(', ')}` : `File ${fileKey}`);
+      const figma = await services.figma.analyzeFileWithAssets(fileKey, nodeIds, signal);
+      report(`${figma.fileData.name}: ${figma.components.length} nodes, ${Object.keys(figma.assetUrls).length} image assets`);
+      return { figma };
+    }
+  };
+
+  const storeAssets: Stage<'figma', 'assets'> = {
+    name: 'storeAssets',
+    label: 'Exporting screen images',
+    description: 'Copying the frame render and image fills to storage, since Figma export URLs expire',
+    inputs: ['figma'],
+    outputs: ['assets'],
+    timeoutMs: 5 * 60 * 1000,
+    retries: 1,
+    run: async ({ figma }, { signal, report }) => {
+      if (!services.assetStorage) {
+        report('No asset storage configured, keeping the temporary Figma URLs');
+        return { assets: { imageUrl: figma.imageUrl, assetUrls: figma.assetUrls } };
+      }
+
+      const { service, folder } = services.assetStorage;
+      const [screenImage, images] = await Promise.all([
+        service.persistAssets(folder, figma.imageUrl ? { screen: figma.imageUrl } : {}, signal),
+        service.persistAssets(folder, figma.assetUrls, signal)
+      ]);
+      report(`${images.uploaded + screenImage.uploaded} uploaded, ${images.reused + screenImage.reused} already stored`);
+
+      const expiring = [...screenImage.failed, ...images.failed];
+      if (expiring.length > 0) {
+        report(`${expiring.length} image(s) could not be stored and keep their temporary Figma URLs, which expire`);
+      }
+      return {
+        assets: {
+          imageUrl: screenImage.urls.screen || figma.imageUrl,
+          assetUrls: images.urls,
+          ...(expiring.length > 0 ? { expiring } : {})
+        }
+      };
+    }
+  };
+
+  const mapStyles: Stage<'figma' | 'assets', 'styleMapping'> = {
+    name: 'mapStyles',
+    label: 'Identifying UI components',
+    description: 'Mapping Figma nodes to Material-UI components with their styling',
+    inputs: ['figma', 'assets'],
+    outputs: ['styleMapping'],
+    run: async ({ figma, assets }, { report }) => {
+      const styleMapping = services.styleMapper.mapComponentsToMui(figma.components, figma.designTokens, assets.assetUrls);
+      report(`${flattenMappedComponents(styleMapping.components).length} components mapped`);
+      return { styleMapping };
+    }
+  };
+
+  const semanticGrouping: Stage<'figma', 'semanticGrouping'> = {
+    name: 'semanticGrouping',
+    label: 'Stage 3A: Semantic Grouping',
+    description: 'Grouping related nodes into UI patterns from the file structure',
+    inputs: ['figma'],
+    outputs: ['semanticGrouping'],
+    timeoutMs: LLM_STAGE_TIMEOUT_MS,
+    retries: 1,
+    // A heuristic fallback stands in for one failed call; the next run asks the model again
+    cache: {
+      version: '1',
+      key: () => services.semanticGrouping.describeModel(),
+      cacheable: ({ semanticGrouping }) => !semanticGrouping.diagnostics?.usedFallback
+    },
+    run: async ({ figma }, { signal, report }) => {
+      const result = await services.semanticGrouping.groupComponents(figma.fileData, figma.components, signal);
+      if (result.diagnostics?.usedFallback) {
+        report(`Model unavailable, grouped heuristically: ${result.diagnostics.failureReason}`);
+      }
+      report(`${result.groups.length} semantic groups, ${(result.confidence * 100).toFixed(0)}% confidence`);
+      return { semanticGrouping: result };
+    }
+  };
+
+  const visualValidation: Stage<'figma' | 'assets' | 'semanticGrouping', 'visionAnalysis'> = {
+    name: 'visualValidation',
+    label: 'Stage 3B: Visual Validation',
+    description: 'Checking the semantic groups against the rendered screen with the vision model',
+    inputs: ['figma', 'assets', 'semanticGrouping'],
+    outputs: ['visionAnalysis'],
+    timeoutMs: LLM_STAGE_TIMEOUT_MS,
+    retries: 1,
+    // The screen image renders the same file version, and its URL changes with every export
+    cache: {
+      version: '1',
+      inputs: ['figma', 'semanticGrouping'],
+      key: () => services.vision.describeModel(),
+      cacheable: ({ visionAnalysis }) => !visionAnalysis.diagnostics?.usedFallback
+    },
+    run: async ({ figma, assets, semanticGrouping }, { signal, report }) => {
+      const visionAnalysis = await services.vision.analyzeSemanticGroups(figma.fileData, assets.imageUrl, semanticGrouping, signal);
+      // The analysis falls back to heuristics on model errors; say so rather than paying for a probe call first
+      if (visionAnalysis.diagnostics?.usedFallback) {
+        report(`Vision model unavailable, validated heuristically: ${visionAnalysis.diagnostics.failureReason}`);
+      }
+      report(`${visionAnalysis.components.length} components validated, ${(visionAnalysis.confidence * 100).toFixed(0)}% confidence`);
+      return { visionAnalysis };
+    }
+  };
+
+  const generateCode: Stage<'styleMapping' | 'semanticGrouping', 'generated'> = {
+    name: 'generateCode',
+    label: 'Generating React code',
+    description: 'Writing the React component with Material-UI and the design tokens',
+    inputs: ['styleMapping', 'semanticGrouping'],
+    outputs: ['generated'],
+    run: async ({ styleMapping, semanticGrouping }, { report }) => {
+      const generated = services.codeGenerator.generate(styleMapping, { semanticGrouping });
+      report(`${generated.code.length} characters, ${generated.iconModules.length} icon module(s)`);
+      return { generated };
+    }
+  };
+
+  return new Pipeline<FigmaPipelineState>({
+    name: 'figma-to-code',
+    inputs: ['figmaUrl'],
+    stages: [fetchFigma, storeAssets, mapStyles, semanticGrouping, visualValidation, generateCode]
+  });
+}
+
+/**
+ * Screen columns for a finished run; the browser processor and the job worker store the same shape
+ */
+export function toProcessedScreen(state: FigmaPipelineState) {
+  const { figma, assets, styleMapping, semanticGrouping, visionAnalysis, generated } = state;
+  return {
+    current_code: generated.code,
+    status: 'ready' as const,
+    confidence_score: visionAnalysis.confidence,
+    iteration_count: 1,
+    analysis_data: {
+      figmaData: {
+        fileData: figma.fileData,
+        imageUrl: assets.imageUrl,
+        components: figma.components,
+        designTokens: figma.designTokens,
+        assetUrls: assets.assetUrls,
+        // Images still on temporary Figma URLs; reprocessing the screen tries to store them again
+        expiringAssets: assets.expiring,
+        styleMapping
+      },
+      semanticGrouping,
+      gptAnalysis: visionAnalysis,
+      generatedIcons: generated.iconModules
+    },
+    original_image_url: assets.imageUrl
+  };
+}
+
+/**
+ * The vibe_sessions row recording a screen's initial generation
+ */
+export function toInitialSession(screenId: string, state: FigmaPipelineState, aiProvider: string) {
+  const { figma, visionAnalysis, generated } = state;
+  return {
+    screen_id: screenId,
+    session_type: 'initial_generation',
+    ai_response: `Initial code generated from Figma design "${figma.fileData.name}". Identified ${visionAnalysis.components.length} components with ${(visionAnalysis.confidence * 100).toFixed(0)}% confidence.`,
+    generated_code: generated.code,
+    ai_provider: aiProvider,
+    confidence_score: visionAnalysis.confidence,
+    is_accepted: true
+  };
+}
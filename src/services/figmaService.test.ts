@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import FigmaService, { FigmaNode } from './figmaService';
+import DesignTokenExporter from './designTokenExporter';
+import { figmaFile, frame, loginScreen, rectangle, solid, text } from '../test/figmaFixtures';
+
+const analyze = (screen = loginScreen()) => new FigmaService('test-token').analyzeLocalFile(figmaFile(screen));
+
+// Fill of the hidden error banner in loginScreen
+const BANNER_RED = '#e61a1a';
+
+describe('FigmaService design tokens', () => {
+  it('collects the colors of visible layers', () => {
+    const { designTokens } = analyze();
+
+    expect(designTokens.colors).toEqual(expect.arrayContaining(['#ffffff', '#3366e6', '#1a1a1a']));
+  });
+
+  it('leaves hidden layers and their contents out of the palette', () => {
+    const { designTokens } = analyze();
+    const theme = new DesignTokenExporter().buildThemeTokens(designTokens);
+
+    expect(designTokens.colors).not.toContain(BANNER_RED);
+    expect(designTokens.colorUsage?.map(usage => usage.hex)).not.toContain(BANNER_RED);
+    expect(Object.values(theme.colors).map(hex => hex.toLowerCase())).not.toContain(BANNER_RED);
+    // "Welcome back" and "Sign in"; the banner's "Wrong password" is not counted
+    expect(designTokens.textStyles?.reduce((total, style) => total + style.count, 0)).toBe(2);
+  });
+
+  it('skips hidden and fully transparent paints on visible layers', () => {
+    const screen = frame('3:1', 'Card', { x: 0, y: 0, width: 200, height: 100 }, [
+      rectangle('3:2', 'Swatch', { x: 0, y: 0, width: 50, height: 50 }, {
+        fills: [solid(0, 0.8, 0), solid(0.9, 0.1, 0.1, { visible: false })],
+        strokes: [solid(0, 0, 1, { opacity: 0 })]
+      })
+    ], { fills: [solid(1, 1, 1)] });
+    const { designTokens } = analyze(screen);
+
+    expect(designTokens.colors).toContain('#00cc00');
+    expect(designTokens.colors).not.toContain(BANNER_RED);
+    expect(designTokens.colors).not.toContain('#0000ff');
+  });
+});
+
+describe('FigmaService paint and effect styling', () => {
+  const BOX = { x: 0, y: 0, width: 200, height: 100 };
+  const shadow = { type: 'DROP_SHADOW', color: { r: 0, g: 0, b: 0, a: 0.25 }, offset: { x: 0, y: 4 }, radius: 8, spread: 2 };
+
+  const styling = (screen: FigmaNode, id: string) =>
+    analyze(screen).components.find(component => component.id === id)?.properties.styling;
+
+  it('turns stacked fills, strokes and effects into CSS', () => {
+    const card = frame('4:1', 'Card', BOX, [], {
+      fills: [
+        solid(1, 1, 1),
+        {
+          type: 'GRADIENT_LINEAR',
+          blendMode: 'MULTIPLY',
+          gradientHandlePositions: [{ x: 0, y: 0.5 }, { x: 1, y: 0.5 }, { x: 0, y: 1 }],
+          gradientStops: [{ position: 0, color: { r: 1, g: 0, b: 0, a: 1 } }, { position: 1, color: { r: 0, g: 0, b: 1, a: 1 } }]
+        }
+      ],
+      strokes: [solid(0, 0, 0)],
+      strokeWeight: 2,
+      strokeAlign: 'OUTSIDE',
+      effects: [
+        shadow,
+        { ...shadow, type: 'INNER_SHADOW', visible: false },
+        { type: 'LAYER_BLUR', radius: 4 },
+        { type: 'BACKGROUND_BLUR', radius: 10 }
+      ],
+      opacity: 0.8,
+      blendMode: 'SCREEN'
+    });
+
+    expect(styling(card, '4:1')).toMatchObject({
+      colors: { background: '#ffffff', border: '#000000' },
+      backgrounds: ['linear-gradient(90deg, #ff0000 0%, #0000ff 100%)', '#ffffff'],
+      backgroundBlendModes: ['multiply', 'normal'],
+      borders: { width: 2, align: 'OUTSIDE', style: 'solid' },
+      shadows: ['0px 4px 8px 2px rgba(0, 0, 0, 0.25)'],
+      blur: { layer: 4, background: 10 },
+      opacity: 0.8,
+      blendMode: 'screen'
+    });
+  });
+
+  it('gives text layers text shadows and a text color instead of a background', () => {
+    const screen = frame('5:1', 'Screen', BOX, [
+      text('5:2', 'Title', { x: 0, y: 0, width: 100, height: 24 }, { effects: [shadow, { ...shadow, type: 'INNER_SHADOW' }] })
+    ]);
+    const title = styling(screen, '5:2');
+
+    expect(title.colors).toEqual({ text: '#1a1a1a' });
+    expect(title.textShadows).toEqual(['0px 4px 8px rgba(0, 0, 0, 0.25)']);
+    expect(title.shadows).toBeUndefined();
+    expect(title.backgrounds).toBeUndefined();
+  });
+
+  it('leaves out hidden paints and effects', () => {
+    const card = frame('6:1', 'Card', BOX, [], {
+      fills: [solid(1, 0, 0, { visible: false }), solid(0, 1, 0)],
+      strokes: [solid(0, 0, 0, { visible: false })],
+      effects: [{ ...shadow, visible: false }]
+    });
+
+    expect(styling(card, '6:1')).toMatchObject({ colors: { background: '#00ff00' } });
+    expect(styling(card, '6:1').colors.border).toBeUndefined();
+    expect(styling(card, '6:1').shadows).toBeUndefined();
+    expect(styling(card, '6:1').backgrounds).toBeUndefined();
+  });
+});
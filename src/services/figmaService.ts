@@ -1,19 +1,105 @@
+import HttpClient, { isAbortError } from './httpClient';
+import {
+  FigmaEffect,
+  FigmaPaint,
+  gradientToCss,
+  paintsToBackgroundLayers,
+  paintsToBlendModes,
+  paintColorToCss,
+  figmaBlendModeToCss,
+  shadowToCss,
+  isVisiblePaint,
+  isSolidPaint
+} from '../utils/figmaPaint';
+import { FigmaTextContent, buildRichText, typeStyleExtrasToCss } from '../utils/richText';
+import { OptimizedSvg, matchMuiIcon, optimizeSvg } from '../utils/svgIcon';
+import { sha256Hex } from '../utils/contentHash';
+
 export interface FigmaFile {
   name: string;
   lastModified: string;
   thumbnailUrl: string;
   document: FigmaNode;
+  // Main components and component sets used in the file, keyed by node ID
+  components?: { [nodeId: string]: FigmaComponentMeta };
+  componentSets?: { [nodeId: string]: FigmaComponentMeta };
+  // Styles referenced by nodes (node.styles), keyed by style ID
+  styles?: { [styleId: string]: FigmaStyleMeta };
+  // Local variables, attached by analyzeFileWithAssets when the token may read them
+  variables?: FigmaLocalVariables;
+}
+
+export type FigmaStyleType = 'FILL' | 'TEXT' | 'EFFECT' | 'GRID';
+
+export interface FigmaStyleMeta {
+  key: string;
+  name: string;
+  styleType: FigmaStyleType;
+  description?: string;
+  remote?: boolean;
+}
+
+/**
+ * A style published from the file (GET /files/:key/styles)
+ */
+export interface FigmaPublishedStyle {
+  key: string;
+  nodeId: string;
+  name: string;
+  styleType: FigmaStyleType;
+  description?: string;
+}
+
+export interface FigmaVariableAlias {
+  type: 'VARIABLE_ALIAS';
+  id: string;
 }
 
-export interface FigmaNode {
+export interface FigmaVariable {
+  id: string;
+  name: string;
+  key?: string;
+  variableCollectionId: string;
+  resolvedType: 'COLOR' | 'FLOAT' | 'STRING' | 'BOOLEAN';
+  // Raw value or alias per mode ID
+  valuesByMode: { [modeId: string]: any };
+  description?: string;
+  remote?: boolean;
+}
+
+export interface FigmaVariableCollection {
+  id: string;
+  name: string;
+  modes: Array<{ modeId: string; name: string }>;
+  defaultModeId: string;
+  variableIds?: string[];
+  remote?: boolean;
+}
+
+/**
+ * Response of GET /files/:key/variables/local
+ */
+export interface FigmaLocalVariables {
+  variables: { [variableId: string]: FigmaVariable };
+  variableCollections: { [collectionId: string]: FigmaVariableCollection };
+}
+
+export interface FigmaComponentMeta {
+  key: string;
+  name: string;
+  description?: string;
+  componentSetId?: string;
+}
+
+export interface FigmaNode extends FigmaTextContent {
   id: string;
   name: string;
   type: string;
   children?: FigmaNode[];
   backgroundColor?: string;
-  fills?: any[];
-  strokes?: any[];
-  effects?: any[];
+  fills?: FigmaPaint[];
+  strokes?: FigmaPaint[];
+  effects?: FigmaEffect[];
   constraints?: any;
   absoluteBoundingBox?: {
     x: number;
@@ -35,6 +121,8 @@ export interface ComponentAnalysis {
   id: string;
   name: string;
   type: string;
+  // Nearest analyzed ancestor, undefined for top-level nodes
+  parentId?: string;
   bounds: {
     x: number;
     y: number;
@@ -55,25 +143,74 @@ export interface ComponentAnalysis {
       fontWeight?: string;
       lineHeight?: string;
       textAlign?: string;
+      fontStyle?: string;
+      textTransform?: string;
+      fontVariant?: string;
+      textDecoration?: string;
+      letterSpacing?: string;
+      // Lines shown before an ellipsis
+      maxLines?: number;
     };
     spacing?: {
       padding?: { top?: number; right?: number; bottom?: number; left?: number; };
       margin?: { top?: number; right?: number; bottom?: number; left?: number; };
     };
+    // CSS background layers, top first, when there are gradients or stacked fills
+    backgrounds?: string[];
+    backgroundBlendModes?: string[];
     borders?: {
       width?: number;
+      // Per-side stroke weights
+      widths?: { top: number; right: number; bottom: number; left: number; };
       style?: string;
       color?: string;
-      radius?: number;
+      // One radius, or [topLeft, topRight, bottomRight, bottomLeft]
+      radius?: number | number[];
+      align?: 'INSIDE' | 'OUTSIDE' | 'CENTER';
+      dashes?: number[];
     };
     shadows?: string[];
+    textShadows?: string[];
+    // Figma blur radii
+    blur?: { layer?: number; background?: number; };
+    opacity?: number;
+    blendMode?: string;
     images?: {
       fills?: string[];
       exports?: string[];
     };
+    layout?: AutoLayout;
+    sizing?: LayoutSizing;
   };
 }
 
+export type AxisSizing = 'FIXED' | 'HUG' | 'FILL';
+
+/**
+ * Auto-layout settings of a frame (only present when layoutMode is not NONE)
+ */
+export interface AutoLayout {
+  mode: 'HORIZONTAL' | 'VERTICAL';
+  wrap: boolean;
+  itemSpacing: number;
+  counterAxisSpacing?: number;
+  primaryAxisAlignItems: 'MIN' | 'CENTER' | 'MAX' | 'SPACE_BETWEEN';
+  counterAxisAlignItems: 'MIN' | 'CENTER' | 'MAX' | 'BASELINE';
+  counterAxisAlignContent?: 'AUTO' | 'SPACE_BETWEEN';
+}
+
+/**
+ * How a node sizes itself, resolved against its parent's auto-layout
+ */
+export interface LayoutSizing {
+  horizontal: AxisSizing;
+  vertical: AxisSizing;
+  parentLayoutMode: 'HORIZONTAL' | 'VERTICAL' | 'NONE';
+  layoutGrow?: number;
+  layoutAlign?: string;
+  absolute?: boolean;
+}
+
 export interface DesignTokens {
   colors: string[];
   typography: string[];
@@ -82,62 +219,261 @@ export interface DesignTokens {
   fontFamilies: string[];
   fontSizes: number[];
   fontWeights: number[];
+  // How often each value is used; absent in analyses saved before usage was tracked
+  colorUsage?: ColorUsage[];
+  textStyles?: TextStyleUsage[];
+  spacingUsage?: SpacingUsage[];
+  // Named styles and variables from the file
+  named?: NamedToken[];
+  // Variable collections with more than one mode (e.g. Light and Dark)
+  modes?: TokenModeSet[];
+}
+
+/**
+ * A Figma style or variable with its resolved value
+ */
+export interface NamedToken {
+  // Figma name, e.g. "Primary/500" or "color/brand/primary"
+  name: string;
+  source: 'style' | 'variable';
+  type: 'color' | 'typography' | 'effect' | 'number' | 'string' | 'boolean';
+  // Value in the default mode: hex for colors, px for numbers, TypographyValue for text styles
+  value: any;
+  // Value per mode name, for variables in collections with several modes
+  modes?: { [modeName: string]: any };
+  collection?: string;
+  description?: string;
+}
+
+export interface TypographyValue {
+  fontFamily: string;
+  fontWeight: number;
+  fontSize: number;
+  lineHeightPx?: number;
+  letterSpacing?: number;
 }
 
+export interface TokenModeSet {
+  collection: string;
+  modes: string[];
+  defaultMode: string;
+}
+
+/**
+ * Names of the styles and variables a node's paint and text are bound to
+ */
+export interface NodeTokenRefs {
+  background?: string;
+  text?: string;
+  border?: string;
+  typography?: string;
+  effect?: string;
+}
+
+export interface ColorUsage {
+  hex: string;
+  // Solid fills on non-text layers, with their total area in px²
+  fills: number;
+  fillArea: number;
+  strokes: number;
+  // Solid fills on text layers
+  text: number;
+}
+
+export interface TextStyleUsage {
+  fontFamily: string;
+  fontWeight: number;
+  fontSize: number;
+  lineHeightPx?: number;
+  letterSpacing?: number;
+  // Text layers using the style and the characters they hold
+  count: number;
+  characters: number;
+}
+
+export interface SpacingUsage {
+  value: number;
+  count: number;
+}
+
+/**
+ * An icon-like subtree (vectors only, icon-sized) rendered as one icon instead of its layers
+ */
+export interface FigmaIcon {
+  // Layer or main component name the icon was named after
+  sourceName: string;
+  // Matching @mui/icons-material icon, used instead of the exported SVG
+  muiIcon?: string;
+  // First solid paint in the subtree
+  color?: string;
+  // Exported through the images endpoint as SVG (only when there is no MUI match)
+  svg?: OptimizedSvg;
+}
+
+export interface FigmaUrlInfo {
+  fileKey: string;
+  nodeIds: string[];
+}
+
+export interface FigmaFrameSummary {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  // Small PNG render; temporary Figma URL
+  thumbnailUrl?: string;
+}
+
+export interface FigmaPageFrames {
+  id: string;
+  name: string;
+  frames: FigmaFrameSummary[];
+}
+
+/**
+ * Parse a Figma link or bare file ID.
+ * Supports /file/, /design/ and /proto/ links (including branch links) and the
+ * node-id query param in both the new (12-345) and legacy (12:345) formats.
+ */
+export function parseFigmaUrl(figmaUrlOrId: string): FigmaUrlInfo {
+  const input = figmaUrlOrId.trim();
+
+  // If it's already a file ID (no URL format), return it directly
+  if (!input.includes('/') && input.length > 10) {
+    return { fileKey: input, nodeIds: [] };
+  }
+
+  const match = input.match(/\/(?:file|design|proto)\/([a-zA-Z0-9]+)(?:\/branch\/([a-zA-Z0-9]+))?/);
+  if (!match) {
+    throw new Error('Invalid Figma URL or file ID format');
+  }
+
+  // Branch links carry their own file key which is what the API expects
+  const fileKey = match[2] || match[1];
+
+  const queryIndex = input.indexOf('?');
+  const params = new URLSearchParams(queryIndex >= 0 ? input.slice(queryIndex + 1).split('#')[0] : '');
+  const nodeIdParam = params.get('node-id');
+  const nodeIds = nodeIdParam
+    ? nodeIdParam
+        .split(',')
+        .map(id => id.trim().replace(/-/g, ':'))
+        .filter(id => /^I?\d+:\d+/.test(id))
+    : [];
+
+  return { fileKey, nodeIds };
+}
+
+/**
+ * Link to a single frame of the file a Figma link or file ID points at, keeping any branch
+ */
+export function figmaFrameUrl(figmaUrlOrId: string, nodeId: string): string {
+  const input = figmaUrlOrId.trim();
+  const link = input.includes('/') ? input : `https://www.figma.com/design/${input}`;
+  const url = new URL(/^https?:\/\//.test(link) ? link : `https://${link}`);
+  url.searchParams.set('node-id', nodeId.replace(/:/g, '-'));
+  return url.toString();
+}
+
+/**
+ * Component property values of an instance ("State" -> "Hover", "Has icon" -> "true").
+ * Property names lose Figma's "#id" suffix. Without componentProperties the values are
+ * read from a variant component name such as "Size=Large, State=Hover".
+ */
+export function getComponentProperties(component: ComponentAnalysis): Record<string, string> {
+  const values: Record<string, string> = {};
+
+  Object.entries(component.properties.componentProperties || {}).forEach(([key, property]: [string, any]) => {
+    if (property && property.value !== undefined) {
+      values[key.split('#')[0].trim()] = String(property.value);
+    }
+  });
+
+  const variantName: string = component.properties.mainComponent?.name || '';
+  if (Object.keys(values).length === 0 && variantName.includes('=')) {
+    variantName.split(',').forEach(pair => {
+      const [key, value] = pair.split('=').map(part => part.trim());
+      if (key && value) values[key] = value;
+    });
+  }
+
+  return values;
+}
+
+// Layers that only draw shapes; a small subtree made of these is an icon
+const VECTOR_TYPES = ['VECTOR', 'BOOLEAN_OPERATION', 'STAR', 'LINE', 'REGULAR_POLYGON', 'ELLIPSE', 'RECTANGLE'];
+// Vector layers exported as SVG even on their own
+const STANDALONE_VECTOR_TYPES = ['VECTOR', 'BOOLEAN_OPERATION', 'STAR', 'REGULAR_POLYGON'];
+const ICON_CONTAINER_TYPES = ['INSTANCE', 'COMPONENT', 'FRAME', 'GROUP'];
+// Vector-only containers up to this size (px) are icons
+const ICON_MAX_SIZE = 64;
+
+// Frame requests per images call when rendering thumbnails
+const THUMBNAIL_BATCH_SIZE = 50;
+
+interface SharedFileImport {
+  nodeIds: string[];
+  fileData: FigmaFile;
+  tokenSources: {
+    variables?: FigmaLocalVariables;
+    styleNodes: FigmaNode[];
+    publishedStyles: FigmaPublishedStyle[];
+  };
+  designTokens: DesignTokens;
+}
+
+// Files fetched once for a multi-frame import, reused by the analysis of each frame.
+// Keyed by token and file key; entries expire so later imports see fresh data.
+const sharedImports = new Map<string, { nodeIds: string[]; expiresAt: number; data: Promise<SharedFileImport> }>();
+const SHARED_IMPORT_TTL_MS = 10 * 60 * 1000;
+
 class FigmaService {
   private baseUrl = 'https://api.figma.com/v1';
   private accessToken: string;
+  private http: HttpClient;
 
   constructor(accessToken: string) {
     this.accessToken = accessToken;
-  }
-
-  private async makeRequest(endpoint: string): Promise<any> {
-    console.log(`Making Figma API request to: ${this.baseUrl}${endpoint}`);
-    
-    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+    this.http = new HttpClient({
+      service: 'Figma',
+      baseUrl: this.baseUrl,
       headers: {
         'X-Figma-Token': this.accessToken,
       },
+      limiterKey: this.accessToken,
+      maxConcurrent: 4,
     });
+  }
 
-    console.log(`Figma API response status: ${response.status}`);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Figma API error response:', errorText);
-      throw new Error(`Figma API error: ${response.status} ${response.statusText}. ${errorText}`);
-    }
-
-    const data = await response.json();
+  private async makeRequest(endpoint: string, signal?: AbortSignal): Promise<any> {
+    console.log(`Making Figma API request to: ${this.baseUrl}${endpoint}`);
+    
+    const data = await this.http.request(endpoint, { signal });
     console.log('Figma API response data keys:', Object.keys(data));
     return data;
   }
 
   /**
    * Extract file key from Figma URL or return file ID if already provided
-   * URL format: https://www.figma.com/file/{file-key}/title
+   * URL format: https://www.figma.com/{file|design|proto}/{file-key}/title
    * Or just the file ID: CbS1cPHwdvmOJfPJFzKodU
    */
   extractFileKey(figmaUrlOrId: string): string {
-    // If it's already a file ID (no URL format), return it directly
-    if (!figmaUrlOrId.includes('/') && figmaUrlOrId.length > 10) {
-      return figmaUrlOrId;
-    }
-    
-    // Otherwise, extract from URL
-    const match = figmaUrlOrId.match(/\/file\/([a-zA-Z0-9-_]+)/);
-    if (!match) {
-      throw new Error('Invalid Figma URL or file ID format');
-    }
-    return match[1];
+    return parseFigmaUrl(figmaUrlOrId).fileKey;
+  }
+
+  /**
+   * Parse a Figma URL or file ID into the file key and any selected node IDs
+   */
+  parseFigmaUrl(figmaUrlOrId: string): FigmaUrlInfo {
+    return parseFigmaUrl(figmaUrlOrId);
   }
 
   /**
    * Fetch file data from Figma API
    * Based on: https://www.figma.com/developers/api#get-files-endpoint
    */
-  async getFile(fileKey: string, nodeIds?: string[]): Promise<FigmaFile> {
+  async getFile(fileKey: string, nodeIds?: string[], signal?: AbortSignal): Promise<FigmaFile> {
     let endpoint = `/files/${fileKey}`;
     
     if (nodeIds && nodeIds.length > 0) {
@@ -147,7 +483,7 @@ class FigmaService {
       endpoint += `?${params}`;
     }
 
-    const data = await this.makeRequest(endpoint);
+    const data = await this.makeRequest(endpoint, signal);
     return data as FigmaFile;
   }
 
@@ -162,6 +498,7 @@ class FigmaService {
       format?: 'jpg' | 'png' | 'svg' | 'pdf';
       scale?: number;
       use_absolute_bounds?: boolean;
+      signal?: AbortSignal;
     } = {}
   ): Promise<{ [nodeId: string]: string }> {
     const params = new URLSearchParams({
@@ -175,18 +512,214 @@ class FigmaService {
     }
 
     const endpoint = `/images/${fileKey}?${params}`;
-    const data = await this.makeRequest(endpoint);
+    const data = await this.makeRequest(endpoint, options.signal);
     
     return data.images;
   }
 
+  /**
+   * Styles published from the file
+   * Based on: https://www.figma.com/developers/api#get-file-styles-endpoint
+   */
+  async getFileStyles(fileKey: string, signal?: AbortSignal): Promise<FigmaPublishedStyle[]> {
+    const data = await this.makeRequest(`/files/${fileKey}/styles`, signal);
+    return (data.meta?.styles || []).map((style: any) => ({
+      key: style.key,
+      nodeId: style.node_id,
+      name: style.name,
+      styleType: style.style_type,
+      description: style.description || undefined
+    }));
+  }
+
+  /**
+   * Local variables and their collections (modes). Requires the file_variables:read scope,
+   * which Figma only grants on Enterprise plans.
+   * Based on: https://www.figma.com/developers/api#get-local-variables-endpoint
+   */
+  async getLocalVariables(fileKey: string, signal?: AbortSignal): Promise<FigmaLocalVariables> {
+    const data = await this.makeRequest(`/files/${fileKey}/variables/local`, signal);
+    return {
+      variables: data.meta?.variables || {},
+      variableCollections: data.meta?.variableCollections || {}
+    };
+  }
+
+  /**
+   * Identifies the token without revealing it, for cache keys: results fetched with one token
+   * are not handed to a caller holding another
+   */
+  async describeAccess(): Promise<{ tokenHash: string }> {
+    return { tokenHash: await sha256Hex(`figma-token:${this.accessToken}`) };
+  }
+
+  /**
+   * Current version of a file, without its document tree. Every saved change to the file
+   * produces a new version.
+   */
+  async getFileVersion(fileKey: string, signal?: AbortSignal): Promise<{ version: string; lastModified: string }> {
+    const data = await this.makeRequest(`/files/${fileKey}?depth=1`, signal);
+    return { version: data.version, lastModified: data.lastModified };
+  }
+
+  /**
+   * Fetch specific nodes (and their subtrees) from a file
+   * Based on: https://www.figma.com/developers/api#get-file-nodes-endpoint
+   */
+  async getFileNodes(fileKey: string, nodeIds: string[], signal?: AbortSignal): Promise<{ [nodeId: string]: FigmaNode }> {
+    const params = new URLSearchParams({ ids: nodeIds.join(',') });
+    const data = await this.makeRequest(`/files/${fileKey}/nodes?${params}`, signal);
+    const nodes: { [nodeId: string]: FigmaNode } = {};
+    Object.entries(data.nodes || {}).forEach(([id, entry]: [string, any]) => {
+      if (entry?.document) nodes[id] = entry.document;
+    });
+    return nodes;
+  }
+
+  /**
+   * Pages of a file and the screen-sized frames on them (directly or inside sections),
+   * with small thumbnails for picking which frames to import
+   */
+  async getPageFrames(fileKey: string, signal?: AbortSignal): Promise<FigmaPageFrames[]> {
+    const file: FigmaFile = await this.makeRequest(`/files/${fileKey}?depth=3`, signal);
+
+    const pages: FigmaPageFrames[] = (file.document.children || [])
+      .filter(page => page.type === 'CANVAS')
+      .map(page => ({
+        id: page.id,
+        name: page.name,
+        frames: (page.children || [])
+          .flatMap(node => (node.type === 'SECTION' ? node.children || [] : [node]))
+          .filter(node => this.isScreenFrame(node))
+          .map(node => ({
+            id: node.id,
+            name: node.name,
+            width: Math.round(node.absoluteBoundingBox!.width),
+            height: Math.round(node.absoluteBoundingBox!.height)
+          }))
+      }));
+
+    const frames = pages.flatMap(page => page.frames);
+    const batches: FigmaFrameSummary[][] = [];
+    for (let index = 0; index < frames.length; index += THUMBNAIL_BATCH_SIZE) {
+      batches.push(frames.slice(index, index + THUMBNAIL_BATCH_SIZE));
+    }
+
+    try {
+      await Promise.all(batches.map(async batch => {
+        const thumbnails = await this.getImages(fileKey, batch.map(frame => frame.id), { format: 'png', scale: 0.25, signal });
+        batch.forEach(frame => {
+          if (thumbnails[frame.id]) frame.thumbnailUrl = thumbnails[frame.id];
+        });
+      }));
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.warn('⚠️ [FIGMA SERVICE] Frame thumbnails unavailable:', error);
+    }
+
+    console.log('🗂️ [FIGMA SERVICE] Pages and frames listed:', pages.map(page => `${page.name} (${page.frames.length})`));
+    return pages;
+  }
+
+  /**
+   * Fetch the file and its token sources once for several frames. Later analyzeFileWithAssets
+   * calls for any of those frames, from any FigmaService with the same token, reuse the result,
+   * so design tokens are extracted once for the whole selection.
+   */
+  async prepareFrameImport(fileKey: string, nodeIds: string[], signal?: AbortSignal): Promise<void> {
+    const key = this.sharedImportKey(fileKey);
+    const data = (async (): Promise<SharedFileImport> => {
+      const fileData = await this.getFile(fileKey, nodeIds, signal);
+      const scoped = this.scopeFileToNodes(fileData, nodeIds);
+      const tokenSources = await this.fetchTokenSources(fileKey, scoped, signal);
+      if (tokenSources.variables) {
+        fileData.variables = tokenSources.variables;
+        scoped.variables = tokenSources.variables;
+      }
+      const designTokens = this.extractDesignTokens(scoped, tokenSources.styleNodes, tokenSources.publishedStyles);
+      return { nodeIds, fileData, tokenSources, designTokens };
+    })();
+
+    const entry = { nodeIds, expiresAt: Date.now() + SHARED_IMPORT_TTL_MS, data };
+    sharedImports.set(key, entry);
+    try {
+      await data;
+      console.log('📦 [FIGMA SERVICE] Prepared shared import:', { fileKey, frames: nodeIds.length });
+    } catch (error) {
+      if (sharedImports.get(key) === entry) sharedImports.delete(key);
+      throw error;
+    }
+  }
+
+  /**
+   * A prepared import covering every requested node, if there is one
+   */
+  private async findSharedImport(fileKey: string, nodeIds: string[]): Promise<SharedFileImport | undefined> {
+    const entry = sharedImports.get(this.sharedImportKey(fileKey));
+    if (!entry || nodeIds.length === 0 || entry.expiresAt < Date.now()) return undefined;
+    if (!nodeIds.every(id => entry.nodeIds.includes(id))) return undefined;
+
+    try {
+      const shared = await entry.data;
+      console.log('♻️ [FIGMA SERVICE] Reusing shared file fetch and design tokens for', nodeIds.join(', '));
+      return shared;
+    } catch {
+      // The preparation failed; fetch the frame on its own
+      return undefined;
+    }
+  }
+
+  private sharedImportKey(fileKey: string): string {
+    return `${this.accessToken}:${fileKey}`;
+  }
+
+  /**
+   * Styles and variables are optional extras: a missing scope or plan must not fail the import
+   */
+  private async fetchTokenSources(fileKey: string, fileData: FigmaFile, signal?: AbortSignal): Promise<{
+    variables?: FigmaLocalVariables;
+    styleNodes: FigmaNode[];
+    publishedStyles: FigmaPublishedStyle[];
+  }> {
+    const optional = async <T>(label: string, request: Promise<T>): Promise<T | undefined> => {
+      try {
+        return await request;
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.warn(`⚠️ [FIGMA SERVICE] ${label} unavailable:`, error instanceof Error ? error.message : error);
+        return undefined;
+      }
+    };
+
+    const [publishedStyles = [], variables] = await Promise.all([
+      optional('Published styles', this.getFileStyles(fileKey, signal)),
+      optional('Local variables', this.getLocalVariables(fileKey, signal))
+    ]);
+
+    // Published styles the scanned nodes don't use still need their values
+    const usedStyleKeys = new Set(Object.values(fileData.styles || {}).map(style => style.key));
+    const missing = publishedStyles.filter(style =>
+      (style.styleType === 'FILL' || style.styleType === 'TEXT') && !usedStyleKeys.has(style.key));
+    const styleNodes = missing.length > 0
+      ? Object.values(await optional('Style nodes', this.getFileNodes(fileKey, missing.map(style => style.nodeId), signal)) || {})
+      : [];
+
+    console.log('🏷️ [FIGMA SERVICE] Token sources:', {
+      publishedStyles: publishedStyles.length,
+      variables: Object.keys(variables?.variables || {}).length,
+      styleNodes: styleNodes.length
+    });
+
+    return { variables, styleNodes, publishedStyles };
+  }
+
   /**
    * Analyze Figma file structure and extract meaningful components
    */
   analyzeFileStructure(figmaFile: FigmaFile): ComponentAnalysis[] {
     const components: ComponentAnalysis[] = [];
 
-    const traverseNode = (node: FigmaNode, depth = 0) => {
+    const traverseNode = (node: FigmaNode, depth = 0, parent?: FigmaNode, parentId?: string) => {
       // Skip certain node types that aren't UI components
       if (['DOCUMENT', 'CANVAS', 'SLICE'].includes(node.type)) {
         if (node.children) {
@@ -201,6 +734,7 @@ class FigmaService {
           id: node.id,
           name: node.name,
           type: node.type,
+          parentId,
           bounds: {
             x: node.absoluteBoundingBox.x,
             y: node.absoluteBoundingBox.y,
@@ -209,23 +743,43 @@ class FigmaService {
           },
           properties: {
             visible: node.visible !== false,
-            opacity: node.opacity || 1,
+            opacity: node.opacity ?? 1,
             backgroundColor: node.backgroundColor,
             fills: node.fills,
             strokes: node.strokes,
             effects: node.effects,
             cornerRadius: node.cornerRadius,
+            // Prototype links make a node clickable in the design
+            hasInteractions: (node.interactions?.length || 0) > 0 || !!node.transitionNodeID,
             // Add more properties as needed
-            ...this.extractSpecificProperties(node)
+            ...this.extractSpecificProperties(node, parent)
           }
         };
 
+        if (node.type === 'INSTANCE' && node.componentId) {
+          component.properties.mainComponent = this.resolveMainComponent(figmaFile, node.componentId);
+        }
+
+        const tokenRefs = this.resolveNodeTokenRefs(figmaFile, node);
+        if (Object.keys(tokenRefs).length > 0) {
+          component.properties.tokenRefs = tokenRefs;
+        }
+
         components.push(component);
+
+        // An icon is one component; its vector layers are not analyzed on their own
+        if (this.isIconNode(node)) {
+          const sourceName = component.properties.mainComponent?.setName || component.properties.mainComponent?.name || node.name;
+          const icon: FigmaIcon = { sourceName, muiIcon: matchMuiIcon(sourceName), color: this.findIconColor(node) };
+          component.properties.icon = icon;
+          return;
+        }
       }
 
       // Recursively traverse children
       if (node.children) {
-        node.children.forEach(child => traverseNode(child, depth + 1));
+        const childParentId = node.absoluteBoundingBox ? node.id : parentId;
+        node.children.forEach(child => traverseNode(child, depth + 1, node, childParentId));
       }
     };
 
@@ -236,44 +790,135 @@ class FigmaService {
     return components;
   }
 
+  /**
+   * Standalone vectors, and small containers whose visible layers are all vectors
+   */
+  private isIconNode(node: FigmaNode): boolean {
+    if (STANDALONE_VECTOR_TYPES.includes(node.type)) return true;
+    if (!ICON_CONTAINER_TYPES.includes(node.type) || !node.children?.length) return false;
+
+    const bounds = node.absoluteBoundingBox;
+    if (!bounds || bounds.width > ICON_MAX_SIZE || bounds.height > ICON_MAX_SIZE) return false;
+
+    let hasVector = false;
+    const onlyVectors = (child: FigmaNode): boolean => {
+      if (child.visible === false) return true;
+      if ((child.fills || []).some(fill => fill.type === 'IMAGE' && isVisiblePaint(fill))) return false;
+      if (VECTOR_TYPES.includes(child.type)) {
+        if (child.type !== 'RECTANGLE' && child.type !== 'ELLIPSE') hasVector = true;
+        return true;
+      }
+      return (child.type === 'GROUP' || child.type === 'FRAME' || child.type === 'INSTANCE') &&
+        (child.children || []).every(onlyVectors);
+    };
+
+    return node.children.every(onlyVectors) && hasVector;
+  }
+
+  /**
+   * First visible solid fill or stroke among an icon's layers
+   */
+  private findIconColor(node: FigmaNode): string | undefined {
+    const paint = [...(node.fills || []), ...(node.strokes || [])]
+      .filter(isVisiblePaint).find(isSolidPaint);
+    if (paint && node.type !== 'FRAME' && node.type !== 'INSTANCE' && node.type !== 'COMPONENT') {
+      return paintColorToCss(paint.color, paint.opacity ?? 1);
+    }
+    for (const child of node.children || []) {
+      if (child.visible === false) continue;
+      const color = this.findIconColor(child);
+      if (color) return color;
+    }
+    return undefined;
+  }
+
+  /**
+   * Name and key of an instance's main component and of the set it belongs to
+   */
+  private resolveMainComponent(figmaFile: FigmaFile, componentId: string) {
+    const meta = figmaFile.components?.[componentId];
+    if (!meta) return undefined;
+
+    const set = meta.componentSetId ? figmaFile.componentSets?.[meta.componentSetId] : undefined;
+    return {
+      key: meta.key,
+      name: meta.name,
+      setKey: set?.key,
+      setName: set?.name
+    };
+  }
+
+  /**
+   * Styles and variables bound to a node. Variables win over styles, as in Figma.
+   */
+  private resolveNodeTokenRefs(figmaFile: FigmaFile, node: FigmaNode): NodeTokenRefs {
+    const refs: NodeTokenRefs = {};
+    const styleName = (styleId?: string) => (styleId ? figmaFile.styles?.[styleId]?.name : undefined);
+    const variableName = (alias?: FigmaVariableAlias) => (alias?.id ? figmaFile.variables?.variables[alias.id]?.name : undefined);
+
+    const fillRef = variableName(node.fills?.[0]?.boundVariables?.color || node.boundVariables?.fills?.[0]) ||
+      styleName(node.styles?.fill);
+    const strokeRef = variableName(node.strokes?.[0]?.boundVariables?.color || node.boundVariables?.strokes?.[0]) ||
+      styleName(node.styles?.stroke);
+
+    if (fillRef && node.fills?.[0]?.type === 'SOLID') {
+      refs.background = fillRef;
+      if (node.type === 'TEXT') refs.text = fillRef;
+    }
+    if (strokeRef && node.strokes?.[0]?.color) refs.border = strokeRef;
+    if (node.type === 'TEXT' && styleName(node.styles?.text)) refs.typography = styleName(node.styles?.text);
+    if (styleName(node.styles?.effect)) refs.effect = styleName(node.styles?.effect);
+
+    return refs;
+  }
+
   /**
    * Extract type-specific properties from Figma nodes
    */
-  private extractSpecificProperties(node: FigmaNode): Record<string, any> {
+  private extractSpecificProperties(node: FigmaNode, parent?: FigmaNode): Record<string, any> {
     const properties: Record<string, any> = {};
 
     // Enhanced styling extraction
     const styling: any = {};
 
+    // Hidden paints and effects are ignored everywhere below
+    const fills = (node.fills || []).filter(isVisiblePaint);
+    const strokes = (node.strokes || []).filter(isVisiblePaint);
+    const effects = (node.effects || []).filter(isVisiblePaint);
+
     // Colors
-    if (node.fills || node.strokes || node.backgroundColor) {
+    if (fills.length > 0 || strokes.length > 0 || node.backgroundColor) {
       styling.colors = {};
       
       if (node.backgroundColor && typeof node.backgroundColor === 'object' && 'r' in node.backgroundColor) {
-        styling.colors.background = this.rgbToHex(
-          (node.backgroundColor as any).r, 
-          (node.backgroundColor as any).g, 
-          (node.backgroundColor as any).b
-        );
+        styling.colors.background = paintColorToCss(node.backgroundColor as any);
       }
       
-      if (node.fills && node.fills.length > 0) {
-        const fill = node.fills[0];
-        if (fill.type === 'SOLID' && fill.color) {
-          styling.colors.background = this.rgbToHex(fill.color.r, fill.color.g, fill.color.b);
-        }
-        if (fill.type === 'IMAGE') {
-          styling.images = styling.images || {};
-          styling.images.fills = styling.images.fills || [];
-          styling.images.fills.push(fill.imageRef);
+      // A text layer's fill colors its glyphs, not its box
+      const solidFill = fills.find(isSolidPaint);
+      if (solidFill && node.type !== 'TEXT') {
+        styling.colors.background = paintColorToCss(solidFill.color, solidFill.opacity ?? 1);
+      }
+
+      const imageFills = fills.filter(fill => fill.type === 'IMAGE');
+      if (imageFills.length > 0) {
+        styling.images = styling.images || {};
+        styling.images.fills = imageFills.map(fill => fill.imageRef);
+      }
+
+      // Gradients and stacked fills become layered CSS backgrounds
+      if (node.type !== 'TEXT' && node.absoluteBoundingBox) {
+        const backgrounds = paintsToBackgroundLayers(fills, node.absoluteBoundingBox);
+        if (backgrounds.length > 1 || backgrounds.some(layer => layer.includes('gradient('))) {
+          styling.backgrounds = backgrounds;
+          const blendModes = paintsToBlendModes(fills, node.absoluteBoundingBox);
+          if (blendModes.length > 0) styling.backgroundBlendModes = blendModes;
         }
       }
       
-      if (node.strokes && node.strokes.length > 0) {
-        const stroke = node.strokes[0];
-        if (stroke.color) {
-          styling.colors.border = this.rgbToHex(stroke.color.r, stroke.color.g, stroke.color.b);
-        }
+      const solidStroke = strokes.find(isSolidPaint);
+      if (solidStroke) {
+        styling.colors.border = paintColorToCss(solidStroke.color, solidStroke.opacity ?? 1);
       }
     }
 
@@ -284,16 +929,23 @@ class FigmaService {
         fontSize: node.style.fontSize,
         fontWeight: node.style.fontWeight,
         lineHeight: node.style.lineHeightPx ? `${node.style.lineHeightPx}px` : 'normal',
-        textAlign: node.style.textAlignHorizontal?.toLowerCase() || 'left'
+        textAlign: node.style.textAlignHorizontal === 'JUSTIFIED' ? 'justify' : node.style.textAlignHorizontal?.toLowerCase() || 'left',
+        // Italics, text case, decoration and letter spacing as CSS
+        ...typeStyleExtrasToCss(node.style)
       };
+
+      // Truncated text keeps as many lines as Figma shows, or as fit the box
+      if (node.style.textTruncation === 'ENDING') {
+        const fitLines = node.style.lineHeightPx && node.absoluteBoundingBox
+          ? Math.floor(node.absoluteBoundingBox.height / node.style.lineHeightPx)
+          : 1;
+        styling.typography.maxLines = Math.max(1, node.style.maxLines || fitLines);
+      }
       
-      if (node.fills && node.fills[0]?.color) {
+      const textFill = fills.find(isSolidPaint);
+      if (textFill) {
         styling.colors = styling.colors || {};
-        styling.colors.text = this.rgbToHex(
-          node.fills[0].color.r,
-          node.fills[0].color.g,
-          node.fills[0].color.b
-        );
+        styling.colors.text = paintColorToCss(textFill.color, textFill.opacity ?? 1);
       }
     }
 
@@ -309,32 +961,68 @@ class FigmaService {
       };
     }
 
-    // Borders
-    if (node.cornerRadius || node.strokes) {
+    // Borders: per-corner radii, stroke weight (per side when set), alignment and dashes
+    const cornerRadii: number[] | undefined = node.rectangleCornerRadii;
+    const hasCornerRadii = !!cornerRadii && cornerRadii.some(radius => radius !== cornerRadii[0]);
+    const uniformRadius = node.cornerRadius || cornerRadii?.[0];
+    if (uniformRadius || hasCornerRadii || strokes.length > 0) {
       styling.borders = {};
-      if (node.cornerRadius) {
-        styling.borders.radius = node.cornerRadius;
+      if (hasCornerRadii) {
+        styling.borders.radius = cornerRadii;
+      } else if (uniformRadius) {
+        styling.borders.radius = uniformRadius;
+      }
+      if (strokes.length > 0 && (node.strokeWeight ?? 1) > 0) {
+        const width = node.strokeWeight ?? 1;
+        const dashes: number[] = node.strokeDashes || [];
+        styling.borders.width = width;
+        styling.borders.align = node.strokeAlign || 'INSIDE';
+        styling.borders.style = dashes.length === 0 ? 'solid' : dashes[0] <= width ? 'dotted' : 'dashed';
+        if (dashes.length > 0) styling.borders.dashes = dashes;
+        if (node.individualStrokeWeights) {
+          const { top, right, bottom, left } = node.individualStrokeWeights;
+          styling.borders.widths = { top, right, bottom, left };
+        }
+      }
+    }
+
+    // Effects: drop and inner shadows (text shadows on text layers), layer and background blur
+    if (effects.length > 0) {
+      const isText = node.type === 'TEXT';
+      const shadows = effects
+        .map(effect => shadowToCss(effect, isText))
+        .filter((shadow): shadow is string => !!shadow);
+      if (shadows.length > 0) {
+        if (isText) styling.textShadows = shadows;
+        else styling.shadows = shadows;
       }
-      if (node.strokes && node.strokes.length > 0) {
-        const stroke = node.strokes[0];
-        styling.borders.width = stroke.strokeWeight || 1;
-        styling.borders.style = 'solid';
+
+      const layerBlur = effects.find(effect => effect.type === 'LAYER_BLUR');
+      const backgroundBlur = effects.find(effect => effect.type === 'BACKGROUND_BLUR');
+      if (layerBlur || backgroundBlur) {
+        styling.blur = {
+          ...(layerBlur ? { layer: layerBlur.radius || 0 } : {}),
+          ...(backgroundBlur ? { background: backgroundBlur.radius || 0 } : {})
+        };
       }
     }
 
-    // Effects (shadows)
-    if (node.effects && node.effects.length > 0) {
-      styling.shadows = node.effects.map((effect: any) => {
-        if (effect.type === 'DROP_SHADOW') {
-          const color = effect.color ? 
-            `rgba(${Math.round(effect.color.r * 255)}, ${Math.round(effect.color.g * 255)}, ${Math.round(effect.color.b * 255)}, ${effect.color.a})` 
-            : 'rgba(0,0,0,0.1)';
-          return `${effect.offset?.x || 0}px ${effect.offset?.y || 0}px ${effect.radius || 0}px ${color}`;
-        }
-        return null;
-      }).filter(Boolean);
+    // Layer opacity and blend mode
+    if ((node.opacity ?? 1) < 1) {
+      styling.opacity = node.opacity;
+    }
+    const blendMode = figmaBlendModeToCss(node.blendMode);
+    if (blendMode) {
+      styling.blendMode = blendMode;
     }
 
+    // Auto-layout (flexbox) and sizing relative to the parent
+    const layout = this.extractAutoLayout(node);
+    if (layout) {
+      styling.layout = layout;
+    }
+    styling.sizing = this.extractLayoutSizing(node, parent);
+
     properties.styling = styling;
 
     // Original type-specific properties
@@ -343,6 +1031,9 @@ class FigmaService {
         properties.characters = node.characters;
         properties.style = node.style;
         properties.characterStyleOverrides = node.characterStyleOverrides;
+        properties.styleOverrideTable = node.styleOverrideTable;
+        // Mixed styles, links, paragraphs and lists
+        properties.richText = buildRichText(node, styling.colors?.text);
         break;
       
       case 'RECTANGLE':
@@ -363,6 +1054,8 @@ class FigmaService {
 
       case 'COMPONENT':
       case 'INSTANCE':
+        properties.layoutMode = node.layoutMode;
+        properties.itemSpacing = node.itemSpacing;
         properties.componentId = node.componentId;
         properties.componentProperties = node.componentProperties;
         break;
@@ -371,6 +1064,80 @@ class FigmaService {
     return properties;
   }
 
+  /**
+   * Extract auto-layout settings for frames, components and instances
+   */
+  private extractAutoLayout(node: FigmaNode): AutoLayout | undefined {
+    if (node.layoutMode !== 'HORIZONTAL' && node.layoutMode !== 'VERTICAL') {
+      return undefined;
+    }
+
+    return {
+      mode: node.layoutMode,
+      wrap: node.layoutWrap === 'WRAP',
+      itemSpacing: node.itemSpacing || 0,
+      counterAxisSpacing: node.counterAxisSpacing,
+      primaryAxisAlignItems: node.primaryAxisAlignItems || 'MIN',
+      counterAxisAlignItems: node.counterAxisAlignItems || 'MIN',
+      counterAxisAlignContent: node.counterAxisAlignContent
+    };
+  }
+
+  /**
+   * Resolve hug/fill/fixed sizing on both axes.
+   * Newer files expose layoutSizingHorizontal/Vertical directly; older ones
+   * only have the axis sizing modes plus layoutGrow/layoutAlign, so we derive it.
+   */
+  private extractLayoutSizing(node: FigmaNode, parent?: FigmaNode): LayoutSizing {
+    const parentLayoutMode: LayoutSizing['parentLayoutMode'] =
+      parent?.layoutMode === 'HORIZONTAL' || parent?.layoutMode === 'VERTICAL' ? parent.layoutMode : 'NONE';
+
+    let horizontal: AxisSizing = 'FIXED';
+    let vertical: AxisSizing = 'FIXED';
+
+    // Hugging from the node's own auto-layout or text auto-resize
+    if (node.layoutMode === 'HORIZONTAL' || node.layoutMode === 'VERTICAL') {
+      const primaryHug = node.primaryAxisSizingMode === 'AUTO';
+      const counterHug = node.counterAxisSizingMode === 'AUTO';
+      if (node.layoutMode === 'HORIZONTAL') {
+        horizontal = primaryHug ? 'HUG' : 'FIXED';
+        vertical = counterHug ? 'HUG' : 'FIXED';
+      } else {
+        vertical = primaryHug ? 'HUG' : 'FIXED';
+        horizontal = counterHug ? 'HUG' : 'FIXED';
+      }
+    } else if (node.type === 'TEXT') {
+      if (node.style?.textAutoResize === 'WIDTH_AND_HEIGHT') {
+        horizontal = 'HUG';
+        vertical = 'HUG';
+      } else if (node.style?.textAutoResize === 'HEIGHT') {
+        vertical = 'HUG';
+      }
+    }
+
+    // Filling from the parent's auto-layout
+    if (parentLayoutMode !== 'NONE') {
+      const fillsPrimary = (node.layoutGrow || 0) > 0;
+      const fillsCounter = node.layoutAlign === 'STRETCH';
+      if (parentLayoutMode === 'HORIZONTAL') {
+        if (fillsPrimary) horizontal = 'FILL';
+        if (fillsCounter) vertical = 'FILL';
+      } else {
+        if (fillsPrimary) vertical = 'FILL';
+        if (fillsCounter) horizontal = 'FILL';
+      }
+    }
+
+    return {
+      horizontal: node.layoutSizingHorizontal || horizontal,
+      vertical: node.layoutSizingVertical || vertical,
+      parentLayoutMode,
+      layoutGrow: node.layoutGrow,
+      layoutAlign: node.layoutAlign,
+      absolute: node.layoutPositioning === 'ABSOLUTE'
+    };
+  }
+
   /**
    * Get main artboard/frame nodes for image export
    */
@@ -379,16 +1146,10 @@ class FigmaService {
 
     const traverseNode = (node: FigmaNode, depth = 0) => {
       // Look for FRAME nodes that could be screens/artboards
-      if (node.type === 'FRAME' && node.absoluteBoundingBox) {
-        // Filter out tiny frames (likely components) and internal frames
-        const { width, height } = node.absoluteBoundingBox;
-        const isLargeEnough = width > 200 && height > 200;
-        const isNotInternalFrame = !node.name.startsWith('_') && !node.name.startsWith('.');
-        
-        if (isLargeEnough && isNotInternalFrame) {
-          frameIds.push(node.id);
-          console.log(`Found main frame: ${node.name} (${width}×${height})`);
-        }
+      if (this.isScreenFrame(node)) {
+        const { width, height } = node.absoluteBoundingBox!;
+        frameIds.push(node.id);
+        console.log(`Found main frame: ${node.name} (${width}×${height})`);
       }
       
       // Traverse all children, not just CANVAS children
@@ -420,18 +1181,40 @@ class FigmaService {
     return frameIds;
   }
 
+  /**
+   * Frames that could be screens/artboards: tiny frames (likely components) and
+   * internal frames are filtered out
+   */
+  private isScreenFrame(node: FigmaNode): boolean {
+    if (node.type !== 'FRAME' || !node.absoluteBoundingBox) return false;
+    const { width, height } = node.absoluteBoundingBox;
+    const isLargeEnough = width > 200 && height > 200;
+    const isNotInternalFrame = !node.name.startsWith('_') && !node.name.startsWith('.');
+    return isLargeEnough && isNotInternalFrame;
+  }
+
   /**
    * Enhanced analysis with comprehensive styling data
    */
-  async analyzeFileWithAssets(fileKey: string): Promise<FigmaAnalysisResult & { 
+  async analyzeFileWithAssets(fileKey: string, nodeIds: string[] = [], signal?: AbortSignal): Promise<FigmaAnalysisResult & { 
     designTokens: DesignTokens;
     assetUrls: { [nodeId: string]: string };
   }> {
-    console.log('🎨 [FIGMA SERVICE] Starting enhanced analysis for fileKey:', fileKey);
+    console.log('🎨 [FIGMA SERVICE] Starting enhanced analysis for fileKey:', fileKey, nodeIds.length > 0 ? `(nodes: ${nodeIds.join(', ')})` : '');
     
-    // Get file data
-    const fileData = await this.getFile(fileKey);
+    // Frames picked together in a multi-frame import share one file fetch and token extraction
+    const shared = await this.findSharedImport(fileKey, nodeIds);
+
+    // Get file data, scoped to the selected nodes when the link points at a frame
+    const rawFileData = shared ? shared.fileData : await this.getFile(fileKey, nodeIds, signal);
+    const fileData = nodeIds.length > 0 ? this.scopeFileToNodes(rawFileData, nodeIds) : rawFileData;
     console.log('📄 [FIGMA SERVICE] File data fetched:', fileData.name);
+
+    // Named styles and variables, so nodes can be resolved to tokens
+    const tokenSources = shared ? shared.tokenSources : await this.fetchTokenSources(fileKey, fileData, signal);
+    if (tokenSources.variables) {
+      fileData.variables = tokenSources.variables;
+    }
     
     // Analyze components with enhanced styling
     const components = this.analyzeFileStructure(fileData);
@@ -443,11 +1226,13 @@ class FigmaService {
     })));
     
     // Extract design tokens (colors, typography, spacing)
-    const designTokens = this.extractDesignTokens(fileData);
+    const designTokens = shared
+      ? structuredClone(shared.designTokens)
+      : this.extractDesignTokens(fileData, tokenSources.styleNodes, tokenSources.publishedStyles);
     console.log('🎨 [FIGMA SERVICE] Design tokens extracted:', designTokens);
     
-    // Get main frames for screenshot
-    const mainFrames = this.getMainFrames(fileData);
+    // Get main frames for screenshot (the selected nodes take precedence)
+    const mainFrames = nodeIds.length > 0 ? nodeIds : this.getMainFrames(fileData);
     console.log('🖼️ [FIGMA SERVICE] Main frames found:', mainFrames.length);
     
     // Export main screen image
@@ -456,15 +1241,20 @@ class FigmaService {
       const images = await this.getImages(fileKey, [mainFrames[0]], {
         format: 'png',
         scale: 2,
-        use_absolute_bounds: true
+        use_absolute_bounds: true,
+        signal
       });
       imageUrl = Object.values(images)[0] || '';
       console.log('📸 [FIGMA SERVICE] Image URL obtained:', imageUrl ? '✅ Success' : '❌ Failed');
     }
     
     // Download all image assets
-    const assetUrls = await this.downloadImageAssets(fileKey, components);
+    const assetUrls = await this.downloadImageAssets(fileKey, components, signal);
     console.log('🖼️ [FIGMA SERVICE] Asset URLs downloaded:', Object.keys(assetUrls).length);
+
+    // Icons become SVG components unless Material-UI has a matching icon
+    const iconSvgs = await this.downloadIconSvgs(fileKey, components, signal);
+    console.log('🔣 [FIGMA SERVICE] Icons exported as SVG:', iconSvgs);
     
     const result = {
       fileData,
@@ -483,10 +1273,69 @@ class FigmaService {
     return result;
   }
 
+  /**
+   * Analyze a file saved from the API (GET /v1/files/:key) without any requests. Exports
+   * are not available, so there is no screen image or asset URLs, and design tokens come
+   * from the styles and variables the export carries.
+   */
+  analyzeLocalFile(figmaFile: FigmaFile, nodeIds: string[] = []): FigmaAnalysisResult & {
+    designTokens: DesignTokens;
+    assetUrls: { [nodeId: string]: string };
+  } {
+    const fileData = nodeIds.length > 0 ? this.scopeFileToNodes(figmaFile, nodeIds) : figmaFile;
+    const components = this.analyzeFileStructure(fileData);
+    const designTokens = this.extractDesignTokens(fileData);
+
+    console.log('📂 [FIGMA SERVICE] Local file analyzed:', {
+      name: fileData.name,
+      components: components.length,
+      designTokensColors: designTokens.colors.length
+    });
+
+    return { fileData, imageUrl: '', components, designTokens, assetUrls: {} };
+  }
+
+  /**
+   * Narrow a file fetched with `ids` down to the requested nodes.
+   * The API also returns every ancestor of those nodes, which would otherwise
+   * be analyzed as components of the screen.
+   */
+  scopeFileToNodes(figmaFile: FigmaFile, nodeIds: string[]): FigmaFile {
+    const selected: FigmaNode[] = [];
+
+    const findNodes = (node: FigmaNode) => {
+      if (nodeIds.includes(node.id)) {
+        selected.push(node);
+        return;
+      }
+      if (node.children) {
+        node.children.forEach(child => findNodes(child));
+      }
+    };
+
+    findNodes(figmaFile.document);
+
+    if (selected.length === 0) {
+      throw new Error(`Node ${nodeIds.join(', ')} not found in Figma file "${figmaFile.name}"`);
+    }
+
+    return {
+      ...figmaFile,
+      document: {
+        ...figmaFile.document,
+        children: selected
+      }
+    };
+  }
+
   /**
    * Extract design tokens (colors, typography, spacing) from Figma file
    */
-  private extractDesignTokens(figmaFile: FigmaFile): DesignTokens {
+  private extractDesignTokens(
+    figmaFile: FigmaFile,
+    styleNodes: FigmaNode[] = [],
+    publishedStyles: FigmaPublishedStyle[] = []
+  ): DesignTokens {
     const colors = new Set<string>();
     const typography = new Set<string>();
     const spacing = new Set<number>();
@@ -496,36 +1345,56 @@ class FigmaService {
     const fontFamilies = new Set<string>();
     const fontSizes = new Set<number>();
     const fontWeights = new Set<number>();
+
+    // Usage counts for naming tokens by role (see designTokenExporter)
+    const colorUsage = new Map<string, ColorUsage>();
+    const textStyles = new Map<string, TextStyleUsage>();
+    const spacingUsage = new Map<number, number>();
+    const useColor = (hex: string): ColorUsage => {
+      const usage = colorUsage.get(hex) || { hex, fills: 0, fillArea: 0, strokes: 0, text: 0 };
+      colorUsage.set(hex, usage);
+      return usage;
+    };
+    const addSpacing = (value: number) => {
+      spacing.add(value);
+      spacingUsage.set(value, (spacingUsage.get(value) || 0) + 1);
+    };
     
     const traverseForTokens = (node: FigmaNode) => {
+      // Hidden layers (and everything inside them) are not part of the design the screen shows
+      if (node.visible === false) return;
+      const bounds = node.absoluteBoundingBox;
+
       // Enhanced color extraction from fills
       if (node.fills) {
-        node.fills.forEach((fill: any) => {
-          if (fill.type === 'SOLID' && fill.color) {
+        node.fills.filter(isVisiblePaint).forEach(fill => {
+          if (isSolidPaint(fill)) {
             const hex = this.rgbToHex(fill.color.r, fill.color.g, fill.color.b);
             colors.add(hex);
-          } else if (fill.type === 'GRADIENT_LINEAR' && fill.gradientStops) {
-            // Extract gradient colors and create CSS gradient
-            const gradientColors = fill.gradientStops.map((stop: any) => {
-              const color = this.rgbToHex(stop.color.r, stop.color.g, stop.color.b);
-              colors.add(color); // Add individual colors too
-              return `${color} ${Math.round(stop.position * 100)}%`;
-            });
-            
-            // Calculate gradient angle from transform matrix
-            const angle = this.calculateGradientAngle(fill.gradientTransform || [[1, 0, 0], [0, 1, 0]]);
-            const gradientCss = `linear-gradient(${angle}deg, ${gradientColors.join(', ')})`;
-            gradients.add(gradientCss);
+            const usage = useColor(hex);
+            if (node.type === 'TEXT') {
+              usage.text++;
+            } else {
+              usage.fills++;
+              usage.fillArea += bounds ? bounds.width * bounds.height : 0;
+            }
+          } else if (fill.type?.startsWith('GRADIENT_') && fill.gradientStops) {
+            // Add the stop colors too
+            fill.gradientStops.forEach(stop => colors.add(this.rgbToHex(stop.color.r, stop.color.g, stop.color.b)));
+
+            const gradientCss = gradientToCss(fill, bounds || { width: 1, height: 1 }).join(', ');
+            if (gradientCss) gradients.add(gradientCss);
           }
         });
       }
       
       // Enhanced color extraction from strokes
       if (node.strokes) {
-        node.strokes.forEach((stroke: any) => {
-          if (stroke.type === 'SOLID' && stroke.color) {
+        node.strokes.filter(isVisiblePaint).forEach(stroke => {
+          if (isSolidPaint(stroke)) {
             const hex = this.rgbToHex(stroke.color.r, stroke.color.g, stroke.color.b);
             colors.add(hex);
+            useColor(hex).strokes++;
           }
         });
       }
@@ -540,17 +1409,30 @@ class FigmaService {
         
         // Create detailed typography token
         typography.add(`${fontFamily || 'default'}-${fontWeight || 400}-${fontSize || 16}`);
+
+        const styleKey = `${fontFamily || 'default'}-${fontWeight || 400}-${fontSize || 16}-${node.style.lineHeightPx || ''}-${node.style.letterSpacing || 0}`;
+        const style = textStyles.get(styleKey) || {
+          fontFamily: fontFamily || 'default',
+          fontWeight: fontWeight || 400,
+          fontSize: fontSize || 16,
+          lineHeightPx: node.style.lineHeightPx,
+          letterSpacing: node.style.letterSpacing || undefined,
+          count: 0,
+          characters: 0
+        };
+        style.count++;
+        style.characters += (node.characters || '').length;
+        textStyles.set(styleKey, style);
       }
       
       // Enhanced spacing extraction with relative calculations
-      const bounds = node.absoluteBoundingBox;
       if (bounds) {
         // Extract meaningful spacing values
-        if (node.paddingLeft !== undefined) spacing.add(node.paddingLeft);
-        if (node.paddingRight !== undefined) spacing.add(node.paddingRight);
-        if (node.paddingTop !== undefined) spacing.add(node.paddingTop);
-        if (node.paddingBottom !== undefined) spacing.add(node.paddingBottom);
-        if (node.itemSpacing !== undefined) spacing.add(node.itemSpacing);
+        if (node.paddingLeft !== undefined) addSpacing(node.paddingLeft);
+        if (node.paddingRight !== undefined) addSpacing(node.paddingRight);
+        if (node.paddingTop !== undefined) addSpacing(node.paddingTop);
+        if (node.paddingBottom !== undefined) addSpacing(node.paddingBottom);
+        if (node.itemSpacing !== undefined) addSpacing(node.itemSpacing);
         
         // Calculate common spacing patterns from layout
         if (node.children && node.children.length > 1) {
@@ -561,12 +1443,12 @@ class FigmaService {
               // Vertical spacing
               if (curr.y > prev.y + prev.height) {
                 const gap = curr.y - (prev.y + prev.height);
-                if (gap > 0 && gap < 100) spacing.add(gap);
+                if (gap > 0 && gap < 100) addSpacing(gap);
               }
               // Horizontal spacing
               if (curr.x > prev.x + prev.width) {
                 const gap = curr.x - (prev.x + prev.width);
-                if (gap > 0 && gap < 100) spacing.add(gap);
+                if (gap > 0 && gap < 100) addSpacing(gap);
               }
             }
           }
@@ -593,49 +1475,28 @@ class FigmaService {
       gradients: uniqueGradients,
       fontFamilies: Array.from(fontFamilies),
       fontSizes: Array.from(fontSizes).sort((a, b) => a - b),
-      fontWeights: Array.from(fontWeights).sort((a, b) => a - b)
+      fontWeights: Array.from(fontWeights).sort((a, b) => a - b),
+      ...this.extractNamedTokens(figmaFile, styleNodes, publishedStyles),
+      colorUsage: Array.from(colorUsage.values()),
+      textStyles: Array.from(textStyles.values()),
+      spacingUsage: Array.from(spacingUsage.entries())
+        .map(([value, count]) => ({ value, count }))
+        .sort((a, b) => a.value - b.value)
     };
   }
 
-  /**
-   * Calculate gradient angle from Figma transform matrix
-   */
-  private calculateGradientAngle(transform: number[][]): number {
-    // Default to 135deg for diagonal gradients if transform is complex
-    if (!transform || transform.length < 2) return 135;
-    
-    // Simple angle calculation for basic gradients
-    const [[a, c], [b, d]] = transform;
-    const angle = Math.atan2(b, a) * (180 / Math.PI);
-    
-    // Normalize to 0-360 and convert to CSS-friendly angles
-    const normalizedAngle = ((angle + 360) % 360);
-    
-    // Common gradient angles used in UI design
-    if (normalizedAngle < 22.5 || normalizedAngle > 337.5) return 0;   // horizontal
-    if (normalizedAngle >= 22.5 && normalizedAngle < 67.5) return 45;  // diagonal
-    if (normalizedAngle >= 67.5 && normalizedAngle < 112.5) return 90; // vertical
-    if (normalizedAngle >= 112.5 && normalizedAngle < 157.5) return 135; // diagonal
-    if (normalizedAngle >= 157.5 && normalizedAngle < 202.5) return 180; // horizontal
-    if (normalizedAngle >= 202.5 && normalizedAngle < 247.5) return 225; // diagonal
-    if (normalizedAngle >= 247.5 && normalizedAngle < 292.5) return 270; // vertical
-    if (normalizedAngle >= 292.5 && normalizedAngle < 337.5) return 315; // diagonal
-    
-    return 135; // Default diagonal
-  }
-
   /**
    * Download image assets from components with image fills
    */
-  private async downloadImageAssets(fileKey: string, components: ComponentAnalysis[]): Promise<{ [nodeId: string]: string }> {
+  private async downloadImageAssets(fileKey: string, components: ComponentAnalysis[], signal?: AbortSignal): Promise<{ [nodeId: string]: string }> {
     const imageNodeIds: string[] = [];
     const assetUrls: { [nodeId: string]: string } = {};
     
-    // Find nodes with image fills
+    // Find nodes with visible image fills; icons are exported as SVG instead
     components.forEach(component => {
-      if (component.properties.fills) {
+      if (component.properties.fills && !component.properties.icon) {
         const hasImageFill = component.properties.fills.some((fill: any) => 
-          fill.type === 'IMAGE' || fill.type === 'SOLID' && fill.color
+          fill.type === 'IMAGE' && isVisiblePaint(fill)
         );
         if (hasImageFill) {
           imageNodeIds.push(component.id);
@@ -648,7 +1509,8 @@ class FigmaService {
       try {
         const images = await this.getImages(fileKey, imageNodeIds, {
           format: 'png',
-          scale: 2
+          scale: 2,
+          signal
         });
         
         // Map node IDs to their image URLs
@@ -658,6 +1520,7 @@ class FigmaService {
           }
         });
       } catch (error) {
+        if (isAbortError(error)) throw error;
         console.warn('Error downloading image assets:', error);
       }
     }
@@ -665,6 +1528,175 @@ class FigmaService {
     return assetUrls;
   }
 
+  /**
+   * Export icons without a Material-UI match as SVG and attach the optimized markup
+   * to their component analysis (properties.icon.svg)
+   */
+  private async downloadIconSvgs(fileKey: string, components: ComponentAnalysis[], signal?: AbortSignal): Promise<number> {
+    const icons = components.filter(component => component.properties.icon && !component.properties.icon.muiIcon);
+    if (icons.length === 0) return 0;
+
+    let exported = 0;
+    try {
+      const urls = await this.getImages(fileKey, icons.map(component => component.id), { format: 'svg', signal });
+      await Promise.all(icons.map(async component => {
+        const url = urls[component.id];
+        if (!url) return;
+        const response = await fetch(url, { signal });
+        if (!response.ok) return;
+        const svg = optimizeSvg(await response.text(), `i${component.id.replace(/[^A-Za-z0-9]/g, '-')}`);
+        if (svg) {
+          component.properties.icon.svg = svg;
+          exported++;
+        }
+      }));
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.warn('⚠️ [FIGMA SERVICE] Error exporting icons as SVG:', error);
+    }
+
+    return exported;
+  }
+
+  /**
+   * Values of the styles used in the file (read from the nodes that use them, or from the
+   * published style nodes) and of local variables in every mode, with aliases followed
+   */
+  private extractNamedTokens(
+    figmaFile: FigmaFile,
+    styleNodes: FigmaNode[],
+    publishedStyles: FigmaPublishedStyle[]
+  ): Pick<DesignTokens, 'named' | 'modes'> {
+    const named = new Map<string, NamedToken>();
+    const descriptions = new Map(publishedStyles.map(style => [style.key, style.description]));
+
+    const addStyle = (meta: { key: string; name: string; styleType: FigmaStyleType; description?: string }, node: FigmaNode) => {
+      if (named.has(`style:${meta.name}`)) return;
+      const value = this.readStyleValue(meta.styleType, node);
+      if (value === undefined) return;
+      named.set(`style:${meta.name}`, {
+        name: meta.name,
+        source: 'style',
+        type: meta.styleType === 'FILL' ? 'color' : meta.styleType === 'TEXT' ? 'typography' : 'effect',
+        value,
+        description: meta.description || descriptions.get(meta.key) || undefined
+      });
+    };
+
+    const visit = (node: FigmaNode) => {
+      Object.entries(node.styles || {}).forEach(([slot, styleId]) => {
+        const meta = figmaFile.styles?.[styleId as string];
+        // A stroke style is read from the strokes, a fill style from the fills
+        if (meta) addStyle(meta, slot === 'stroke' ? { ...node, fills: node.strokes } : node);
+      });
+      (node.children || []).forEach(visit);
+    };
+    if (figmaFile.document) visit(figmaFile.document);
+
+    // Published styles not used on the scanned nodes, read from their own nodes
+    publishedStyles.forEach(style => {
+      const node = styleNodes.find(candidate => candidate.id === style.nodeId);
+      if (node) addStyle(style, node);
+    });
+
+    const modes: TokenModeSet[] = [];
+    const { variables = {}, variableCollections = {} } = figmaFile.variables || {};
+    Object.values(variableCollections).forEach(collection => {
+      if (collection.modes.length > 1) {
+        modes.push({
+          collection: collection.name,
+          modes: collection.modes.map(mode => mode.name),
+          defaultMode: collection.modes.find(mode => mode.modeId === collection.defaultModeId)?.name || collection.modes[0].name
+        });
+      }
+    });
+
+    Object.values(variables).forEach(variable => {
+      const collection = variableCollections[variable.variableCollectionId];
+      if (!collection || variable.remote) return;
+
+      const valueFor = (modeId: string) => this.resolveVariableValue(variable, modeId, figmaFile.variables!);
+      const defaultValue = valueFor(collection.defaultModeId);
+      if (defaultValue === undefined) return;
+
+      const token: NamedToken = {
+        name: variable.name,
+        source: 'variable',
+        type: variable.resolvedType === 'COLOR' ? 'color'
+          : variable.resolvedType === 'FLOAT' ? 'number'
+          : variable.resolvedType === 'STRING' ? 'string' : 'boolean',
+        value: defaultValue,
+        collection: collection.name,
+        description: variable.description || undefined
+      };
+      if (collection.modes.length > 1) {
+        token.modes = {};
+        collection.modes.forEach(mode => {
+          token.modes![mode.name] = valueFor(mode.modeId) ?? defaultValue;
+        });
+      }
+      named.set(`variable:${variable.name}`, token);
+    });
+
+    return named.size > 0 ? { named: Array.from(named.values()), modes } : {};
+  }
+
+  /**
+   * A variable's value in a mode. Aliases are followed into the target's collection,
+   * using the same mode name when it exists there and the target's default mode otherwise.
+   */
+  private resolveVariableValue(variable: FigmaVariable, modeId: string, source: FigmaLocalVariables, depth = 0): any {
+    const raw = variable.valuesByMode[modeId];
+    if (raw === undefined || depth > 10) return undefined;
+
+    if (raw && typeof raw === 'object' && raw.type === 'VARIABLE_ALIAS') {
+      const target = source.variables[raw.id];
+      if (!target) return undefined;
+      const sourceCollection = source.variableCollections[variable.variableCollectionId];
+      const targetCollection = source.variableCollections[target.variableCollectionId];
+      const modeName = sourceCollection?.modes.find(mode => mode.modeId === modeId)?.name;
+      const targetMode = targetCollection?.modes.find(mode => mode.name === modeName)?.modeId ||
+        targetCollection?.defaultModeId ||
+        modeId;
+      return this.resolveVariableValue(target, targetMode, source, depth + 1);
+    }
+
+    if (variable.resolvedType === 'COLOR' && raw && typeof raw === 'object') {
+      return this.colorToHex(raw);
+    }
+    return raw;
+  }
+
+  private readStyleValue(styleType: FigmaStyleType, node: FigmaNode): any {
+    if (styleType === 'FILL') {
+      const fill = (node.fills || []).find(isSolidPaint);
+      return fill ? this.colorToHex({ ...fill.color, a: (fill.color.a ?? 1) * (fill.opacity ?? 1) }) : undefined;
+    }
+    if (styleType === 'TEXT' && node.style?.fontFamily) {
+      const value: TypographyValue = {
+        fontFamily: node.style.fontFamily,
+        fontWeight: node.style.fontWeight || 400,
+        fontSize: node.style.fontSize || 16,
+        lineHeightPx: node.style.lineHeightPx,
+        letterSpacing: node.style.letterSpacing || undefined
+      };
+      return value;
+    }
+    if (styleType === 'EFFECT' && node.effects?.length) {
+      return node.effects.filter(effect => effect.visible !== false);
+    }
+    return undefined;
+  }
+
+  /**
+   * Hex color, with an alpha byte when the color is translucent
+   */
+  private colorToHex(color: { r: number; g: number; b: number; a?: number }): string {
+    const hex = this.rgbToHex(color.r, color.g, color.b);
+    const alpha = color.a ?? 1;
+    return alpha < 1 ? `${hex}${Math.round(alpha * 255).toString(16).padStart(2, '0')}` : hex;
+  }
+
   /**
    * Convert RGB values to hex color
    */
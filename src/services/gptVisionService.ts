@@ -1,5 +1,14 @@
 import { ComponentAnalysis, FigmaFile } from './figmaService';
 import { SemanticGroup, SemanticGroupingResult } from './semanticGroupingService';
+import { LLMProvider } from './llmProvider';
+import { isAbortError } from './httpClient';
+import { isVisiblePaint, paintColorToCss } from '../utils/figmaPaint';
+import {
+  JSONSchema,
+  StructuredOutputDiagnostics,
+  describeStructuredOutputFailure,
+  requestStructuredOutput
+} from './structuredOutput';
 
 export interface GPTVisionAnalysis {
   components: IdentifiedComponent[];
@@ -7,11 +16,13 @@ export interface GPTVisionAnalysis {
   designSystem: DesignSystemAnalysis;
   confidence: number;
   suggestions: string[];
+  // How the model response was validated, and why it was rejected if the fallback was used
+  diagnostics?: StructuredOutputDiagnostics;
 }
 
 export interface IdentifiedComponent {
   id: string;
-  type: 'button' | 'input' | 'text' | 'image' | 'card' | 'header' | 'navigation' | 'form' | 'list' | 'modal' | 'other';
+  type: 'button' | 'input' | 'text' | 'image' | 'card' | 'container' | 'header' | 'navigation' | 'form' | 'list' | 'modal' | 'other';
   name: string;
   description: string;
   bounds: {
@@ -66,82 +77,170 @@ export interface DesignSystemAnalysis {
   borderRadius: number[];
 }
 
+const NUMBER_ARRAY: JSONSchema = { type: 'array', items: { type: 'number' } };
+
+export const GPT_VISION_ANALYSIS_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    components: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          type: {
+            type: 'string',
+            enum: ['button', 'input', 'text', 'image', 'card', 'container', 'header', 'navigation', 'form', 'list', 'modal', 'other']
+          },
+          name: { type: 'string' },
+          description: { type: 'string' },
+          bounds: {
+            type: 'object',
+            properties: {
+              x: { type: 'number' },
+              y: { type: 'number' },
+              width: { type: 'number', minimum: 0 },
+              height: { type: 'number', minimum: 0 }
+            },
+            required: ['x', 'y', 'width', 'height']
+          },
+          properties: { type: 'object' },
+          materialUIMapping: {
+            type: 'object',
+            properties: {
+              component: { type: 'string' },
+              props: { type: 'object' }
+            },
+            required: ['component']
+          },
+          figmaNodeId: { type: 'string' }
+        },
+        required: ['id', 'type', 'name', 'bounds', 'materialUIMapping']
+      }
+    },
+    layout: {
+      type: 'object',
+      properties: {
+        structure: { type: 'string', enum: ['grid', 'flexbox', 'absolute', 'mixed'] },
+        responsive: { type: 'boolean' },
+        breakpoints: { type: 'array', items: { type: 'string' } },
+        spacing: {
+          type: 'object',
+          properties: {
+            consistent: { type: 'boolean' },
+            units: NUMBER_ARRAY
+          }
+        }
+      },
+      required: ['structure']
+    },
+    designSystem: {
+      type: 'object',
+      properties: {
+        colors: {
+          type: 'object',
+          properties: {
+            primary: { type: 'string' },
+            secondary: { type: 'string' },
+            background: { type: 'string' },
+            text: { type: 'string' },
+            accent: { type: 'string' }
+          },
+          required: ['primary', 'secondary', 'background', 'text']
+        },
+        typography: {
+          type: 'object',
+          properties: {
+            fontFamily: { type: 'string' },
+            sizes: NUMBER_ARRAY,
+            weights: NUMBER_ARRAY
+          },
+          required: ['fontFamily']
+        },
+        spacing: {
+          type: 'object',
+          properties: {
+            baseUnit: { type: 'number' },
+            scale: NUMBER_ARRAY
+          }
+        },
+        borderRadius: NUMBER_ARRAY
+      },
+      required: ['colors', 'typography']
+    },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    suggestions: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['components', 'layout', 'confidence']
+};
+
+// Bump when the vision prompt, schema or request settings change; cached results of
+// older versions are then ignored
+export const VISION_PROMPT_VERSION = '1';
+
 class GPTVisionService {
-  private apiKey: string;
-  private baseUrl = 'https://api.openai.com/v1';
+  private provider: LLMProvider;
+  private model?: string;
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
+  constructor(provider: LLMProvider, model?: string) {
+    this.provider = provider;
+    this.model = model;
   }
 
   /**
-   * Analyze Figma design using both JSON structure and visual image
+   * Provider, model and prompt version behind the results, e.g. for cache keys
+   */
+  describeModel(): { provider: string; model: string; promptVersion: string } {
+    return {
+      provider: this.provider.name,
+      model: this.model || this.provider.defaultModel,
+      promptVersion: VISION_PROMPT_VERSION
+    };
+  }
+
+  /**
+   * Analyze Figma design using both JSON structure and visual image. Model failures fall back
+   * to an analysis of the semantic groups alone; an aborted signal rejects instead.
    */
   async analyzeSemanticGroups(
     figmaFile: FigmaFile,
     imageUrl: string,
-    semanticGrouping: SemanticGroupingResult
+    semanticGrouping: SemanticGroupingResult,
+    signal?: AbortSignal
   ): Promise<GPTVisionAnalysis> {
     const prompt = this.createVisualAnalysisPrompt(figmaFile, semanticGrouping);
 
     try {
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o',
-          messages: [
-            {
-              role: 'system',
-              content: `You are a UI/UX expert specializing in converting Figma designs to React components using Material-UI. 
-              You analyze both the visual design and the structural JSON data to provide comprehensive component identification and mapping.
-              
-              Your task is to:
-              1. Identify all UI components in the design
-              2. Map them to appropriate Material-UI components
-              3. Analyze the layout structure and design system
-              4. Provide confidence scores and improvement suggestions
-              
-              Always respond with valid JSON matching the GPTVisionAnalysis interface.`
-            },
-            {
-              role: 'user',
-              content: [
-                {
-                  type: 'text',
-                  text: prompt
-                },
-                {
-                  type: 'image_url',
-                  image_url: {
-                    url: imageUrl,
-                    detail: 'high'
-                  }
-                }
-              ]
-            }
-          ],
-          max_tokens: 4000,
-          temperature: 0.1
-        })
+      const { data: analysis, diagnostics } = await requestStructuredOutput<any>(this.provider, {
+        schemaName: 'GPTVisionAnalysis',
+        schema: GPT_VISION_ANALYSIS_SCHEMA,
+        model: this.model,
+        messages: [
+          {
+            role: 'system',
+            content: `You are a UI/UX expert specializing in converting Figma designs to React components using Material-UI. 
+            You analyze both the visual design and the structural JSON data to provide comprehensive component identification and mapping.
+            
+            Your task is to:
+            1. Identify all UI components in the design
+            2. Map them to appropriate Material-UI components
+            3. Analyze the layout structure and design system
+            4. Provide confidence scores and improvement suggestions
+            
+            Always respond with valid JSON matching the GPTVisionAnalysis interface.`
+          },
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: prompt },
+              { type: 'image', url: imageUrl, detail: 'high' }
+            ]
+          }
+        ],
+        maxTokens: 4000,
+        temperature: 0.1,
+        signal
       });
-
-      if (!response.ok) {
-        throw new Error(`GPT Vision API error: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      const content = data.choices[0].message.content;
-      
-      // Strip markdown code blocks if present
-      const jsonContent = content.replace(/^```json\s*/g, '').replace(/\s*```$/g, '');
-      console.log('Raw GPT response length:', content.length);
-      console.log('Cleaned JSON length:', jsonContent.length);
-      
-      const analysis = JSON.parse(jsonContent);
       
       console.log('🎨 GPT Vision Analysis Results:');
       console.log('- Components identified:', analysis.components?.length || 0);
@@ -149,19 +248,24 @@ class GPTVisionService {
       console.log('- Confidence score:', analysis.confidence || 'unknown');
       console.log('- Raw analysis:', analysis);
       
-      // For now, return the raw analysis without complex validation
-      // TODO: Implement proper validation later
+      // The schema guarantees the required fields; optional sections fall back to defaults
       return {
         components: analysis.components || [],
         layout: analysis.layout || { structure: 'mixed', responsive: false, breakpoints: ['xs', 'sm', 'md', 'lg'], spacing: { consistent: false, units: [8, 16, 24] } },
         designSystem: analysis.designSystem || { colors: { primary: '#1976d2', secondary: '#dc004e', background: '#ffffff', text: '#333333' }, typography: { fontFamily: 'Roboto', sizes: [14, 16, 18, 24], weights: [400, 500, 700] }, spacing: { baseUnit: 8, scale: [8, 16, 24, 32] }, borderRadius: [4, 8, 12] },
         confidence: analysis.confidence || 0.7,
-        suggestions: analysis.suggestions || ['GPT Vision analysis completed']
+        suggestions: analysis.suggestions || ['GPT Vision analysis completed'],
+        diagnostics
       };
     } catch (error) {
-      console.error('GPT Vision analysis failed:', error);
+      if (isAbortError(error)) throw error;
+      // Reported to the caller through the diagnostics; the trace is for debugging
+      console.log('⚠️ GPT Vision analysis failed, validating heuristically:', error);
       // Fallback to basic analysis
-      return this.createFallbackAnalysis(semanticGrouping);
+      return {
+        ...this.createFallbackAnalysis(semanticGrouping),
+        diagnostics: describeStructuredOutputFailure(error, this.provider, 'GPTVisionAnalysis', this.model)
+      };
     }
   }
 
@@ -425,6 +529,14 @@ Focus on visual validation and enhancement, not re-identification.
     return Array.from(colors).slice(0, 5);
   }
 
+  /**
+   * Color of the first visible solid fill, black when there is none
+   */
+  private extractColor(fills: any[]): string {
+    const solid = fills.find(fill => fill?.type === 'SOLID' && fill.color && isVisiblePaint(fill));
+    return solid ? paintColorToCss(solid.color, solid.opacity ?? 1) : '#000000';
+  }
+
   private extractTypographyFromGroups(groups: SemanticGroup[]): { fontFamily: string; sizes: number[]; weights: number[] } {
     const sizes = new Set<number>();
     const weights = new Set<number>();
@@ -528,63 +640,6 @@ Focus on visual validation and enhancement, not re-identification.
     
     return mappings[groupType] || { component: 'Box', props: {} };
   }
-
-  /**
-   * Simple test method to verify GPT Vision API works
-   */
-  async testGPTVisionAPI(): Promise<any> {
-    console.log('Testing GPT Vision API with simple request...');
-    
-    try {
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o',
-          messages: [
-            {
-              role: 'user',
-              content: [
-                {
-                  type: 'text',
-                  text: 'What do you see in this image? Please describe it briefly.'
-                },
-                {
-                  type: 'image_url',
-                  image_url: {
-                    url: 'https://upload.wikimedia.org/wikipedia/commons/thumb/d/dd/Gfp-wisconsin-madison-the-nature-boardwalk.jpg/2560px-Gfp-wisconsin-madison-the-nature-boardwalk.jpg',
-                    detail: 'low'
-                  }
-                }
-              ]
-            }
-          ],
-          max_tokens: 300,
-          temperature: 0.1
-        })
-      });
-
-      console.log('GPT Vision API Response status:', response.status);
-      console.log('GPT Vision API Response headers:', Object.fromEntries(response.headers.entries()));
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('GPT Vision API error response:', errorText);
-        throw new Error(`GPT Vision API error: ${response.status} ${response.statusText} - ${errorText}`);
-      }
-
-      const data = await response.json();
-      console.log('GPT Vision API success:', data);
-      return data;
-      
-    } catch (error) {
-      console.error('GPT Vision test failed:', error);
-      throw error;
-    }
-  }
 }
 
 export default GPTVisionService; 
\ No newline at end of file
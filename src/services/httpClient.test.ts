@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import HttpClient, { AuthenticationError, isAbortError } from './httpClient';
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json', ...headers } });
+
+/**
+ * fetch that answers each call with the next response; a response left out keeps the
+ * call pending until its signal aborts
+ */
+const stubFetch = (...responses: (Response | undefined)[]) => {
+  const fetch = vi.fn((_url: string, init: RequestInit) => {
+    const response = responses.shift();
+    if (response) return Promise.resolve(response);
+    return new Promise<Response>((_, reject) => {
+      init.signal?.addEventListener('abort', () => reject(new DOMException('The operation was aborted', 'AbortError')));
+    });
+  });
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+};
+
+// Limits and in-flight requests are shared per token, so each test uses its own
+let tokens = 0;
+const client = (options: Partial<ConstructorParameters<typeof HttpClient>[0]> = {}) =>
+  new HttpClient({ service: 'Test API', baseUrl: 'https://api.example', limiterKey: `token-${++tokens}`, ...options });
+
+describe('HttpClient', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('retries a rate-limited request after its Retry-After delay', async () => {
+    const fetch = stubFetch(json({ message: 'slow down' }, 429, { 'Retry-After': '3' }), json({ ok: true }));
+
+    const request = client().request('/files/abc');
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(request).resolves.toEqual({ ok: true });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports a Retry-After beyond the limit instead of waiting it out', async () => {
+    const fetch = stubFetch(json({}, 429, { 'Retry-After': '120' }));
+
+    const request = client({ maxRetryAfterMs: 60000 }).request('/files/abc');
+
+    await expect(request).rejects.toMatchObject({ name: 'RateLimitError', retryAfterMs: 120000 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry client errors and maps them to typed errors', async () => {
+    const fetch = stubFetch(
+      json({ err: 'Invalid token' }, 403),
+      json({ err: 'File not found' }, 404),
+      json({ error: { message: 'Bad node id' } }, 400)
+    );
+    const api = client();
+
+    await expect(api.request('/a')).rejects.toBeInstanceOf(AuthenticationError);
+    await expect(api.request('/b')).rejects.toMatchObject({ name: 'NotFoundError', detail: 'File not found' });
+    await expect(api.request('/c')).rejects.toMatchObject({ name: 'HttpError', status: 400, detail: 'Bad node id' });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('retries server errors with backoff', async () => {
+    const fetch = stubFetch(json({}, 503), json({ ok: true }));
+
+    const request = client({ baseDelayMs: 100 }).request('/files/abc');
+    await vi.advanceTimersByTimeAsync(100);
+
+    await expect(request).resolves.toEqual({ ok: true });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one request between concurrent identical GETs', async () => {
+    const fetch = stubFetch(json({ name: 'Login' }));
+    const api = client();
+
+    const results = await Promise.all([api.request('/files/abc'), api.request('/files/abc')]);
+
+    expect(results).toEqual([{ name: 'Login' }, { name: 'Login' }]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('caps the parallel requests per token', async () => {
+    const fetch = stubFetch();
+    const api = client({ maxConcurrent: 2 });
+    const controller = new AbortController();
+
+    const requests = ['/a', '/b', '/c'].map(endpoint => api.request(endpoint, { signal: controller.signal }).catch(error => error));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    controller.abort();
+    await Promise.all(requests);
+  });
+
+  it('starts a waiting request once a slot frees up', async () => {
+    const fetch = stubFetch(json({ id: 'a' }), undefined, json({ id: 'c' }));
+    const api = client({ maxConcurrent: 2 });
+    const controller = new AbortController();
+
+    const first = api.request('/a');
+    const second = api.request('/b', { signal: controller.signal }).catch(error => error);
+    const third = api.request('/c');
+
+    await expect(first).resolves.toEqual({ id: 'a' });
+    await expect(third).resolves.toEqual({ id: 'c' });
+    expect(fetch).toHaveBeenCalledTimes(3);
+    controller.abort();
+    await second;
+  });
+
+  it('rejects with an abort error when the caller cancels', async () => {
+    stubFetch();
+    const controller = new AbortController();
+
+    const request = client().request('/files/abc', { signal: controller.signal });
+    controller.abort();
+
+    await expect(request).rejects.toSatisfy(isAbortError);
+  });
+
+  it('stops waiting to retry when the caller cancels', async () => {
+    const fetch = stubFetch(json({}, 503));
+    const controller = new AbortController();
+
+    const request = client({ baseDelayMs: 1000 }).request('/files/abc', { signal: controller.signal });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+
+    await expect(request).rejects.toSatisfy(isAbortError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,368 @@
+/**
+ * Shared HTTP layer for the external APIs used by the services.
+ * Handles retries with exponential backoff (honouring Retry-After), request
+ * deduplication, per-token concurrency limits and cancellation.
+ */
+import { stableStringify } from '../utils/contentHash';
+
+export class HttpError extends Error {
+  status: number;
+  service: string;
+  detail?: string;
+
+  constructor(service: string, status: number, message: string, detail?: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.service = service;
+    this.status = status;
+    this.detail = detail;
+  }
+}
+
+export class AuthenticationError extends HttpError {
+  constructor(service: string, status: number, detail?: string) {
+    super(service, status, `${service} rejected the access token (${status})${detail ? `: ${detail}` : ''}`, detail);
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(service: string, detail?: string) {
+    super(service, 404, `${service} resource not found${detail ? `: ${detail}` : ''}`, detail);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class RateLimitError extends HttpError {
+  retryAfterMs?: number;
+
+  constructor(service: string, retryAfterMs?: number, detail?: string) {
+    super(service, 429, `${service} rate limit exceeded${retryAfterMs ? `, retry after ${Math.ceil(retryAfterMs / 1000)}s` : ''}`, detail);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class ServerError extends HttpError {
+  constructor(service: string, status: number, detail?: string) {
+    super(service, status, `${service} server error (${status})${detail ? `: ${detail}` : ''}`, detail);
+    this.name = 'ServerError';
+  }
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const createAbortError = () => new DOMException('Request was cancelled', 'AbortError');
+
+export interface HttpClientOptions {
+  service: string;
+  baseUrl: string;
+  headers?: Record<string, string>;
+  // Requests sharing a limiter key (usually the access token) share a concurrency budget
+  limiterKey?: string;
+  maxConcurrent?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Retry-After values beyond this are surfaced as a RateLimitError instead of waited out
+  maxRetryAfterMs?: number;
+}
+
+export interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  body?: unknown;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+/**
+ * Counting semaphore used to cap concurrent requests per token
+ */
+class Semaphore {
+  private active = 0;
+  private queue: Array<() => void> = [];
+
+  constructor(private readonly limit: number) {}
+
+  async acquire(signal?: AbortSignal): Promise<() => void> {
+    if (this.active < this.limit) {
+      this.active++;
+    } else {
+      // release() hands its slot straight to the next waiter, so `active` already counts it
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          this.queue = this.queue.filter(entry => entry !== start);
+          reject(createAbortError());
+        };
+        const start = () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        };
+        if (signal?.aborted) return reject(createAbortError());
+        signal?.addEventListener('abort', onAbort, { once: true });
+        this.queue.push(start);
+      });
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const next = this.queue.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    };
+  }
+}
+
+interface InFlightRequest {
+  promise: Promise<any>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+// Module-level so every client instance using the same token shares limits and in-flight requests
+const limiters = new Map<string, Semaphore>();
+const inFlight = new Map<string, InFlightRequest>();
+
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+class HttpClient {
+  private options: Required<Omit<HttpClientOptions, 'headers' | 'limiterKey'>> & Pick<HttpClientOptions, 'headers' | 'limiterKey'>;
+
+  constructor(options: HttpClientOptions) {
+    this.options = {
+      maxConcurrent: 4,
+      maxRetries: 4,
+      baseDelayMs: 500,
+      maxDelayMs: 30000,
+      maxRetryAfterMs: 60000,
+      ...options
+    };
+  }
+
+  /**
+   * Perform a JSON request. Identical concurrent GETs (same URL and headers) share one
+   * network call.
+   */
+  async request<T = any>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+    const method = options.method || 'GET';
+    const url = `${this.options.baseUrl}${endpoint}`;
+
+    if (options.signal?.aborted) {
+      throw createAbortError();
+    }
+
+    if (method !== 'GET') {
+      return this.execute<T>(url, options, options.signal);
+    }
+
+    // Requests with different credentials or other headers may get different responses
+    const dedupeKey = `${this.options.limiterKey || ''}|${url}|${stableStringify({ ...this.options.headers, ...options.headers })}`;
+    let entry = inFlight.get(dedupeKey);
+
+    if (!entry) {
+      const controller = new AbortController();
+      const promise = this.execute<T>(url, options, controller.signal).finally(() => {
+        inFlight.delete(dedupeKey);
+      });
+      entry = { promise, controller, subscribers: 0 };
+      inFlight.set(dedupeKey, entry);
+    }
+
+    return this.subscribe<T>(entry, options.signal);
+  }
+
+  /**
+   * Attach a caller to a shared request; the underlying call is only aborted
+   * once every caller has cancelled.
+   */
+  private subscribe<T>(entry: InFlightRequest, signal?: AbortSignal): Promise<T> {
+    entry.subscribers++;
+
+    if (!signal) {
+      return entry.promise;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      let settled = false;
+      const onAbort = () => {
+        if (settled) return;
+        settled = true;
+        entry.subscribers--;
+        if (entry.subscribers <= 0) {
+          entry.controller.abort();
+        }
+        reject(createAbortError());
+      };
+
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      entry.promise.then(
+        value => {
+          if (settled) return;
+          settled = true;
+          signal.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        error => {
+          if (settled) return;
+          settled = true;
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  private async execute<T>(url: string, options: RequestOptions, signal?: AbortSignal): Promise<T> {
+    const { maxRetries } = this.options;
+    let attempt = 0;
+
+    for (;;) {
+      try {
+        return await this.attempt<T>(url, options, signal);
+      } catch (error) {
+        if (isAbortError(error) || attempt >= maxRetries || !this.isRetryable(error)) {
+          throw error;
+        }
+
+        const delay = this.getRetryDelay(error, attempt);
+        console.warn(`[HTTP] ${this.options.service} request failed (${this.describe(error)}), retrying in ${delay}ms (attempt ${attempt + 1}/${maxRetries})`);
+        await this.sleep(delay, signal);
+        attempt++;
+      }
+    }
+  }
+
+  private async attempt<T>(url: string, options: RequestOptions, signal?: AbortSignal): Promise<T> {
+    const release = await this.getLimiter().acquire(signal);
+
+    try {
+      const response = await fetch(url, {
+        method: options.method || 'GET',
+        headers: {
+          ...(options.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+          ...this.options.headers,
+          ...options.headers
+        },
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+        signal
+      });
+
+      if (!response.ok) {
+        throw await this.toHttpError(response);
+      }
+
+      return await response.json();
+    } finally {
+      release();
+    }
+  }
+
+  private getLimiter(): Semaphore {
+    const key = `${this.options.service}|${this.options.limiterKey || 'default'}`;
+    let limiter = limiters.get(key);
+    if (!limiter) {
+      limiter = new Semaphore(this.options.maxConcurrent);
+      limiters.set(key, limiter);
+    }
+    return limiter;
+  }
+
+  private async toHttpError(response: Response): Promise<HttpError> {
+    const { service } = this.options;
+    const detail = await this.readErrorDetail(response);
+
+    if (response.status === 401 || response.status === 403) {
+      return new AuthenticationError(service, response.status, detail);
+    }
+    if (response.status === 404) {
+      return new NotFoundError(service, detail);
+    }
+    if (response.status === 429) {
+      return new RateLimitError(service, this.parseRetryAfter(response.headers.get('Retry-After')), detail);
+    }
+    if (response.status >= 500) {
+      return new ServerError(service, response.status, detail);
+    }
+    return new HttpError(service, response.status, `${service} request failed (${response.status} ${response.statusText})${detail ? `: ${detail}` : ''}`, detail);
+  }
+
+  /**
+   * Pull a short message out of an error body without dumping the whole payload
+   */
+  private async readErrorDetail(response: Response): Promise<string | undefined> {
+    try {
+      const text = await response.text();
+      try {
+        const json = JSON.parse(text);
+        const message = json.err || json.message || json.error?.message || json.error;
+        if (typeof message === 'string') return message.slice(0, 200);
+      } catch {
+        // Not JSON, fall through to the raw text
+      }
+      return text ? text.slice(0, 200) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private isRetryable(error: unknown): boolean {
+    if (error instanceof RateLimitError) {
+      // Waits longer than we are willing to sit through are reported straight away
+      return error.retryAfterMs === undefined || error.retryAfterMs <= this.options.maxRetryAfterMs;
+    }
+    if (error instanceof HttpError) {
+      return RETRYABLE_STATUSES.includes(error.status);
+    }
+    // fetch rejects with a TypeError on network failures
+    return error instanceof TypeError;
+  }
+
+  private getRetryDelay(error: unknown, attempt: number): number {
+    if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+      return error.retryAfterMs;
+    }
+    const { baseDelayMs, maxDelayMs } = this.options;
+    const exponential = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt));
+    // Full jitter keeps parallel clients from retrying in lockstep
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  }
+
+  private parseRetryAfter(value: string | null): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  private describe(error: unknown): string {
+    if (error instanceof HttpError) return `${error.status}`;
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(createAbortError());
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(createAbortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
+
+export default HttpClient;
@@ -1,14 +1,159 @@
 export { default as FigmaService } from './figmaService';
 export { default as GPTVisionService } from './gptVisionService';
+export { default as HttpClient } from './httpClient';
+export { default as CodeGeneratorService } from './codeGeneratorService';
+export { default as VibeCodingService, VibeCodingError, createStubVibeProvider } from './vibeCodingService';
+export {
+  OpenAIProvider,
+  AzureOpenAIProvider,
+  AnthropicProvider,
+  OpenAICompatibleProvider,
+  StubProvider,
+  createLLMProvider,
+  getStageModel,
+  hasLLMCredentials,
+  resolveLLMSettings
+} from './llmProvider';
+export {
+  StructuredOutputError,
+  requestStructuredOutput,
+  validateAgainstSchema,
+  parseJsonResponse
+} from './structuredOutput';
+export {
+  default as MappingRuleEngine,
+  BUILT_IN_MAPPING_RULES,
+  MAPPING_RULES_SCHEMA,
+  validateMappingRules
+} from './mappingRuleEngine';
+export { EXAMPLE_RULE_PACKS, PAYMENT_RULE_PACK } from './mappingRulePacks';
+export {
+  default as ComponentRegistry,
+  COMPONENT_REGISTRY_SCHEMA,
+  validateComponentRegistry
+} from './componentRegistry';
+export { default as DesignTokenExporter } from './designTokenExporter';
+export { default as AssetStorageService, SCREEN_ASSETS_BUCKET } from './assetStorageService';
+export {
+  default as Pipeline,
+  PipelineDefinitionError,
+  PipelineInputError,
+  StageTimeoutError
+} from './pipelineEngine';
+export { createFigmaPipeline, createFigmaPipelineServices, toInitialSession, toProcessedScreen } from './figmaPipeline';
+export {
+  MemoryStageCache,
+  IndexedDbStageCache,
+  SupabaseStageCache,
+  TieredStageCache,
+  STAGE_CACHE_TABLE,
+  createStageCache
+} from './stageCache';
+export { default as ScreenJobRunner } from './screenJobRunner';
+export { SCREEN_JOBS_TABLE, SCREEN_JOB_EVENTS_TABLE, WORKER_RUNNER } from './screenJobs';
+export {
+  CHECKPOINT_HEARTBEAT_MS,
+  CHECKPOINT_STALE_MS,
+  getCheckpoint,
+  isRunningElsewhere,
+  startCheckpoint
+} from './processingCheckpoint';
+export { GPT_VISION_ANALYSIS_SCHEMA, VISION_PROMPT_VERSION } from './gptVisionService';
+export { SEMANTIC_GROUPING_SCHEMA, SEMANTIC_GROUPING_PROMPT_VERSION } from './semanticGroupingService';
 export type { 
   FigmaFile, 
   FigmaNode, 
   FigmaAnalysisResult, 
-  ComponentAnalysis 
+  ComponentAnalysis,
+  DesignTokens,
+  ColorUsage,
+  TextStyleUsage,
+  SpacingUsage,
+  FigmaPublishedStyle,
+  FigmaLocalVariables,
+  FigmaVariable,
+  FigmaVariableCollection,
+  NamedToken,
+  TypographyValue,
+  TokenModeSet,
+  NodeTokenRefs,
+  FigmaIcon,
+  FigmaFrameSummary,
+  FigmaPageFrames
 } from './figmaService';
 export type { 
   GPTVisionAnalysis, 
   IdentifiedComponent, 
   LayoutAnalysis, 
-  DesignSystemAnalysis 
- 
\ No newline at end of file
+  DesignSystemAnalysis
+} from './gptVisionService';
+export {
+  HttpError,
+  AuthenticationError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+  isAbortError
+} from './httpClient';
+export type { CodeGenerationOptions, GeneratedCode, GeneratedIconModule } from './codeGeneratorService';
+export type { PersistedAssets } from './assetStorageService';
+export type { ProcessingCheckpoint } from './processingCheckpoint';
+export type { ScreenJob, ScreenJobEvent, ScreenJobStatus } from './screenJobs';
+export type { ScreenJobRunnerConfig } from './screenJobRunner';
+export type {
+  PipelineStage,
+  PipelineDefinition,
+  PipelineEvent,
+  PipelineListener,
+  PipelineRunOptions,
+  StageContext,
+  StageCache,
+  StageCacheEntry,
+  StageCachePolicy
+} from './pipelineEngine';
+export type {
+  FigmaPipelineState,
+  FigmaPipelineServices,
+  FigmaPipelineConfig,
+  FigmaFileAnalysis,
+  ScreenAssets
+} from './figmaPipeline';
+export type { VibeIterationRequest, VibeIterationResult } from './vibeCodingService';
+export type {
+  ChatMessage,
+  ChatContentPart,
+  CompletionRequest,
+  CompletionResult,
+  LLMProvider,
+  LLMProviderKind,
+  LLMSettings,
+  LLMStage
+} from './llmProvider';
+export type {
+  JSONSchema,
+  StructuredOutputAttempt,
+  StructuredOutputDiagnostics
+} from './structuredOutput';
+export type {
+  MappingRule,
+  MappingRuleConditions,
+  MappingRulePack,
+  MappingRuleResult,
+  ProjectMappingRules,
+  TextRole
+} from './mappingRuleEngine';
+export type {
+  ComponentRegistryEntry,
+  ComponentRegistryMatch,
+  ProjectComponentRegistry,
+  RegistryChildren,
+  RegistryPropMapping
+} from './componentRegistry';
+export type {
+  PaletteColorToken,
+  PaletteRole,
+  ThemeTokens,
+  TokenExportFile,
+  TypographyToken,
+  TypographyVariant
+} from './designTokenExporter';
@@ -0,0 +1,346 @@
+import HttpClient from './httpClient';
+
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; url: string; detail?: 'low' | 'high' | 'auto' };
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ChatContentPart[];
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Ask the model for a single JSON object
+  json?: boolean;
+  // Constrain the JSON to a schema where the provider supports it; implies json
+  jsonSchema?: { name: string; schema: Record<string, any> };
+  signal?: AbortSignal;
+}
+
+export interface CompletionResult {
+  content: string;
+  provider: string;
+  model: string;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+export type LLMProviderKind = 'openai' | 'azure-openai' | 'anthropic' | 'openai-compatible';
+
+// Pipeline stages that call a model, each with its own model choice
+export type LLMStage = 'semanticGrouping' | 'vision' | 'vibeCoding';
+
+export interface LLMSettings {
+  provider: LLMProviderKind;
+  apiKey?: string;
+  // Azure resource endpoint, or the base URL of an OpenAI-compatible server
+  endpoint?: string;
+  // Azure only
+  apiVersion?: string;
+  // Model (or Azure deployment) per stage; unset stages use the provider default
+  models?: Partial<Record<LLMStage, string>>;
+}
+
+export const LLM_PROVIDER_LABELS: Record<LLMProviderKind, string> = {
+  'openai': 'OpenAI',
+  'azure-openai': 'Azure OpenAI',
+  'anthropic': 'Anthropic',
+  'openai-compatible': 'OpenAI-compatible (Ollama, LM Studio)'
+};
+
+export const DEFAULT_STAGE_MODELS: Record<LLMProviderKind, Record<LLMStage, string>> = {
+  'openai': { semanticGrouping: 'gpt-4o-mini', vision: 'gpt-4o', vibeCoding: 'gpt-4o' },
+  'azure-openai': { semanticGrouping: 'gpt-4o-mini', vision: 'gpt-4o', vibeCoding: 'gpt-4o' },
+  'anthropic': { semanticGrouping: 'claude-3-5-haiku-latest', vision: 'claude-3-5-sonnet-latest', vibeCoding: 'claude-3-5-sonnet-latest' },
+  'openai-compatible': { semanticGrouping: 'llama3.1', vision: 'llava', vibeCoding: 'qwen2.5-coder' }
+};
+
+export const DEFAULT_COMPATIBLE_ENDPOINT = 'http://localhost:11434/v1';
+export const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+
+/**
+ * Plain text of a message, ignoring any image parts
+ */
+export const getMessageText = (content: ChatMessage['content']): string =>
+  typeof content === 'string'
+    ? content
+    : content.map(part => (part.type === 'text' ? part.text : '')).join('\n');
+
+/**
+ * Shared implementation of the OpenAI chat completions wire format
+ */
+abstract class ChatCompletionsProvider implements LLMProvider {
+  abstract readonly name: string;
+  readonly defaultModel: string;
+  protected abstract http: HttpClient;
+  protected supportsJsonMode = true;
+  protected supportsJsonSchema = true;
+
+  constructor(defaultModel: string) {
+    this.defaultModel = defaultModel;
+  }
+
+  protected endpointFor(_model: string): string {
+    return '/chat/completions';
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const model = request.model || this.defaultModel;
+    const data = await this.http.request(this.endpointFor(model), {
+      method: 'POST',
+      signal: request.signal,
+      body: {
+        model,
+        messages: request.messages.map(message => ({
+          role: message.role,
+          content: typeof message.content === 'string'
+            ? message.content
+            : message.content.map(part => part.type === 'text'
+              ? { type: 'text', text: part.text }
+              : { type: 'image_url', image_url: { url: part.url, detail: part.detail } })
+        })),
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        response_format: this.responseFormat(request)
+      }
+    });
+
+    return {
+      content: data.choices?.[0]?.message?.content || '',
+      provider: this.name,
+      model: data.model || model
+    };
+  }
+
+  private responseFormat(request: CompletionRequest) {
+    if (request.jsonSchema && this.supportsJsonSchema) {
+      return {
+        type: 'json_schema',
+        json_schema: { name: request.jsonSchema.name, schema: request.jsonSchema.schema, strict: false }
+      };
+    }
+    if ((request.json || request.jsonSchema) && this.supportsJsonMode) {
+      return { type: 'json_object' };
+    }
+    return undefined;
+  }
+}
+
+/**
+ * OpenAI chat completions
+ */
+export class OpenAIProvider extends ChatCompletionsProvider {
+  readonly name = 'openai';
+  protected http: HttpClient;
+
+  constructor(apiKey: string, defaultModel = DEFAULT_STAGE_MODELS.openai.vision) {
+    super(defaultModel);
+    this.http = new HttpClient({
+      service: 'OpenAI',
+      baseUrl: 'https://api.openai.com/v1',
+      headers: { 'Authorization': `Bearer ${apiKey}` },
+      limiterKey: apiKey
+    });
+  }
+}
+
+/**
+ * Azure OpenAI, where the model name is the deployment name
+ */
+export class AzureOpenAIProvider extends ChatCompletionsProvider {
+  readonly name = 'azure-openai';
+  protected http: HttpClient;
+  private apiVersion: string;
+
+  constructor(endpoint: string, apiKey: string, defaultModel: string, apiVersion = DEFAULT_AZURE_API_VERSION) {
+    super(defaultModel);
+    this.apiVersion = apiVersion;
+    this.http = new HttpClient({
+      service: 'Azure OpenAI',
+      baseUrl: `${endpoint.replace(/\/+$/, '')}/openai/deployments`,
+      headers: { 'api-key': apiKey },
+      limiterKey: apiKey
+    });
+  }
+
+  protected endpointFor(model: string): string {
+    return `/${encodeURIComponent(model)}/chat/completions?api-version=${encodeURIComponent(this.apiVersion)}`;
+  }
+}
+
+/**
+ * Local or self-hosted servers that speak the OpenAI API (Ollama, LM Studio, vLLM)
+ */
+export class OpenAICompatibleProvider extends ChatCompletionsProvider {
+  readonly name = 'openai-compatible';
+  protected http: HttpClient;
+  // Not every server accepts response_format; the prompts already ask for JSON
+  protected supportsJsonMode = false;
+  protected supportsJsonSchema = false;
+
+  constructor(baseUrl: string, defaultModel: string, apiKey?: string) {
+    super(defaultModel);
+    this.http = new HttpClient({
+      service: 'Local model server',
+      baseUrl: baseUrl.replace(/\/+$/, ''),
+      headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+      limiterKey: baseUrl,
+      // Local servers usually run one generation at a time
+      maxConcurrent: 1
+    });
+  }
+}
+
+/**
+ * Anthropic Messages API
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  readonly defaultModel: string;
+  private http: HttpClient;
+
+  constructor(apiKey: string, defaultModel = DEFAULT_STAGE_MODELS.anthropic.vision) {
+    this.defaultModel = defaultModel;
+    this.http = new HttpClient({
+      service: 'Anthropic',
+      baseUrl: 'https://api.anthropic.com/v1',
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+        // Keys are stored in the browser and used directly, as with the other providers
+        'anthropic-dangerous-direct-browser-access': 'true'
+      },
+      limiterKey: apiKey
+    });
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const model = request.model || this.defaultModel;
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => getMessageText(message.content))
+      .join('\n\n');
+
+    const messages: any[] = request.messages
+      .filter(message => message.role !== 'system')
+      .map(message => ({
+        role: message.role,
+        content: typeof message.content === 'string'
+          ? message.content
+          : message.content.map(part => part.type === 'text'
+            ? { type: 'text', text: part.text }
+            : { type: 'image', source: this.toImageSource(part.url) })
+      }));
+
+    // No JSON mode here (schemas are described in the prompt instead), so prefill the reply with the opening brace
+    const json = request.json || !!request.jsonSchema;
+    if (json) {
+      messages.push({ role: 'assistant', content: '{' });
+    }
+
+    const data = await this.http.request('/messages', {
+      method: 'POST',
+      signal: request.signal,
+      body: {
+        model,
+        system: system || undefined,
+        messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens || 4096
+      }
+    });
+
+    const text = (data.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+
+    return {
+      content: json ? `{${text}` : text,
+      provider: this.name,
+      model: data.model || model
+    };
+  }
+
+  private toImageSource(url: string) {
+    const dataUrl = url.match(/^data:([^;]+);base64,(.*)$/);
+    if (dataUrl) {
+      return { type: 'base64', media_type: dataUrl[1], data: dataUrl[2] };
+    }
+    return { type: 'url', url };
+  }
+}
+
+/**
+ * Offline provider that answers from a local function, for development and tests
+ */
+export class StubProvider implements LLMProvider {
+  readonly name = 'stub';
+  readonly defaultModel = 'stub';
+
+  constructor(private respond: (request: CompletionRequest) => string | Promise<string>) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    return {
+      content: await this.respond(request),
+      provider: this.name,
+      model: request.model || this.defaultModel
+    };
+  }
+}
+
+/**
+ * Settings saved before provider selection existed only carry an OpenAI key
+ */
+export const resolveLLMSettings = (
+  apiSettings?: { openaiApiKey?: string; llm?: LLMSettings } | null
+): LLMSettings => {
+  if (apiSettings?.llm) return apiSettings.llm;
+  return { provider: 'openai', apiKey: apiSettings?.openaiApiKey || '' };
+};
+
+export const hasLLMCredentials = (settings: LLMSettings): boolean => {
+  switch (settings.provider) {
+    case 'openai':
+    case 'anthropic':
+      return !!settings.apiKey?.trim();
+    case 'azure-openai':
+      return !!settings.apiKey?.trim() && !!settings.endpoint?.trim();
+    case 'openai-compatible':
+      return true;
+    default:
+      return false;
+  }
+};
+
+export const getStageModel = (settings: LLMSettings, stage: LLMStage): string =>
+  settings.models?.[stage]?.trim() || DEFAULT_STAGE_MODELS[settings.provider][stage];
+
+/**
+ * Build the provider for a stage, with that stage's model as its default
+ */
+export const createLLMProvider = (settings: LLMSettings, stage: LLMStage): LLMProvider => {
+  const model = getStageModel(settings, stage);
+  const apiKey = settings.apiKey?.trim() || '';
+
+  switch (settings.provider) {
+    case 'openai':
+      return new OpenAIProvider(apiKey, model);
+    case 'azure-openai':
+      return new AzureOpenAIProvider(settings.endpoint || '', apiKey, model, settings.apiVersion || DEFAULT_AZURE_API_VERSION);
+    case 'anthropic':
+      return new AnthropicProvider(apiKey, model);
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(settings.endpoint || DEFAULT_COMPATIBLE_ENDPOINT, model, apiKey || undefined);
+    default:
+      throw new Error(`Unknown LLM provider: ${settings.provider}`);
+  }
+};
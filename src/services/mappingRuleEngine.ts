@@ -0,0 +1,406 @@
+import { ComponentAnalysis, getComponentProperties } from './figmaService';
+import { JSONSchema, validateAgainstSchema } from './structuredOutput';
+import { EXAMPLE_RULE_PACKS } from './mappingRulePacks';
+
+export type TextRole = 'heading' | 'subheading' | 'body' | 'caption';
+
+/**
+ * Conditions a node must meet for a rule to apply. Every condition that is set must hold;
+ * string conditions are case-insensitive regular expressions.
+ */
+export interface MappingRuleConditions {
+  nodeTypes?: string[];
+  // Layer name
+  name?: string;
+  // Main component or component set name (instances only)
+  component?: string;
+  // Variant properties of the instance, e.g. { "State": "Disabled" }
+  variant?: Record<string, string>;
+  // The node's text, or the combined text inside it
+  text?: string;
+  textRole?: TextRole[];
+  layout?: 'HORIZONTAL' | 'VERTICAL' | 'NONE';
+  // Has prototype interactions
+  interactive?: boolean;
+  hasText?: boolean;
+  hasImage?: boolean;
+  hasFill?: boolean;
+  hasBorder?: boolean;
+  hasShadow?: boolean;
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
+}
+
+export interface MappingRule {
+  id: string;
+  description?: string;
+  // Higher runs first; equal priorities keep their order (project rules, then packs, then built-ins)
+  priority?: number;
+  when: MappingRuleConditions;
+  // Material-UI component to render
+  component: string;
+  props?: Record<string, any>;
+  // Merged over the sx derived from the Figma styling
+  sx?: Record<string, any>;
+  // Fixed text for the node, replacing any text layer content
+  content?: string;
+}
+
+export interface MappingRulePack {
+  id: string;
+  name: string;
+  description?: string;
+  rules: MappingRule[];
+}
+
+/**
+ * Per-project rule configuration, stored in projects.mapping_rules
+ */
+export interface ProjectMappingRules {
+  // IDs of example packs to enable
+  packs?: string[];
+  rules?: MappingRule[];
+}
+
+export interface MappingRuleResult {
+  ruleId: string;
+  component: string;
+  props: Record<string, any>;
+  sx: Record<string, any>;
+  content?: string;
+}
+
+interface NodeFacts {
+  type: string;
+  name: string;
+  componentNames: string[];
+  variant: Record<string, string>;
+  text: string;
+  textRole?: TextRole;
+  layout: 'HORIZONTAL' | 'VERTICAL' | 'NONE';
+  interactive: boolean;
+  hasImage: boolean;
+  hasFill: boolean;
+  hasBorder: boolean;
+  hasShadow: boolean;
+  width: number;
+  height: number;
+}
+
+interface CompiledRule {
+  rule: MappingRule;
+  order: number;
+  patterns: {
+    name?: RegExp;
+    component?: RegExp;
+    text?: RegExp;
+  };
+}
+
+/**
+ * Generic mappings that hold for any design; project rules and packs run before these
+ */
+export const BUILT_IN_MAPPING_RULES: MappingRule[] = [
+  {
+    id: 'builtin-button-component',
+    description: 'Instances of a button component',
+    when: { nodeTypes: ['INSTANCE', 'COMPONENT'], component: '\\b(button|btn|cta)\\b' },
+    component: 'Button',
+    props: { variant: 'contained', disableElevation: true }
+  },
+  {
+    id: 'builtin-button-interactive',
+    description: 'Small clickable frames with a label',
+    when: { nodeTypes: ['FRAME', 'INSTANCE', 'COMPONENT'], interactive: true, hasText: true, maxHeight: 72 },
+    component: 'Button',
+    props: { variant: 'contained', disableElevation: true }
+  },
+  {
+    id: 'builtin-card',
+    description: 'Rounded containers with a shadow',
+    when: { nodeTypes: ['FRAME', 'INSTANCE', 'COMPONENT'], hasShadow: true, minWidth: 80, minHeight: 48 },
+    component: 'Card',
+    // The shadow comes from the Figma effects in sx
+    props: { elevation: 0 }
+  },
+  {
+    id: 'builtin-divider',
+    when: { nodeTypes: ['LINE'] },
+    component: 'Divider'
+  },
+  {
+    id: 'builtin-text-heading',
+    when: { nodeTypes: ['TEXT'], textRole: ['heading'] },
+    component: 'Typography',
+    props: { variant: 'h5' }
+  },
+  {
+    id: 'builtin-text-subheading',
+    when: { nodeTypes: ['TEXT'], textRole: ['subheading'] },
+    component: 'Typography',
+    props: { variant: 'subtitle1' }
+  },
+  {
+    id: 'builtin-text-caption',
+    when: { nodeTypes: ['TEXT'], textRole: ['caption'] },
+    component: 'Typography',
+    props: { variant: 'caption' }
+  },
+  {
+    id: 'builtin-text',
+    when: { nodeTypes: ['TEXT'] },
+    component: 'Typography',
+    props: { variant: 'body1' }
+  }
+];
+
+const FALLBACK_RESULT: MappingRuleResult = { ruleId: 'builtin-box', component: 'Box', props: {}, sx: {} };
+
+const CONDITIONS_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    nodeTypes: { type: 'array', items: { type: 'string' } },
+    name: { type: 'string' },
+    component: { type: 'string' },
+    variant: { type: 'object', additionalProperties: { type: 'string' } },
+    text: { type: 'string' },
+    textRole: { type: 'array', items: { type: 'string', enum: ['heading', 'subheading', 'body', 'caption'] } },
+    layout: { type: 'string', enum: ['HORIZONTAL', 'VERTICAL', 'NONE'] },
+    interactive: { type: 'boolean' },
+    hasText: { type: 'boolean' },
+    hasImage: { type: 'boolean' },
+    hasFill: { type: 'boolean' },
+    hasBorder: { type: 'boolean' },
+    hasShadow: { type: 'boolean' },
+    minWidth: { type: 'number' },
+    maxWidth: { type: 'number' },
+    minHeight: { type: 'number' },
+    maxHeight: { type: 'number' }
+  },
+  additionalProperties: false
+};
+
+export const MAPPING_RULES_SCHEMA: JSONSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      description: { type: 'string' },
+      priority: { type: 'number' },
+      when: CONDITIONS_SCHEMA,
+      component: { type: 'string' },
+      props: { type: 'object' },
+      sx: { type: 'object' },
+      content: { type: 'string' }
+    },
+    required: ['id', 'when', 'component'],
+    additionalProperties: false
+  }
+};
+
+// Material-UI components a rule may render; the generator imports them from @mui/material
+export const MUI_COMPONENTS: readonly string[] = [
+  'Accordion', 'AccordionActions', 'AccordionDetails', 'AccordionSummary', 'Alert', 'AlertTitle',
+  'AppBar', 'Autocomplete', 'Avatar', 'AvatarGroup', 'Backdrop', 'Badge', 'BottomNavigation',
+  'BottomNavigationAction', 'Box', 'Breadcrumbs', 'Button', 'ButtonBase', 'ButtonGroup', 'Card',
+  'CardActionArea', 'CardActions', 'CardContent', 'CardHeader', 'CardMedia', 'Checkbox', 'Chip',
+  'CircularProgress', 'Container', 'Dialog', 'DialogActions', 'DialogContent', 'DialogContentText',
+  'DialogTitle', 'Divider', 'Drawer', 'Fab', 'FilledInput', 'FormControl', 'FormControlLabel',
+  'FormGroup', 'FormHelperText', 'FormLabel', 'Grid', 'Icon', 'IconButton', 'ImageList',
+  'ImageListItem', 'ImageListItemBar', 'Input', 'InputAdornment', 'InputBase', 'InputLabel',
+  'LinearProgress', 'Link', 'List', 'ListItem', 'ListItemAvatar', 'ListItemButton', 'ListItemIcon',
+  'ListItemSecondaryAction', 'ListItemText', 'ListSubheader', 'Menu', 'MenuItem', 'MenuList',
+  'MobileStepper', 'NativeSelect', 'OutlinedInput', 'Pagination', 'PaginationItem', 'Paper',
+  'Radio', 'RadioGroup', 'Rating', 'Select', 'Skeleton', 'Slider', 'Snackbar', 'SnackbarContent',
+  'SpeedDial', 'SpeedDialAction', 'SpeedDialIcon', 'Stack', 'Step', 'StepButton', 'StepConnector',
+  'StepContent', 'StepIcon', 'StepLabel', 'Stepper', 'SvgIcon', 'Switch', 'Tab', 'Table',
+  'TableBody', 'TableCell', 'TableContainer', 'TableFooter', 'TableHead', 'TablePagination',
+  'TableRow', 'TableSortLabel', 'Tabs', 'TextField', 'TextareaAutosize', 'ToggleButton',
+  'ToggleButtonGroup', 'Toolbar', 'Tooltip', 'Typography'
+];
+
+/**
+ * Problems with user-supplied rules: schema errors, invalid patterns and component names
+ */
+export const validateMappingRules = (rules: unknown): string[] => {
+  const errors = validateAgainstSchema(rules, MAPPING_RULES_SCHEMA, 'rules');
+  if (errors.length > 0 || !Array.isArray(rules)) return errors;
+
+  rules.forEach((rule: MappingRule, index) => {
+    if (!MUI_COMPONENTS.includes(rule.component)) {
+      errors.push(`rules[${index}].component: "${rule.component}" is not a Material-UI component the generator can import`);
+    }
+    (['name', 'component', 'text'] as const).forEach(key => {
+      const pattern = rule.when[key];
+      if (pattern === undefined) return;
+      try {
+        new RegExp(pattern, 'i');
+      } catch {
+        errors.push(`rules[${index}].when.${key}: invalid regular expression`);
+      }
+    });
+  });
+
+  return errors;
+};
+
+/**
+ * Picks the Material-UI component for each Figma node from declarative rules.
+ * Rules are tried by priority and the first whose conditions all hold wins.
+ */
+class MappingRuleEngine {
+  private rules: CompiledRule[];
+
+  constructor(rules: MappingRule[]) {
+    this.rules = rules
+      .map((rule, order) => ({
+        rule,
+        order,
+        patterns: {
+          name: this.compilePattern(rule.when.name),
+          component: this.compilePattern(rule.when.component),
+          text: this.compilePattern(rule.when.text)
+        }
+      }))
+      .sort((a, b) => (b.rule.priority || 0) - (a.rule.priority || 0) || a.order - b.order);
+  }
+
+  /**
+   * Engine for a project: its own rules first, then enabled packs, then the built-ins
+   */
+  static forProject(config?: ProjectMappingRules | null): MappingRuleEngine {
+    const packRules = (config?.packs || []).flatMap(packId =>
+      EXAMPLE_RULE_PACKS.find(pack => pack.id === packId)?.rules || []
+    );
+    return new MappingRuleEngine([...(config?.rules || []), ...packRules, ...BUILT_IN_MAPPING_RULES]);
+  }
+
+  /**
+   * Match every node, using the whole list for text found inside containers
+   */
+  matchAll(components: ComponentAnalysis[]): Map<string, MappingRuleResult> {
+    const childrenById = new Map<string, ComponentAnalysis[]>();
+    components.forEach(component => {
+      if (!component.parentId) return;
+      const siblings = childrenById.get(component.parentId) || [];
+      siblings.push(component);
+      childrenById.set(component.parentId, siblings);
+    });
+
+    const textById = new Map<string, string>();
+    const collectText = (component: ComponentAnalysis): string => {
+      const cached = textById.get(component.id);
+      if (cached !== undefined) return cached;
+      const text = component.type === 'TEXT'
+        ? component.properties.characters || ''
+        : (childrenById.get(component.id) || []).map(collectText).filter(Boolean).join(' ');
+      textById.set(component.id, text);
+      return text;
+    };
+
+    const results = new Map<string, MappingRuleResult>();
+    components.forEach(component => {
+      results.set(component.id, this.match(this.describe(component, collectText(component))));
+    });
+    return results;
+  }
+
+  private match(facts: NodeFacts): MappingRuleResult {
+    const matched = this.rules.find(compiled => this.matches(compiled, facts));
+    if (!matched) return FALLBACK_RESULT;
+
+    const { rule } = matched;
+    return {
+      ruleId: rule.id,
+      component: rule.component,
+      props: { ...(rule.props || {}) },
+      sx: { ...(rule.sx || {}) },
+      content: rule.content
+    };
+  }
+
+  private matches({ rule, patterns }: CompiledRule, facts: NodeFacts): boolean {
+    const when = rule.when;
+
+    if (when.nodeTypes && !when.nodeTypes.includes(facts.type)) return false;
+    if (patterns.name && !patterns.name.test(facts.name)) return false;
+    if (patterns.component && !facts.componentNames.some(name => patterns.component!.test(name))) return false;
+    if (patterns.text && !patterns.text.test(facts.text)) return false;
+    if (when.variant && Object.entries(when.variant).some(([key, value]) =>
+      facts.variant[key.toLowerCase()]?.toLowerCase() !== value.toLowerCase())) return false;
+    if (when.textRole && (!facts.textRole || !when.textRole.includes(facts.textRole))) return false;
+    if (when.layout && when.layout !== facts.layout) return false;
+    if (when.interactive !== undefined && when.interactive !== facts.interactive) return false;
+    if (when.hasText !== undefined && when.hasText !== (facts.text.trim().length > 0)) return false;
+    if (when.hasImage !== undefined && when.hasImage !== facts.hasImage) return false;
+    if (when.hasFill !== undefined && when.hasFill !== facts.hasFill) return false;
+    if (when.hasBorder !== undefined && when.hasBorder !== facts.hasBorder) return false;
+    if (when.hasShadow !== undefined && when.hasShadow !== facts.hasShadow) return false;
+    if (when.minWidth !== undefined && facts.width < when.minWidth) return false;
+    if (when.maxWidth !== undefined && facts.width > when.maxWidth) return false;
+    if (when.minHeight !== undefined && facts.height < when.minHeight) return false;
+    if (when.maxHeight !== undefined && facts.height > when.maxHeight) return false;
+
+    return true;
+  }
+
+  private describe(component: ComponentAnalysis, text: string): NodeFacts {
+    const props = component.properties;
+    const styling = props.styling || {};
+    const mainComponent = props.mainComponent;
+
+    return {
+      type: component.type,
+      name: component.name,
+      componentNames: [mainComponent?.setName, mainComponent?.name].filter(Boolean),
+      variant: this.readVariant(component),
+      text,
+      textRole: component.type === 'TEXT' ? this.classifyText(styling.typography) : undefined,
+      layout: styling.layout?.mode || 'NONE',
+      interactive: !!props.hasInteractions,
+      hasImage: (styling.images?.fills || []).length > 0,
+      hasFill: (props.fills || []).some((fill: any) => fill.visible !== false),
+      hasBorder: (props.strokes || []).some((stroke: any) => stroke.visible !== false),
+      hasShadow: (props.effects || []).some((effect: any) => effect.visible !== false && effect.type === 'DROP_SHADOW'),
+      width: component.bounds.width,
+      height: component.bounds.height
+    };
+  }
+
+  /**
+   * Variant and component property values, keyed in lower case
+   */
+  private readVariant(component: ComponentAnalysis): Record<string, string> {
+    const variant: Record<string, string> = {};
+    Object.entries(getComponentProperties(component)).forEach(([key, value]) => {
+      variant[key.toLowerCase()] = value;
+    });
+    return variant;
+  }
+
+  private classifyText(typography?: { fontSize?: number; fontWeight?: string | number }): TextRole {
+    const size = typography?.fontSize || 14;
+    const weight = Number(typography?.fontWeight) || 400;
+
+    if (size >= 24 || (size >= 20 && weight >= 600)) return 'heading';
+    if (size >= 18 || (size >= 16 && weight >= 600)) return 'subheading';
+    if (size <= 12) return 'caption';
+    return 'body';
+  }
+
+  private compilePattern(pattern?: string): RegExp | undefined {
+    if (!pattern) return undefined;
+    try {
+      return new RegExp(pattern, 'i');
+    } catch {
+      console.warn('⚠️ [RULE ENGINE] Ignoring invalid pattern:', pattern);
+      // A broken pattern should never match rather than match everything
+      return /$^/;
+    }
+  }
+}
+
+export default MappingRuleEngine;
@@ -0,0 +1,56 @@
+import type { MappingRulePack } from './mappingRuleEngine';
+
+/**
+ * Example rules for the demo checkout screen. They key on layer names and copy
+ * from that one file, so they are opt-in per project and mostly useful as a
+ * template for writing project rules.
+ */
+export const PAYMENT_RULE_PACK: MappingRulePack = {
+  id: 'example-payment',
+  name: 'Payment screen (example)',
+  description: 'Checkout layouts with payment method cards, a total and a pay button',
+  rules: [
+    {
+      id: 'payment-confirm-button',
+      when: { name: 'pay.*confirm' },
+      component: 'Button',
+      props: { variant: 'contained', color: 'primary', fullWidth: true, size: 'large' }
+    },
+    {
+      id: 'payment-add-method',
+      when: { name: 'add new' },
+      component: 'Button',
+      props: { variant: 'outlined' }
+    },
+    {
+      id: 'payment-method-selected',
+      description: 'The preselected method in the demo design',
+      priority: 1,
+      when: { nodeTypes: ['FRAME', 'GROUP', 'INSTANCE', 'RECTANGLE'], name: 'mastercard' },
+      component: 'Card',
+      props: { variant: 'outlined' },
+      sx: { cursor: 'pointer', borderColor: 'primary.main', borderWidth: 2 }
+    },
+    {
+      id: 'payment-method-card',
+      when: { nodeTypes: ['FRAME', 'GROUP', 'INSTANCE', 'RECTANGLE'], name: '\\b(visa|mastercard|paypal|cash)\\b|method' },
+      component: 'Card',
+      props: { variant: 'outlined' },
+      sx: { cursor: 'pointer', '&:hover': { borderColor: 'primary.main' } }
+    },
+    {
+      id: 'payment-total',
+      when: { nodeTypes: ['TEXT'], text: '^total\\b|^\\$\\d' },
+      component: 'Typography',
+      props: { variant: 'h4', fontWeight: 'bold' }
+    },
+    {
+      id: 'payment-title',
+      when: { nodeTypes: ['TEXT'], text: '^(?!.*method).*payment' },
+      component: 'Typography',
+      props: { variant: 'h5' }
+    }
+  ]
+};
+
+export const EXAMPLE_RULE_PACKS: MappingRulePack[] = [PAYMENT_RULE_PACK];
@@ -0,0 +1,515 @@
+/**
+ * Framework-agnostic pipeline engine. A pipeline is a list of named stages that declare
+ * which state values they read and write; the engine runs them in order, validates their
+ * inputs and outputs, and reports progress through events. Stages get an AbortSignal for
+ * cancellation and may have their own timeout and retry policy.
+ *
+ * Stages with a cache policy have their outputs stored under a hash of their inputs, so a
+ * run with a cache reuses earlier results instead of repeating the work.
+ */
+import { AuthenticationError, NotFoundError, isAbortError } from './httpClient';
+import { sha256Hex, stableStringify } from '../utils/contentHash';
+
+export interface StageContext {
+  // Aborted when the run is cancelled or the stage times out
+  signal: AbortSignal;
+  // 1 for the first attempt, 2 for the first retry...
+  attempt: number;
+  report: (message: string, progress?: number) => void;
+}
+
+export interface StageCachePolicy<
+  TState,
+  TIn extends keyof TState = keyof TState,
+  TOut extends keyof TState = keyof TState
+> {
+  // Bump when the stage's logic or prompt changes, so older results are not reused
+  version: string;
+  // Inputs the result depends on (all of them by default)
+  inputs?: readonly TIn[];
+  // What the inputs don't capture, such as the file version or the model
+  key?: (input: Pick<TState, TIn>, signal: AbortSignal) => unknown;
+  // Older results are recomputed
+  maxAgeMs?: number;
+  // Whether a result may be stored, e.g. not a stand-in for a failed model call
+  cacheable?: (outputs: Pick<TState, TOut>) => boolean;
+}
+
+export interface StageCacheEntry {
+  key: string;
+  pipeline: string;
+  stage: string;
+  outputs: Record<string, unknown>;
+  createdAt: number;
+}
+
+export interface StageCache {
+  get(key: string): Promise<StageCacheEntry | undefined>;
+  set(entry: StageCacheEntry): Promise<void>;
+}
+
+export interface PipelineStage<
+  TState,
+  TIn extends keyof TState = keyof TState,
+  TOut extends keyof TState = keyof TState
+> {
+  name: string;
+  label: string;
+  description?: string;
+  inputs: readonly TIn[];
+  outputs: readonly TOut[];
+  timeoutMs?: number;
+  // Retries after the first attempt
+  retries?: number;
+  // Doubled for every further retry
+  retryDelayMs?: number;
+  shouldRetry?: (error: unknown) => boolean;
+  cache?: StageCachePolicy<TState, TIn, TOut>;
+  run: (input: Pick<TState, TIn>, context: StageContext) => Promise<Pick<TState, TOut>>;
+}
+
+export interface PipelineDefinition<TState> {
+  name: string;
+  // State values the caller provides
+  inputs: readonly (keyof TState)[];
+  stages: PipelineStage<TState, any, any>[];
+}
+
+export type PipelineEvent<TState> =
+  | { type: 'pipeline:start'; runId: string; pipeline: string; stages: string[] }
+  | { type: 'stage:start'; runId: string; stage: string; index: number; attempt: number }
+  | { type: 'stage:progress'; runId: string; stage: string; message: string; progress?: number }
+  | { type: 'stage:retry'; runId: string; stage: string; attempt: number; delayMs: number; error: unknown }
+  | { type: 'stage:complete'; runId: string; stage: string; index: number; durationMs: number; outputs: Partial<TState>; cached: boolean }
+  | { type: 'pipeline:complete'; runId: string; durationMs: number; state: Partial<TState> }
+  | { type: 'pipeline:error'; runId: string; stage: string; error: unknown }
+  | { type: 'pipeline:cancelled'; runId: string; stage: string };
+
+export type PipelineListener<TState> = (event: PipelineEvent<TState>) => void;
+
+export interface PipelineRunOptions {
+  signal?: AbortSignal;
+  // Run only these stages, in pipeline order; their inputs must already be in the state
+  stages?: string[];
+  // Where stages with a cache policy look up and store their results
+  cache?: StageCache;
+  // Stages that run even when a cached result exists; their new result replaces it
+  force?: string[];
+  // Skip the stages whose outputs are all in the initial state, e.g. a checkpoint of an earlier run
+  resume?: boolean;
+}
+
+interface RunContext<TState> {
+  runId: string;
+  signal: AbortSignal;
+  cache?: StageCache;
+  force: string[];
+  // Hash identifying each state value, reused by the cache keys of later stages
+  digests: Map<keyof TState, string>;
+}
+
+export class PipelineDefinitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PipelineDefinitionError';
+  }
+}
+
+export class PipelineInputError extends Error {
+  stage: string;
+  missing: string[];
+
+  constructor(stage: string, missing: string[]) {
+    super(`Stage "${stage}" is missing its input(s): ${missing.join(', ')}`);
+    this.name = 'PipelineInputError';
+    this.stage = stage;
+    this.missing = missing;
+  }
+}
+
+export class StageTimeoutError extends Error {
+  stage: string;
+  timeoutMs: number;
+
+  constructor(stage: string, timeoutMs: number) {
+    super(`Stage "${stage}" timed out after ${timeoutMs < 1000 ? `${timeoutMs}ms` : `${Math.round(timeoutMs / 1000)}s`}`);
+    this.name = 'StageTimeoutError';
+    this.stage = stage;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+const DEFAULT_RETRY_DELAY_MS = 1000;
+
+const createRunId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const cancelledError = (signal: AbortSignal): unknown =>
+  signal.reason ?? new DOMException('Pipeline run was cancelled', 'AbortError');
+
+class Pipeline<TState extends object> {
+  readonly name: string;
+  private definition: PipelineDefinition<TState>;
+  private listeners = new Set<PipelineListener<TState>>();
+
+  constructor(definition: PipelineDefinition<TState>) {
+    this.name = definition.name;
+    this.definition = definition;
+    this.validate();
+  }
+
+  get stages(): ReadonlyArray<PipelineStage<TState, any, any>> {
+    return this.definition.stages;
+  }
+
+  /**
+   * Listen to the events of every run; returns the unsubscribe function
+   */
+  subscribe(listener: PipelineListener<TState>): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Run the stages in order, starting from the given state, and resolve with the state
+   * including every stage's outputs. Rejects with the failing stage's error; cancellation
+   * rejects with an AbortError.
+   */
+  async run(initial: Partial<TState>, options: PipelineRunOptions = {}): Promise<Partial<TState>> {
+    const runId = createRunId();
+    const signal = options.signal || new AbortController().signal;
+    const stages = (options.stages
+      ? this.definition.stages.filter(stage => options.stages!.includes(stage.name))
+      : this.definition.stages
+    ).filter(stage => !options.resume || !this.isDone(stage, initial));
+    const unknown = [...(options.stages || []), ...(options.force || [])]
+      .filter(name => !this.definition.stages.some(stage => stage.name === name));
+    if (unknown.length > 0) {
+      throw new PipelineDefinitionError(`Pipeline "${this.name}" has no stage(s) ${unknown.join(', ')}`);
+    }
+
+    const state: Partial<TState> = { ...initial };
+    const run: RunContext<TState> = { runId, signal, cache: options.cache, force: options.force || [], digests: new Map() };
+    const startedAt = Date.now();
+    let current = stages[0]?.name || '';
+
+    console.log(`🧭 [PIPELINE] ${this.name} run ${runId}:`, stages.map(stage => stage.name));
+    this.emit({ type: 'pipeline:start', runId, pipeline: this.name, stages: stages.map(stage => stage.name) });
+
+    try {
+      for (const stage of stages) {
+        current = stage.name;
+        if (signal.aborted) throw cancelledError(signal);
+
+        const index = this.definition.stages.indexOf(stage);
+        const stageStartedAt = Date.now();
+        const { outputs, cached } = await this.runStage(stage, state, run, index);
+        Object.assign(state, outputs);
+
+        const durationMs = Date.now() - stageStartedAt;
+        console.log(`✅ [PIPELINE] ${stage.name} ${cached ? 'restored from cache' : 'complete'} in ${durationMs}ms`);
+        this.emit({ type: 'stage:complete', runId, stage: stage.name, index, durationMs, outputs, cached });
+      }
+    } catch (error) {
+      if (isAbortError(error) || signal.aborted) {
+        console.log(`🛑 [PIPELINE] ${this.name} cancelled during ${current}`);
+        this.emit({ type: 'pipeline:cancelled', runId, stage: current });
+      } else {
+        console.error(`❌ [PIPELINE] ${this.name} failed at ${current}:`, error);
+        this.emit({ type: 'pipeline:error', runId, stage: current, error });
+      }
+      throw error;
+    }
+
+    const durationMs = Date.now() - startedAt;
+    console.log(`🏁 [PIPELINE] ${this.name} complete in ${durationMs}ms`);
+    this.emit({ type: 'pipeline:complete', runId, durationMs, state });
+    return state;
+  }
+
+  /**
+   * One stage: its cached result when there is one, otherwise the stage itself with its
+   * retry policy
+   */
+  private async runStage(
+    stage: PipelineStage<TState, any, any>,
+    state: Partial<TState>,
+    run: RunContext<TState>,
+    index: number
+  ): Promise<{ outputs: Partial<TState>; cached: boolean }> {
+    const { runId, signal } = run;
+    const inputs: readonly (keyof TState)[] = stage.inputs;
+    const outputs: readonly (keyof TState)[] = stage.outputs;
+
+    const missing = inputs.filter(key => state[key] === undefined).map(String);
+    if (missing.length > 0) {
+      throw new PipelineInputError(stage.name, missing);
+    }
+
+    const input: Partial<TState> = {};
+    inputs.forEach(key => {
+      input[key] = state[key];
+    });
+
+    this.emit({ type: 'stage:start', runId, stage: stage.name, index, attempt: 1 });
+
+    const cacheKey = run.cache && stage.cache ? await this.cacheKey(stage, input, state, run) : undefined;
+    if (cacheKey && !run.force.includes(stage.name)) {
+      const entry = await this.readCache(stage, cacheKey, run);
+      if (entry) {
+        const restored = entry.outputs as Partial<TState>;
+        this.recordDigests(outputs, entry, run);
+        this.emit({
+          type: 'stage:progress',
+          runId,
+          stage: stage.name,
+          message: `Reusing the result from ${new Date(entry.createdAt).toLocaleString()}`
+        });
+        return { outputs: restored, cached: true };
+      }
+    }
+
+    const retries = stage.retries || 0;
+    for (let attempt = 1; ; attempt++) {
+      if (attempt > 1) {
+        this.emit({ type: 'stage:start', runId, stage: stage.name, index, attempt });
+      }
+
+      try {
+        const produced = await this.attemptStage(stage, input, runId, attempt, signal);
+        const absent = outputs.filter(key => produced?.[key] === undefined).map(String);
+        if (absent.length > 0) {
+          throw new PipelineDefinitionError(`Stage "${stage.name}" did not produce ${absent.join(', ')}`);
+        }
+        if (cacheKey && (stage.cache?.cacheable?.(produced) ?? true)) {
+          this.recordDigests(outputs, this.writeCache(stage, cacheKey, produced, run), run);
+        } else {
+          outputs.forEach(key => run.digests.delete(key));
+        }
+        return { outputs: produced, cached: false };
+      } catch (error) {
+        if (signal.aborted || attempt > retries || !this.isRetryable(stage, error)) throw error;
+
+        const delayMs = (stage.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS) * 2 ** (attempt - 1);
+        console.warn(`🔁 [PIPELINE] ${stage.name} attempt ${attempt} failed, retrying in ${delayMs}ms:`, error);
+        this.emit({ type: 'stage:retry', runId, stage: stage.name, attempt, delayMs, error });
+        await this.sleep(delayMs, signal);
+      }
+    }
+  }
+
+  /**
+   * Hash of everything a cached stage's result depends on: the stage and its cache version,
+   * the digests of its inputs and the policy's own key material. Without a key the stage
+   * simply runs uncached.
+   */
+  private async cacheKey(
+    stage: PipelineStage<TState, any, any>,
+    input: Partial<TState>,
+    state: Partial<TState>,
+    run: RunContext<TState>
+  ): Promise<string | undefined> {
+    const policy: StageCachePolicy<TState, any> = stage.cache!;
+    const inputs: readonly (keyof TState)[] = policy.inputs || stage.inputs;
+
+    try {
+      const digests: [string, string][] = [];
+      for (const key of inputs) {
+        digests.push([String(key), await this.digestOf(key, state, run)]);
+      }
+      const material = policy.key ? await policy.key(input as Pick<TState, any>, run.signal) : null;
+      return await sha256Hex(stableStringify({
+        pipeline: this.name,
+        stage: stage.name,
+        version: policy.version,
+        inputs: digests,
+        key: material
+      }));
+    } catch (error) {
+      if (isAbortError(error) || run.signal.aborted) throw error;
+      console.warn(`⚠️ [PIPELINE] No cache key for ${stage.name}, running it uncached:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Outputs of cached stages are identified by the cache entry holding them, so a forced
+   * re-run also invalidates the cached results built on the old outputs. Everything else
+   * (caller inputs, outputs of uncached stages) is identified by a hash of its content,
+   * computed on first use.
+   */
+  private async digestOf(key: keyof TState, state: Partial<TState>, run: RunContext<TState>): Promise<string> {
+    let digest = run.digests.get(key);
+    if (!digest) {
+      digest = await sha256Hex(stableStringify(state[key]));
+      run.digests.set(key, digest);
+    }
+    return digest;
+  }
+
+  private recordDigests(outputs: readonly (keyof TState)[], entry: StageCacheEntry, run: RunContext<TState>): void {
+    outputs.forEach(key => run.digests.set(key, `${entry.key}@${entry.createdAt}/${String(key)}`));
+  }
+
+  /**
+   * A usable cache entry for the key; cache failures count as a miss
+   */
+  private async readCache(
+    stage: PipelineStage<TState, any, any>,
+    cacheKey: string,
+    run: RunContext<TState>
+  ): Promise<StageCacheEntry | undefined> {
+    try {
+      const entry = await run.cache!.get(cacheKey);
+      if (!entry) return undefined;
+
+      const maxAgeMs = stage.cache?.maxAgeMs;
+      if (maxAgeMs !== undefined && Date.now() - entry.createdAt > maxAgeMs) {
+        console.log(`⌛ [PIPELINE] Cached ${stage.name} result is too old, running it again`);
+        return undefined;
+      }
+      const outputs: readonly (keyof TState)[] = stage.outputs;
+      if (outputs.some(key => entry.outputs?.[String(key)] === undefined)) return undefined;
+      return entry;
+    } catch (error) {
+      console.warn(`⚠️ [PIPELINE] Cache lookup for ${stage.name} failed:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Store a fresh result without holding up the run
+   */
+  private writeCache(
+    stage: PipelineStage<TState, any, any>,
+    cacheKey: string,
+    produced: Partial<TState>,
+    run: RunContext<TState>
+  ): StageCacheEntry {
+    const outputs: Record<string, unknown> = {};
+    (stage.outputs as readonly (keyof TState)[]).forEach(key => {
+      outputs[String(key)] = produced[key];
+    });
+
+    const entry: StageCacheEntry = { key: cacheKey, pipeline: this.name, stage: stage.name, outputs, createdAt: Date.now() };
+    run.cache!
+      .set(entry)
+      .catch(error => console.warn(`⚠️ [PIPELINE] Could not cache the ${stage.name} result:`, error));
+    return entry;
+  }
+
+  /**
+   * A single attempt, interrupted by cancellation or the stage timeout even when the
+   * stage itself ignores its signal
+   */
+  private async attemptStage(
+    stage: PipelineStage<TState, any, any>,
+    input: Partial<TState>,
+    runId: string,
+    attempt: number,
+    signal: AbortSignal
+  ): Promise<Partial<TState>> {
+    // Cancelled while the cache was consulted; the listener below would never fire
+    if (signal.aborted) throw cancelledError(signal);
+
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort(cancelledError(signal));
+    signal.addEventListener('abort', forwardAbort, { once: true });
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const interrupted = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+    });
+    if (stage.timeoutMs) {
+      timer = setTimeout(() => controller.abort(new StageTimeoutError(stage.name, stage.timeoutMs!)), stage.timeoutMs);
+    }
+
+    const context: StageContext = {
+      signal: controller.signal,
+      attempt,
+      report: (message, progress) => this.emit({ type: 'stage:progress', runId, stage: stage.name, message, progress })
+    };
+
+    try {
+      const running: Promise<Partial<TState>> = stage.run(input as Pick<TState, any>, context) as Promise<any>;
+      return await Promise.race([running, interrupted]);
+    } finally {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', forwardAbort);
+    }
+  }
+
+  private isDone(stage: PipelineStage<TState, any, any>, state: Partial<TState>): boolean {
+    const outputs: readonly (keyof TState)[] = stage.outputs;
+    return outputs.every(key => state[key] !== undefined);
+  }
+
+  private isRetryable(stage: PipelineStage<TState, any, any>, error: unknown): boolean {
+    if (isAbortError(error) || error instanceof PipelineDefinitionError || error instanceof PipelineInputError) {
+      return false;
+    }
+    if (stage.shouldRetry) return stage.shouldRetry(error);
+    // Bad credentials and missing files fail the same way every time
+    return !(error instanceof AuthenticationError || error instanceof NotFoundError);
+  }
+
+  /**
+   * Every stage input must be a pipeline input or an earlier stage's output, and
+   * stage names and outputs must be unique
+   */
+  private validate(): void {
+    const available = new Set<keyof TState>(this.definition.inputs);
+    const names = new Set<string>();
+
+    this.definition.stages.forEach(stage => {
+      if (names.has(stage.name)) {
+        throw new PipelineDefinitionError(`Pipeline "${this.name}" has two stages named "${stage.name}"`);
+      }
+      names.add(stage.name);
+
+      const inputs: readonly (keyof TState)[] = stage.inputs;
+      const outputs: readonly (keyof TState)[] = stage.outputs;
+
+      const unavailable = inputs.filter(key => !available.has(key));
+      if (unavailable.length > 0) {
+        throw new PipelineDefinitionError(
+          `Stage "${stage.name}" reads ${unavailable.map(String).join(', ')}, which no earlier stage produces`
+        );
+      }
+
+      outputs.forEach(key => {
+        if (available.has(key)) {
+          throw new PipelineDefinitionError(`Stage "${stage.name}" overwrites ${String(key)}`);
+        }
+        available.add(key);
+      });
+    });
+  }
+
+  private emit(event: PipelineEvent<TState>): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('⚠️ [PIPELINE] Event listener failed:', error);
+      }
+    });
+  }
+
+  private sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(cancelledError(signal));
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
+
+export default Pipeline;
@@ -0,0 +1,69 @@
+import { FigmaPipelineState } from './figmaPipeline';
+
+/**
+ * Progress of a screen's Figma processing, stored on the screen as
+ * `analysis_data.checkpoint` while it is processing or after it failed. A run that
+ * finds one continues after the last completed stage.
+ */
+export interface ProcessingCheckpoint {
+  // Browser tab or job worker running the job
+  owner: string;
+  figmaUrl: string;
+  startedAt: string;
+  // Refreshed while the job runs; without it the job was abandoned
+  heartbeatAt: string;
+  completedStages: string[];
+  // Outputs of the completed stages
+  state: Partial<FigmaPipelineState>;
+  failedStage?: string;
+  failedStageLabel?: string;
+  error?: string;
+  cancelled?: boolean;
+}
+
+export const CHECKPOINT_HEARTBEAT_MS = 60 * 1000;
+
+// A few missed heartbeats, so a busy tab is not mistaken for a closed one
+export const CHECKPOINT_STALE_MS = 3 * CHECKPOINT_HEARTBEAT_MS;
+
+// Identifies this tab as the owner of the jobs it runs
+export const PROCESSOR_ID = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * The screen's checkpoint, if it has one for this Figma link
+ */
+export function getCheckpoint(screen: { figma_url?: string; analysis_data?: any }): ProcessingCheckpoint | undefined {
+  const checkpoint: ProcessingCheckpoint | undefined = screen.analysis_data?.checkpoint;
+  if (!checkpoint || checkpoint.figmaUrl !== screen.figma_url) return undefined;
+  return checkpoint;
+}
+
+/**
+ * Whether another tab is still working on the checkpoint's job
+ */
+export function isRunningElsewhere(checkpoint: ProcessingCheckpoint | undefined, now: number = Date.now()): boolean {
+  if (!checkpoint || checkpoint.owner === PROCESSOR_ID || checkpoint.failedStage || checkpoint.cancelled) {
+    return false;
+  }
+  return now - Date.parse(checkpoint.heartbeatAt) < CHECKPOINT_STALE_MS;
+}
+
+/**
+ * A checkpoint owned by this tab (or the given worker) that continues from `previous`
+ * when there is one
+ */
+export function startCheckpoint(
+  figmaUrl: string,
+  previous?: ProcessingCheckpoint,
+  owner: string = PROCESSOR_ID
+): ProcessingCheckpoint {
+  const now = new Date().toISOString();
+  return {
+    owner,
+    figmaUrl,
+    startedAt: previous?.startedAt || now,
+    heartbeatAt: now,
+    completedStages: previous?.completedStages || [],
+    state: previous?.state || {}
+  };
+}
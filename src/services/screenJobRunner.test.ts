@@ -0,0 +1,184 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import FigmaService from './figmaService';
+import ScreenJobRunner, { ScreenJobRunnerConfig } from './screenJobRunner';
+import { ProcessingCheckpoint } from './processingCheckpoint';
+import { SCREEN_JOBS_TABLE, SCREEN_JOB_EVENTS_TABLE, ScreenJob } from './screenJobs';
+
+const OWNER = 'user-1';
+const WORKER = 'worker-1';
+const FIGMA_URL = 'https://www.figma.com/design/abc';
+
+const JOB: ScreenJob = {
+  id: 'job-1',
+  screen_id: 'screen-1',
+  project_id: 'project-1',
+  user_id: OWNER,
+  status: 'running',
+  attempts: 1,
+  worker_id: WORKER,
+  created_at: '2026-01-01T00:00:00Z'
+};
+
+interface Values {
+  status?: string;
+  type?: string;
+  analysis_data?: { checkpoint: ProcessingCheckpoint };
+  [column: string]: unknown;
+}
+
+interface Call {
+  table: string;
+  action: 'select' | 'insert' | 'update' | 'upsert';
+  values: Values;
+  filters: Record<string, unknown>;
+}
+
+interface Result {
+  data: unknown;
+  error: null;
+}
+
+/**
+ * Stand-in for the Supabase client that records every query; `heartbeat` answers the
+ * worker's heartbeat updates with the rows it would have matched
+ */
+const fakeClient = (heartbeat: () => { status: string }[]) => {
+  const calls: Call[] = [];
+  const respond = (call: Call): Result => {
+    if (call.table === 'screens' && call.action === 'select') {
+      return { data: [{ id: JOB.screen_id, project_id: JOB.project_id, status: 'processing', figma_url: FIGMA_URL, analysis_data: {} }], error: null };
+    }
+    if (call.table === 'projects') {
+      return { data: [{ user_id: OWNER, mapping_rules: null, component_registry: null }], error: null };
+    }
+    if (call.table === SCREEN_JOBS_TABLE && call.action === 'update' && 'heartbeat_at' in call.values) {
+      return { data: heartbeat(), error: null };
+    }
+    return { data: call.action === 'select' ? null : [], error: null };
+  };
+
+  const from = (table: string) => {
+    const call: Call = { table, action: 'select', values: {}, filters: {} };
+    const query = {
+      select: () => query,
+      insert: (values: Values) => Object.assign(call, { action: 'insert', values }) && query,
+      update: (values: Values) => Object.assign(call, { action: 'update', values }) && query,
+      upsert: (values: Values) => Object.assign(call, { action: 'upsert', values }) && query,
+      eq: (column: string, value: unknown) => {
+        call.filters[column] = value;
+        return query;
+      },
+      maybeSingle: () => query,
+      then: (resolve: (result: Result) => unknown, reject: (error: unknown) => unknown) => {
+        calls.push(call);
+        return Promise.resolve(respond(call)).then(resolve, reject);
+      }
+    };
+    return query;
+  };
+
+  const client = { from, rpc: async () => ({ data: [JOB], error: null }) } as unknown as ScreenJobRunnerConfig['client'];
+  return { client, calls };
+};
+
+/**
+ * Runner whose Figma file read is `analyze`; resolves `reading` once the read started
+ */
+const setup = (heartbeat: () => { status: string }[], analyze: () => Promise<never>, heartbeatMs = 10) => {
+  const { client, calls } = fakeClient(heartbeat);
+  let started: () => void = () => undefined;
+  const reading = new Promise<void>(resolve => {
+    started = resolve;
+  });
+  vi.spyOn(FigmaService.prototype, 'getFileVersion').mockResolvedValue({ version: '42', lastModified: '2026-01-01T00:00:00Z' });
+  vi.spyOn(FigmaService.prototype, 'analyzeFileWithAssets').mockImplementation(() => {
+    started();
+    return analyze();
+  });
+
+  const runner = new ScreenJobRunner({
+    client,
+    workerId: WORKER,
+    ownerId: OWNER,
+    figmaToken: 'figma-token',
+    llmSettings: { provider: 'openai', apiKey: 'llm-key' } as ScreenJobRunnerConfig['llmSettings'],
+    heartbeatMs
+  });
+  return { runner, calls, reading };
+};
+
+const hang = () => new Promise<never>(() => undefined);
+
+const screenUpdates = (calls: Call[]) => calls.filter(call => call.table === 'screens' && call.action === 'update');
+const jobUpdates = (calls: Call[]) =>
+  calls.filter(call => call.table === SCREEN_JOBS_TABLE && call.action === 'update' && !('heartbeat_at' in call.values));
+const jobEvents = (calls: Call[]) =>
+  calls.filter(call => call.table === SCREEN_JOB_EVENTS_TABLE && call.values.type?.startsWith('job:')).map(call => call.values);
+
+describe('ScreenJobRunner', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('leaves a job another worker took over without writing to it', async () => {
+    const { runner, calls } = setup(() => [], hang);
+
+    await runner.runOnce();
+
+    // Only the checkpoint the run started with, and no status
+    expect(screenUpdates(calls)).toHaveLength(1);
+    expect(screenUpdates(calls)[0].values.status).toBeUndefined();
+    expect(jobUpdates(calls)).toEqual([]);
+    expect(jobEvents(calls)).toEqual([]);
+  });
+
+  it('marks the checkpoint cancelled when the user cancelled the job', async () => {
+    const { runner, calls } = setup(() => [{ status: 'cancelled' }], hang);
+
+    await runner.runOnce();
+
+    const [last] = screenUpdates(calls).slice(-1);
+    expect(last.values.status).toBe('error');
+    expect(last.values.analysis_data?.checkpoint.cancelled).toBe(true);
+    expect(jobEvents(calls)).toEqual([expect.objectContaining({ type: 'job:cancelled' })]);
+    expect(jobUpdates(calls)).toEqual([]);
+  });
+
+  it('puts the job back in the queue when the worker stops', async () => {
+    const { runner, calls, reading } = setup(() => [{ status: 'running' }], hang, 60 * 1000);
+
+    const run = runner.runOnce();
+    await reading;
+    runner.stop();
+    await run;
+
+    expect(jobUpdates(calls)).toEqual([
+      expect.objectContaining({ values: { status: 'queued', worker_id: null }, filters: { id: JOB.id } })
+    ]);
+    expect(screenUpdates(calls).every(call => call.values.status === undefined)).toBe(true);
+    expect(jobEvents(calls)).toEqual([]);
+  });
+
+  it('records the failed stage and fails the job', async () => {
+    const { runner, calls } = setup(() => [{ status: 'running' }], () => Promise.reject(new Error('File not found')), 60 * 1000);
+
+    await runner.runOnce();
+
+    const [last] = screenUpdates(calls).slice(-1);
+    expect(last.values.status).toBe('error');
+    expect(last.values.analysis_data?.checkpoint).toMatchObject({
+      failedStage: 'fetchFigma',
+      failedStageLabel: 'Fetching Figma file data',
+      error: 'File not found'
+    });
+    expect(jobEvents(calls)).toEqual([expect.objectContaining({ type: 'job:failed', stage: 'fetchFigma', message: 'File not found' })]);
+    expect(jobUpdates(calls)).toEqual([
+      expect.objectContaining({
+        values: expect.objectContaining({ status: 'failed', error: 'File not found' }),
+        filters: { id: JOB.id, worker_id: WORKER }
+      })
+    ]);
+    // The job only fails after the checkpoint that explains it was written
+    expect(calls.indexOf(last)).toBeLessThan(calls.indexOf(jobUpdates(calls)[0]));
+  });
+});
@@ -0,0 +1,292 @@
+import { supabaseClient } from '../utility';
+import { isAbortError } from './httpClient';
+import { LLMSettings, getStageModel } from './llmProvider';
+import AssetStorageService from './assetStorageService';
+import Pipeline from './pipelineEngine';
+import { STAGE_CACHE_TABLE, SupabaseStageCache } from './stageCache';
+import {
+  FigmaPipelineState,
+  createFigmaPipeline,
+  createFigmaPipelineServices,
+  toInitialSession,
+  toProcessedScreen
+} from './figmaPipeline';
+import { ProcessingCheckpoint, getCheckpoint, startCheckpoint } from './processingCheckpoint';
+import {
+  SCREEN_JOBS_TABLE,
+  SCREEN_JOB_EVENTS_TABLE,
+  ScreenJob,
+  ScreenJobEvent,
+  ScreenJobStatus
+} from './screenJobs';
+
+export interface ScreenJobRunnerConfig {
+  // Needs the service role key: the worker reads and writes every user's screens
+  client: JobClient;
+  workerId: string;
+  // The only user whose jobs the worker runs; figmaToken and llmSettings are that user's
+  ownerId: string;
+  figmaToken: string;
+  llmSettings: LLMSettings;
+  pollIntervalMs?: number;
+  heartbeatMs?: number;
+}
+
+type JobClient = Pick<typeof supabaseClient, 'from' | 'rpc' | 'storage'>;
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+const DEFAULT_HEARTBEAT_MS = 15 * 1000;
+
+/**
+ * Server-side worker for Figma screens. It claims queued rows from screen_jobs (or jobs
+ * whose worker stopped sending heartbeats), runs the Figma pipeline with the worker's own
+ * credentials, and writes checkpoints, progress events and the final screen back to
+ * Supabase, where the UI follows along through the live provider.
+ *
+ * The app keeps Figma tokens and model keys in the browser, so a worker serves one account:
+ * it only claims the jobs of `ownerId`, whose credentials it was started with.
+ */
+class ScreenJobRunner {
+  private config: ScreenJobRunnerConfig;
+  private stopped = false;
+  private running?: AbortController;
+  private wake?: () => void;
+
+  constructor(config: ScreenJobRunnerConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Process jobs until stop() is called, polling while the queue is empty
+   */
+  async start(): Promise<void> {
+    console.log(`👷 [JOB RUNNER] Worker ${this.config.workerId} waiting for screen jobs`);
+    this.stopped = false;
+
+    while (!this.stopped) {
+      let processed = false;
+      try {
+        processed = await this.runOnce();
+      } catch (error) {
+        console.error('❌ [JOB RUNNER] Could not claim a job:', error);
+      }
+      if (!processed && !this.stopped) {
+        await new Promise<void>(resolve => {
+          const timer = setTimeout(resolve, this.config.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS);
+          this.wake = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+      }
+    }
+    console.log(`👋 [JOB RUNNER] Worker ${this.config.workerId} stopped`);
+  }
+
+  /**
+   * Stop polling; a job in progress goes back to the queue and resumes from its checkpoint
+   */
+  stop(): void {
+    this.stopped = true;
+    this.running?.abort();
+    this.wake?.();
+  }
+
+  /**
+   * Claim and process one job; resolves false when the queue is empty
+   */
+  async runOnce(): Promise<boolean> {
+    const { data, error } = await this.config.client.rpc('claim_screen_job', {
+      worker: this.config.workerId,
+      owner: this.config.ownerId
+    });
+    if (error) throw error;
+
+    const job: ScreenJob | undefined = Array.isArray(data) ? data[0] : data || undefined;
+    if (!job) return false;
+
+    await this.processJob(job);
+    return true;
+  }
+
+  private async processJob(job: ScreenJob): Promise<void> {
+    const { client, workerId, llmSettings } = this.config;
+    // Another account's files must not be read with this account's token
+    if (job.user_id !== this.config.ownerId) {
+      console.error(`❌ [JOB RUNNER] Job ${job.id} belongs to another user; is claim_screen_job up to date?`);
+      await this.finishJob(job, 'failed', 'This worker only runs the jobs of its own account');
+      return;
+    }
+
+    const controller = new AbortController();
+    this.running = controller;
+    // Why the run was aborted, when it was not the worker shutting down
+    let interruption: 'cancelled' | 'taken-over' | undefined;
+    let failedStage: string | undefined;
+    let pipeline: Pipeline<FigmaPipelineState> | undefined;
+    let screen: any;
+    let checkpoint: ProcessingCheckpoint | undefined;
+    // Writes in order, so a late checkpoint never overwrites the final screen
+    let writes: Promise<unknown> = Promise.resolve();
+
+    const write = (label: string, request: () => PromiseLike<{ error: any }>) => {
+      writes = writes
+        .then(async () => {
+          const { error } = await request();
+          if (error) throw error;
+        })
+        .catch(error => console.warn(`⚠️ [JOB RUNNER] Could not write ${label}:`, error));
+      return writes;
+    };
+    const recordEvent = (event: Omit<ScreenJobEvent, 'job_id' | 'screen_id'>) =>
+      write('a progress event', () => client.from(SCREEN_JOB_EVENTS_TABLE).insert({ job_id: job.id, screen_id: job.screen_id, ...event }));
+    const saveCheckpoint = (changes: Partial<ProcessingCheckpoint>, status?: string) => {
+      checkpoint = { ...checkpoint!, ...changes };
+      const values = { ...(status ? { status } : {}), analysis_data: { ...screen.analysis_data, checkpoint } };
+      return write('the checkpoint', () => client.from('screens').update(values).eq('id', job.screen_id));
+    };
+
+    // Also how the worker learns that the user cancelled the job or that another worker took it over
+    const heartbeat = setInterval(async () => {
+      const { data, error } = await client
+        .from(SCREEN_JOBS_TABLE)
+        .update({ heartbeat_at: new Date().toISOString() })
+        .eq('id', job.id)
+        .eq('worker_id', workerId)
+        .select('status');
+      if (error) {
+        console.warn('⚠️ [JOB RUNNER] Heartbeat failed:', error);
+      } else if (!data?.length) {
+        interruption = 'taken-over';
+        controller.abort();
+      } else if (data[0].status !== 'running') {
+        interruption = 'cancelled';
+        controller.abort();
+      }
+    }, this.config.heartbeatMs ?? DEFAULT_HEARTBEAT_MS);
+
+    console.log(`🏗️ [JOB RUNNER] Job ${job.id} (attempt ${job.attempts}) for screen ${job.screen_id}`);
+
+    try {
+      screen = await this.single(client.from('screens').select('*').eq('id', job.screen_id));
+      if (screen.status !== 'processing' || !screen.figma_url) {
+        await this.finishJob(job, 'cancelled', 'The screen was no longer waiting to be processed');
+        return;
+      }
+      const project = await this.single(
+        client.from('projects').select('user_id, mapping_rules, component_registry').eq('id', screen.project_id)
+      );
+
+      pipeline = createFigmaPipeline({
+        ...createFigmaPipelineServices({
+          figmaToken: this.config.figmaToken,
+          llmSettings,
+          mappingRules: project.mapping_rules,
+          componentRegistry: project.component_registry
+        }),
+        assetStorage: { service: new AssetStorageService(client), folder: `${project.user_id}/${screen.project_id}` }
+      });
+
+      checkpoint = startCheckpoint(screen.figma_url, getCheckpoint(screen), workerId);
+      saveCheckpoint({});
+
+      const unsubscribe = pipeline.subscribe(event => {
+        if (event.type === 'stage:start') {
+          const label = pipeline!.stages[event.index]?.label;
+          recordEvent({ type: event.type, stage: event.stage, message: event.attempt > 1 ? `${label} (attempt ${event.attempt})` : label });
+        } else if (event.type === 'stage:progress') {
+          recordEvent({ type: event.type, stage: event.stage, message: event.message, progress: event.progress });
+        } else if (event.type === 'stage:retry') {
+          recordEvent({ type: event.type, stage: event.stage, message: (event.error as any)?.message || String(event.error) });
+        } else if (event.type === 'stage:complete') {
+          recordEvent({ type: event.type, stage: event.stage, message: event.cached ? 'Restored from cache' : `${event.durationMs}ms` });
+          saveCheckpoint({
+            completedStages: [...checkpoint!.completedStages, event.stage],
+            state: { ...checkpoint!.state, ...event.outputs },
+            heartbeatAt: new Date().toISOString()
+          });
+        } else if (event.type === 'pipeline:error') {
+          failedStage = event.stage;
+        }
+      });
+
+      try {
+        const state = await pipeline.run({ ...checkpoint.state, figmaUrl: screen.figma_url }, {
+          signal: controller.signal,
+          // The owner's cached results only; the service role would otherwise see everyone's
+          cache: new SupabaseStageCache(client, STAGE_CACHE_TABLE, job.user_id),
+          resume: true
+        }) as FigmaPipelineState;
+
+        await writes;
+        const { error: saveError } = await client.from('screens').update(toProcessedScreen(state)).eq('id', job.screen_id);
+        if (saveError) throw saveError;
+
+        const { error: sessionError } = await client
+          .from('vibe_sessions')
+          .insert(toInitialSession(job.screen_id, state, `${llmSettings.provider}/${getStageModel(llmSettings, 'vision')}`));
+        if (sessionError) console.warn('⚠️ [JOB RUNNER] Could not record the initial session:', sessionError);
+
+        const expiring = state.assets.expiring?.length
+          ? `; ${state.assets.expiring.length} image(s) keep temporary Figma URLs, which expire`
+          : '';
+        await recordEvent({ type: 'job:succeeded', message: `${state.generated.code.length} characters of code generated${expiring}` });
+        await this.finishJob(job, 'succeeded');
+        console.log(`🏁 [JOB RUNNER] Job ${job.id} complete`);
+      } finally {
+        unsubscribe();
+      }
+    } catch (error: any) {
+      if (isAbortError(error) || controller.signal.aborted) {
+        if (interruption === 'cancelled') {
+          console.log(`🛑 [JOB RUNNER] Job ${job.id} was cancelled`);
+          if (checkpoint) await saveCheckpoint({ cancelled: true }, 'error');
+          await recordEvent({ type: 'job:cancelled', message: 'Cancelled' });
+        } else if (interruption === 'taken-over') {
+          console.warn(`⚠️ [JOB RUNNER] Job ${job.id} was claimed by another worker`);
+        } else {
+          // Shutting down: the next worker resumes from the checkpoint
+          console.log(`⏸️ [JOB RUNNER] Returning job ${job.id} to the queue`);
+          await writes;
+          await client.from(SCREEN_JOBS_TABLE).update({ status: 'queued', worker_id: null }).eq('id', job.id);
+        }
+        return;
+      }
+
+      console.error(`❌ [JOB RUNNER] Job ${job.id} failed:`, error);
+      const message = error?.message || String(error);
+      if (checkpoint) {
+        await saveCheckpoint({
+          failedStage,
+          failedStageLabel: pipeline?.stages.find(stage => stage.name === failedStage)?.label,
+          error: message
+        }, 'error');
+      } else if (screen) {
+        await write('the screen status', () => client.from('screens').update({ status: 'error' }).eq('id', job.screen_id));
+      }
+      await recordEvent({ type: 'job:failed', stage: failedStage, message });
+      await this.finishJob(job, 'failed', message);
+    } finally {
+      clearInterval(heartbeat);
+      this.running = undefined;
+    }
+  }
+
+  private async finishJob(job: ScreenJob, status: ScreenJobStatus, error?: string): Promise<void> {
+    const { error: updateError } = await this.config.client
+      .from(SCREEN_JOBS_TABLE)
+      .update({ status, error: error || null, updated_at: new Date().toISOString() })
+      .eq('id', job.id)
+      .eq('worker_id', this.config.workerId);
+    if (updateError) console.warn(`⚠️ [JOB RUNNER] Could not mark job ${job.id} ${status}:`, updateError);
+  }
+
+  private async single(query: PromiseLike<{ data: any; error: any }>): Promise<any> {
+    const { data, error } = await query;
+    if (error) throw error;
+    if (!data?.length) throw new Error('Record not found');
+    return data[0];
+  }
+}
+
+export default ScreenJobRunner;
@@ -0,0 +1,37 @@
+/**
+ * Job queue for screens processed by the server-side worker (see screenJobRunner and
+ * src/worker). The browser enqueues jobs and follows their events through the live provider.
+ */
+export const SCREEN_JOBS_TABLE = 'screen_jobs';
+export const SCREEN_JOB_EVENTS_TABLE = 'screen_job_events';
+
+// Marks screens (in analysis_data.runner) that a job worker processes instead of the browser
+export const WORKER_RUNNER = 'worker';
+
+export type ScreenJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface ScreenJob {
+  id: string;
+  screen_id: string;
+  project_id: string;
+  user_id: string;
+  status: ScreenJobStatus;
+  attempts: number;
+  worker_id?: string | null;
+  heartbeat_at?: string | null;
+  error?: string | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+// Progress rows the UI follows while a worker processes a screen
+export interface ScreenJobEvent {
+  id?: number;
+  job_id: string;
+  screen_id: string;
+  type: 'stage:start' | 'stage:progress' | 'stage:retry' | 'stage:complete' | 'job:succeeded' | 'job:failed' | 'job:cancelled';
+  stage?: string | null;
+  message?: string | null;
+  progress?: number | null;
+  created_at?: string;
+}
@@ -1,4 +1,13 @@
 import { ComponentAnalysis, FigmaFile } from './figmaService';
+import { LLMProvider } from './llmProvider';
+import { isAbortError } from './httpClient';
+import {
+  JSONSchema,
+  StructuredOutputDiagnostics,
+  describeStructuredOutputFailure,
+  requestStructuredOutput
+} from './structuredOutput';
+import { assignNodesToGroups } from '../utils/groupAssignment';
 
 export interface SemanticGroup {
   id: string;
@@ -36,22 +45,92 @@ export interface SemanticGroupingResult {
   ungroupedNodes: ComponentAnalysis[];
   confidence: number;
   processingTime: number;
+  // How the model response was validated, and why it was rejected if the fallback was used
+  diagnostics?: StructuredOutputDiagnostics;
 }
 
+const BOUNDS_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    x: { type: 'number' },
+    y: { type: 'number' },
+    width: { type: 'number', minimum: 0 },
+    height: { type: 'number', minimum: 0 }
+  },
+  required: ['x', 'y', 'width', 'height']
+};
+
+/**
+ * Shape of the model's grouping response. Group children are node IDs, resolved
+ * to ComponentAnalysis entries when the SemanticGroupingResult is built.
+ */
+export const SEMANTIC_GROUPING_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    layoutStructure: {
+      type: 'object',
+      properties: {
+        screenType: { type: 'string' },
+        mainSections: { type: 'array', items: { type: 'string' } },
+        userFlow: { type: 'string' }
+      },
+      required: ['screenType', 'mainSections']
+    },
+    groups: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          type: { type: 'string', enum: ['button', 'text', 'card', 'navigation', 'input', 'list', 'image', 'container', 'other'] },
+          description: { type: 'string' },
+          bounds: BOUNDS_SCHEMA,
+          children: { type: 'array', items: { type: 'string' } },
+          properties: { type: 'object' },
+          confidence: { type: 'number', minimum: 0, maximum: 1 }
+        },
+        required: ['id', 'name', 'type', 'bounds', 'children']
+      }
+    },
+    confidence: { type: 'number', minimum: 0, maximum: 1 }
+  },
+  required: ['groups', 'confidence']
+};
+
+// Bump when the grouping prompt, schema or request settings change; cached results of
+// older versions are then ignored
+export const SEMANTIC_GROUPING_PROMPT_VERSION = '1';
+
 class SemanticGroupingService {
-  private apiKey: string;
-  private baseUrl: string = 'https://api.openai.com/v1';
+  private provider: LLMProvider;
+  private model?: string;
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
+  constructor(provider: LLMProvider, model?: string) {
+    this.provider = provider;
+    this.model = model;
   }
 
   /**
-   * Analyze Figma structure and group related components semantically
+   * Provider, model and prompt version behind the results, e.g. for cache keys
+   */
+  describeModel(): { provider: string; model: string; promptVersion: string } {
+    return {
+      provider: this.provider.name,
+      model: this.model || this.provider.defaultModel,
+      promptVersion: SEMANTIC_GROUPING_PROMPT_VERSION
+    };
+  }
+
+  /**
+   * Analyze Figma structure and group related components semantically. Model failures fall
+   * back to a heuristic grouping; an aborted signal rejects instead.
    */
   async groupComponents(
     figmaFile: FigmaFile,
-    figmaComponents: ComponentAnalysis[]
+    figmaComponents: ComponentAnalysis[],
+    signal?: AbortSignal
   ): Promise<SemanticGroupingResult> {
     const startTime = Date.now();
     
@@ -61,51 +140,48 @@ class SemanticGroupingService {
       // Create analysis prompt focused on structure
       const prompt = this.createGroupingPrompt(figmaFile, figmaComponents);
       
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify({
-          model: 'gpt-3.5-turbo',
-          messages: [
-            {
-              role: 'system',
-              content: `You are a UI structure analyst specializing in semantic component grouping. Your job is to analyze Figma JSON hierarchy and group related nodes into logical UI components that developers would work with.
-
-              Focus on:
-              - Grouping related nodes (text + background = button)
-              - Identifying interactive patterns
-              - Recognizing collections of similar elements
-              - Understanding component hierarchy and nesting
-
-              Always respond with valid JSON matching the expected format.`
-            },
-            {
-              role: 'user',
-              content: prompt
-            }
-          ],
-          max_tokens: 3000,
-          temperature: 0.2
-        })
+      const { data: result, diagnostics } = await requestStructuredOutput<any>(this.provider, {
+        schemaName: 'SemanticGroupingResult',
+        schema: SEMANTIC_GROUPING_SCHEMA,
+        model: this.model,
+        messages: [
+          {
+            role: 'system',
+            content: `You are a UI structure analyst specializing in semantic component grouping. Your job is to analyze Figma JSON hierarchy and group related nodes into logical UI components that developers would work with.
+
+            Focus on:
+            - Grouping related nodes (text + background = button)
+            - Identifying interactive patterns
+            - Recognizing collections of similar elements
+            - Understanding component hierarchy and nesting
+
+            Always respond with valid JSON matching the expected format.`
+          },
+          {
+            role: 'user',
+            content: prompt
+          }
+        ],
+        maxTokens: 3000,
+        temperature: 0.2,
+        signal
       });
 
-      if (!response.ok) {
-        throw new Error(`Semantic grouping API error: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      const result = JSON.parse(data.choices[0].message.content);
-      
       const processingTime = Date.now() - startTime;
       
-      return this.validateAndEnhanceResult(result, figmaComponents, processingTime);
+      return {
+        ...this.validateAndEnhanceResult(result, figmaComponents, processingTime),
+        diagnostics
+      };
       
     } catch (error) {
-      console.error('Semantic grouping failed:', error);
-      return this.createFallbackResult(figmaComponents, Date.now() - startTime);
+      if (isAbortError(error)) throw error;
+      // Reported to the caller through the diagnostics; the trace is for debugging
+      console.log('⚠️ Semantic grouping failed, grouping heuristically:', error);
+      return {
+        ...this.createFallbackResult(figmaComponents, Date.now() - startTime),
+        diagnostics: describeStructuredOutputFailure(error, this.provider, 'SemanticGroupingResult', this.model)
+      };
     }
   }
 
@@ -585,98 +661,21 @@ ${clusters.slice(0, 5).map((cluster, i) =>
   }
 
   /**
-   * Auto-map components to semantic groups based on content and position
+   * Fill groups the model left empty from geometry and hierarchy (see assignNodesToGroups).
+   * Nodes the model already placed in another group, and their descendants, stay where they are.
    */
   private autoMapComponentsToGroups(groups: SemanticGroup[], components: ComponentAnalysis[]): void {
-    const availableComponents = [...components];
-
-    groups.forEach(group => {
-      if (group.children.length > 0) return; // Skip groups that already have children
-
-      const mappedComponents: ComponentAnalysis[] = [];
-
-      switch (group.name.toLowerCase()) {
-        case 'header section':
-          // Map header elements (top Y position, navigation elements)
-          const headerComponents = availableComponents.filter(comp => {
-            const isTopArea = comp.bounds.y < 150;
-            const isHeaderText = comp.type === 'TEXT' && comp.properties.characters?.toLowerCase().includes('payment');
-            const isBackButton = comp.name.toLowerCase().includes('back') || comp.type === 'INSTANCE';
-            return isTopArea && (isHeaderText || isBackButton);
-          });
-          mappedComponents.push(...headerComponents);
-          break;
-
-        case 'payment methods section':
-          // Map payment-related elements
-          const paymentComponents = availableComponents.filter(comp => {
-            const isPaymentButton = comp.name.toLowerCase().includes('cash') || 
-                                  comp.name.toLowerCase().includes('visa') ||
-                                  comp.name.toLowerCase().includes('mastercard') ||
-                                  comp.name.toLowerCase().includes('paypal');
-            const isPaymentText = comp.type === 'TEXT' && (
-              comp.properties.characters?.toLowerCase().includes('cash') ||
-              comp.properties.characters?.toLowerCase().includes('visa') ||
-              comp.properties.characters?.toLowerCase().includes('mastercard') ||
-              comp.properties.characters?.toLowerCase().includes('paypal') ||
-              comp.properties.characters?.toLowerCase().includes('add') ||
-              comp.properties.characters?.toLowerCase().includes('card')
-            );
-            const isMiddleArea = comp.bounds.y >= 150 && comp.bounds.y < 400;
-            return isMiddleArea && (isPaymentButton || isPaymentText || comp.type === 'RECTANGLE' || comp.type === 'INSTANCE');
-          });
-          mappedComponents.push(...paymentComponents);
-          break;
-
-        case 'total display':
-          // Map total/price elements
-          const totalComponents = availableComponents.filter(comp => {
-            const hasTotalText = comp.properties.characters?.toLowerCase().includes('total') ||
-                               comp.properties.characters?.includes('$96') ||
-                               comp.properties.characters?.includes('96');
-            const isTotalLabel = comp.type === 'TEXT' && hasTotalText;
-            const isBottomMiddle = comp.bounds.y >= 400 && comp.bounds.y < 500;
-            return isBottomMiddle && (isTotalLabel || (comp.type === 'TEXT' && comp.bounds.width < 200));
-          });
-          mappedComponents.push(...totalComponents);
-          break;
-
-        case 'primary action button':
-          // Map main action button
-          const actionComponents = availableComponents.filter(comp => {
-            const isPayButton = comp.properties.characters?.toLowerCase().includes('pay') ||
-                              comp.properties.characters?.toLowerCase().includes('confirm') ||
-                              comp.name.toLowerCase().includes('pay') ||
-                              comp.name.toLowerCase().includes('button');
-            const isBottomArea = comp.bounds.y >= 500;
-            const isWideButton = comp.bounds.width > 200;
-            return isBottomArea && (isPayButton || isWideButton);
-          });
-          mappedComponents.push(...actionComponents);
-          break;
-
-        default:
-          // For other groups, try to map by position relative to group bounds
-          if (group.bounds) {
-            const nearbyComponents = availableComponents.filter(comp => {
-              const distance = Math.abs(comp.bounds.x - group.bounds.x) + Math.abs(comp.bounds.y - group.bounds.y);
-              return distance < 100; // Within 100px
-            });
-            mappedComponents.push(...nearbyComponents.slice(0, 3)); // Limit to 3 components
-          }
-      }
-
-      // Assign mapped components to group and remove from available
-      group.children = mappedComponents;
-      mappedComponents.forEach(comp => {
-        const index = availableComponents.indexOf(comp);
-        if (index > -1) availableComponents.splice(index, 1);
-      });
+    const emptyGroups = groups.filter(group => group.children.length === 0);
+    const claimed = new Set(groups.flatMap(group => group.children.map(child => child.id)));
+    const assignments = assignNodesToGroups(emptyGroups, components, { claimed });
 
-      console.log(`📍 Mapped ${mappedComponents.length} components to "${group.name}"`);
+    emptyGroups.forEach((group, index) => {
+      group.children = assignments[index];
+      console.log(`📍 Mapped ${group.children.length} components to "${group.name}"`);
     });
 
-    console.log(`✅ Auto-mapping complete. ${availableComponents.length} components remain unmapped.`);
+    const mapped = new Set(groups.flatMap(group => group.children.map(child => child.id)));
+    console.log(`✅ Auto-mapping complete. ${components.length - mapped.size} components remain unmapped.`);
   }
 
   /**
@@ -0,0 +1,175 @@
+import { supabaseClient } from '../utility';
+import { StageCache, StageCacheEntry } from './pipelineEngine';
+
+export const STAGE_CACHE_TABLE = 'stage_cache';
+
+const DATABASE_NAME = 'vibeforge-stage-cache';
+const STORE_NAME = 'entries';
+
+type TableClient = Pick<typeof supabaseClient, 'from'>;
+
+/**
+ * Results kept for the lifetime of the process, e.g. for scripts and the debugger
+ */
+export class MemoryStageCache implements StageCache {
+  private entries = new Map<string, StageCacheEntry>();
+
+  async get(key: string): Promise<StageCacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    // Copies, so callers mutating a result don't change the cached one
+    return entry && structuredClone(entry);
+  }
+
+  async set(entry: StageCacheEntry): Promise<void> {
+    this.entries.set(entry.key, structuredClone(entry));
+  }
+}
+
+/**
+ * Results kept in the browser's IndexedDB. Where IndexedDB is unavailable (Node, private
+ * windows that block it) every lookup is a miss.
+ */
+export class IndexedDbStageCache implements StageCache {
+  private database?: Promise<IDBDatabase | null>;
+
+  async get(key: string): Promise<StageCacheEntry | undefined> {
+    const database = await this.open();
+    if (!database) return undefined;
+
+    return this.request<StageCacheEntry | undefined>(
+      database.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key)
+    );
+  }
+
+  async set(entry: StageCacheEntry): Promise<void> {
+    const database = await this.open();
+    if (!database) return;
+
+    await this.request(database.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(entry));
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.database) {
+      this.database = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(DATABASE_NAME, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('⚠️ [STAGE CACHE] IndexedDB is unavailable:', request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.database;
+  }
+
+  private request<T>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * A user's results, shared between their devices through the stage_cache table. Row level
+ * security limits a signed-in client to its own rows; a service-role client (the job worker)
+ * passes the user whose rows it reads and writes as `owner`.
+ */
+export class SupabaseStageCache implements StageCache {
+  private client: TableClient;
+  private table: string;
+  private owner?: string;
+
+  constructor(client: TableClient = supabaseClient, table: string = STAGE_CACHE_TABLE, owner?: string) {
+    this.client = client;
+    this.table = table;
+    this.owner = owner;
+  }
+
+  async get(key: string): Promise<StageCacheEntry | undefined> {
+    let query = this.client
+      .from(this.table)
+      .select('key, pipeline, stage, outputs, created_at')
+      .eq('key', key);
+    if (this.owner) query = query.eq('user_id', this.owner);
+    const { data, error } = await query.maybeSingle();
+    if (error) throw error;
+    if (!data) return undefined;
+
+    return {
+      key: data.key,
+      pipeline: data.pipeline,
+      stage: data.stage,
+      outputs: data.outputs,
+      createdAt: Date.parse(data.created_at)
+    };
+  }
+
+  async set(entry: StageCacheEntry): Promise<void> {
+    // Without an owner, user_id defaults to the signed-in user
+    const { error } = await this.client.from(this.table).upsert({
+      ...(this.owner ? { user_id: this.owner } : {}),
+      key: entry.key,
+      pipeline: entry.pipeline,
+      stage: entry.stage,
+      outputs: entry.outputs,
+      created_at: new Date(entry.createdAt).toISOString()
+    }, { onConflict: 'user_id,key' });
+    if (error) throw error;
+  }
+}
+
+/**
+ * Looks in each cache in order and copies hits into the faster caches before it; results
+ * are written to all of them. A failing cache is skipped.
+ */
+export class TieredStageCache implements StageCache {
+  private layers: StageCache[];
+
+  constructor(layers: StageCache[]) {
+    this.layers = layers;
+  }
+
+  async get(key: string): Promise<StageCacheEntry | undefined> {
+    for (let index = 0; index < this.layers.length; index++) {
+      try {
+        const entry = await this.layers[index].get(key);
+        if (!entry) continue;
+
+        this.layers.slice(0, index).forEach(layer => {
+          layer.set(entry).catch(error => console.warn('⚠️ [STAGE CACHE] Could not copy a cached result:', error));
+        });
+        return entry;
+      } catch (error) {
+        console.warn('⚠️ [STAGE CACHE] Cache lookup failed, trying the next one:', error);
+      }
+    }
+    return undefined;
+  }
+
+  async set(entry: StageCacheEntry): Promise<void> {
+    const results = await Promise.allSettled(this.layers.map(layer => layer.set(entry)));
+    const failed = results.filter(result => result.status === 'rejected');
+    if (failed.length === this.layers.length && failed.length > 0) {
+      throw (failed[0] as PromiseRejectedResult).reason;
+    }
+    failed.forEach(result => {
+      console.warn('⚠️ [STAGE CACHE] Could not store a result:', (result as PromiseRejectedResult).reason);
+    });
+  }
+}
+
+/**
+ * The app's cache: this browser's IndexedDB first, then the signed-in user's rows in Supabase
+ */
+export function createStageCache(): StageCache {
+  return new TieredStageCache([new IndexedDbStageCache(), new SupabaseStageCache()]);
+}
@@ -0,0 +1,328 @@
+import { ChatMessage, CompletionRequest, LLMProvider } from './llmProvider';
+import { HttpError } from './httpClient';
+
+/**
+ * The subset of JSON Schema used to describe model responses
+ */
+export type JSONSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export type JSONPrimitive = string | number | boolean | null;
+
+export interface JSONSchema {
+  type?: JSONSchemaType | JSONSchemaType[];
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+  minItems?: number;
+  enum?: JSONPrimitive[];
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface StructuredOutputAttempt {
+  attempt: number;
+  // Empty when the response was accepted
+  errors: string[];
+  // The response only passed after local fixes (fences, trailing commas, numeric strings)
+  repaired: boolean;
+  // Start of the raw response, kept for debugging
+  responsePreview?: string;
+}
+
+export interface StructuredOutputDiagnostics {
+  schemaName: string;
+  provider: string;
+  model: string;
+  attempts: StructuredOutputAttempt[];
+  // The stage gave up on the model and used its heuristic result
+  usedFallback: boolean;
+  failureReason?: string;
+}
+
+export class StructuredOutputError extends Error {
+  diagnostics: StructuredOutputDiagnostics;
+
+  constructor(message: string, diagnostics: StructuredOutputDiagnostics) {
+    super(message);
+    this.name = 'StructuredOutputError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+export interface StructuredOutputRequest extends Omit<CompletionRequest, 'json' | 'jsonSchema'> {
+  schemaName: string;
+  schema: JSONSchema;
+  // Total model calls, including repair requests
+  maxAttempts?: number;
+}
+
+export interface StructuredOutputResult<T> {
+  data: T;
+  diagnostics: StructuredOutputDiagnostics;
+}
+
+const MAX_REPORTED_ERRORS = 20;
+const RESPONSE_PREVIEW_CHARS = 500;
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string): boolean => {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'object':
+      return typeOf(value) === 'object';
+    default:
+      return typeOf(value) === type;
+  }
+};
+
+/**
+ * Check a value against a schema, returning one message per problem
+ */
+export const validateAgainstSchema = (value: unknown, schema: JSONSchema, path = '$'): string[] => {
+  const errors: string[] = [];
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as JSONPrimitive)) {
+    errors.push(`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} item(s)`);
+    }
+    const { items } = schema;
+    if (items) {
+      value.forEach((item, index) => {
+        errors.push(...validateAgainstSchema(item, items, `${path}[${index}]`));
+      });
+    }
+  } else if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+
+    (schema.required || []).forEach(key => {
+      if (record[key] === undefined) {
+        errors.push(`${path}.${key}: is required`);
+      }
+    });
+
+    Object.entries(record).forEach(([key, child]) => {
+      const childSchema = schema.properties?.[key];
+      if (childSchema) {
+        errors.push(...validateAgainstSchema(child, childSchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateAgainstSchema(child, schema.additionalProperties, `${path}.${key}`));
+      }
+    });
+  }
+
+  return errors;
+};
+
+/**
+ * Coerce values models commonly get almost right ("0.9" for 0.9, "true" for true).
+ * Returns a new value and whether anything changed.
+ */
+const coerceToSchema = (value: unknown, schema: JSONSchema): { value: unknown; changed: boolean } => {
+  const types = schema.type ? (Array.isArray(schema.type) ? schema.type : [schema.type]) : [];
+
+  if (typeof value === 'string' && !types.includes('string')) {
+    if ((types.includes('number') || types.includes('integer')) && value.trim() !== '' && !Number.isNaN(Number(value))) {
+      return { value: Number(value), changed: true };
+    }
+    if (types.includes('boolean') && (value === 'true' || value === 'false')) {
+      return { value: value === 'true', changed: true };
+    }
+  }
+
+  const { items: itemSchema, properties } = schema;
+  if (Array.isArray(value) && itemSchema) {
+    let changed = false;
+    const items = value.map(item => {
+      const result = coerceToSchema(item, itemSchema);
+      changed = changed || result.changed;
+      return result.value;
+    });
+    return { value: items, changed };
+  }
+
+  if (typeOf(value) === 'object' && properties) {
+    let changed = false;
+    const record: Record<string, unknown> = {};
+    Object.entries(value as Record<string, unknown>).forEach(([key, child]) => {
+      const childSchema = properties[key];
+      const result = childSchema ? coerceToSchema(child, childSchema) : { value: child, changed: false };
+      changed = changed || result.changed;
+      record[key] = result.value;
+    });
+    return { value: record, changed };
+  }
+
+  return { value, changed: false };
+};
+
+/**
+ * Parse a model response as JSON, tolerating markdown fences, surrounding prose and trailing commas
+ */
+export const parseJsonResponse = (content: string): { value: unknown; repaired: boolean } => {
+  const trimmed = content.trim();
+  try {
+    return { value: JSON.parse(trimmed), repaired: false };
+  } catch {
+    // Fall through to the lenient parse
+  }
+
+  const unfenced = trimmed.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new SyntaxError('Response does not contain a JSON object');
+  }
+
+  const candidate = unfenced.slice(start, end + 1).replace(/,\s*([}\]])/g, '$1');
+  return { value: JSON.parse(candidate), repaired: true };
+};
+
+const describeSchema = (schemaName: string, schema: JSONSchema): string =>
+  `Respond with a single JSON object named "${schemaName}" that conforms to this JSON Schema:\n${JSON.stringify(schema)}`;
+
+const buildRepairMessage = (errors: string[]): string => {
+  const listed = errors.slice(0, MAX_REPORTED_ERRORS).map(error => `- ${error}`).join('\n');
+  const more = errors.length > MAX_REPORTED_ERRORS ? `\n- ...and ${errors.length - MAX_REPORTED_ERRORS} more` : '';
+  return `Your previous response did not match the required schema:\n${listed}${more}\n\nReturn the complete corrected JSON object only.`;
+};
+
+/**
+ * Ask a model for JSON matching a schema. The schema is sent as the provider's
+ * structured output format where supported and described in the prompt otherwise.
+ * Responses that fail to parse or validate are sent back with the errors for a
+ * repair, up to maxAttempts calls in total.
+ */
+export const requestStructuredOutput = async <T>(
+  provider: LLMProvider,
+  request: StructuredOutputRequest
+): Promise<StructuredOutputResult<T>> => {
+  const { schemaName, schema, maxAttempts = 2, ...completionRequest } = request;
+  const diagnostics: StructuredOutputDiagnostics = {
+    schemaName,
+    provider: provider.name,
+    model: request.model || provider.defaultModel,
+    attempts: [],
+    usedFallback: false
+  };
+
+  let messages: ChatMessage[] = [
+    ...request.messages,
+    { role: 'system', content: describeSchema(schemaName, schema) }
+  ];
+  let useNativeSchema = true;
+
+  let attempt = 0;
+  while (attempt < maxAttempts) {
+    attempt++;
+    let content: string;
+    try {
+      const completion = await provider.complete({
+        ...completionRequest,
+        messages,
+        json: true,
+        jsonSchema: useNativeSchema ? { name: schemaName, schema } : undefined
+      });
+      content = completion.content;
+      diagnostics.model = completion.model;
+    } catch (error) {
+      // Older models reject json_schema response formats; retry with plain JSON mode without using up an attempt
+      if (useNativeSchema && error instanceof HttpError && error.status === 400) {
+        useNativeSchema = false;
+        diagnostics.attempts.push({ attempt, errors: [`Provider rejected the response schema: ${error.message}`], repaired: false });
+        attempt--;
+        continue;
+      }
+      throw error;
+    }
+
+    let errors: string[];
+    let repaired = false;
+    let value: unknown;
+    try {
+      const parsed = parseJsonResponse(content);
+      const coerced = coerceToSchema(parsed.value, schema);
+      value = coerced.value;
+      repaired = parsed.repaired || coerced.changed;
+      errors = validateAgainstSchema(value, schema);
+    } catch (error) {
+      errors = [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`];
+    }
+
+    diagnostics.attempts.push({
+      attempt,
+      errors,
+      repaired,
+      responsePreview: errors.length > 0 ? content.slice(0, RESPONSE_PREVIEW_CHARS) : undefined
+    });
+
+    if (errors.length === 0) {
+      return { data: value as T, diagnostics };
+    }
+
+    console.warn(`⚠️ [STRUCTURED OUTPUT] ${schemaName} attempt ${attempt} failed validation:`, errors.slice(0, 5));
+
+    messages = [
+      ...messages,
+      { role: 'assistant', content },
+      { role: 'user', content: buildRepairMessage(errors) }
+    ];
+  }
+
+  const lastErrors = diagnostics.attempts[diagnostics.attempts.length - 1]?.errors || [];
+  diagnostics.failureReason = `${schemaName} failed validation after ${diagnostics.attempts.length} attempt(s): ${lastErrors.slice(0, 3).join('; ')}`;
+  throw new StructuredOutputError(diagnostics.failureReason, diagnostics);
+};
+
+/**
+ * Diagnostics for a stage that failed before or during the model call
+ */
+export const describeStructuredOutputFailure = (
+  error: unknown,
+  provider: LLMProvider,
+  schemaName: string,
+  model?: string
+): StructuredOutputDiagnostics => {
+  if (error instanceof StructuredOutputError) {
+    return { ...error.diagnostics, usedFallback: true };
+  }
+  return {
+    schemaName,
+    provider: provider.name,
+    model: model || provider.defaultModel,
+    attempts: [],
+    usedFallback: true,
+    failureReason: error instanceof Error ? error.message : String(error)
+  };
+};
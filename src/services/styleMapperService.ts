@@ -1,37 +1,116 @@
-import { ComponentAnalysis, DesignTokens } from './figmaService';
+import { AutoLayout, ComponentAnalysis, DesignTokens, FigmaIcon, LayoutSizing, NodeTokenRefs } from './figmaService';
+import MappingRuleEngine, { MappingRuleResult } from './mappingRuleEngine';
+import ComponentRegistry, { ComponentRegistryMatch, RegistryChildren } from './componentRegistry';
+import DesignTokenExporter from './designTokenExporter';
+import { FigmaEffect, FigmaPaint, blurToCss } from '../utils/figmaPaint';
+import { RichText } from '../utils/richText';
 
 export interface MappedComponent {
   id: string;
   name: string;
+  figmaType: string;
   muiComponent: string;
+  // Mapping rule that chose muiComponent
+  ruleId?: string;
   props: Record<string, any>;
   sx: Record<string, any>;
   children?: MappedComponent[];
+  // Offset from the parent's top-left corner (roots sit at 0,0)
+  position: { x: number; y: number };
+  // Taken out of the parent's auto-layout flow (layoutPositioning ABSOLUTE)
+  absolute?: boolean;
   content?: string;
+  // Styled runs, paragraphs and lists of a mixed-style text layer; content holds the plain text
+  richText?: RichText;
   imageUrl?: string;
+  // sx keys bound to a named Figma style or variable -> key in designSystem.colors
+  tokens?: { [sxKey: string]: string };
+  // Icon rendered as a Material-UI icon or as an SVG icon component, instead of its vector layers
+  icon?: FigmaIcon;
+  // Component from the project's own library (component registry) rendered instead of muiComponent
+  library?: {
+    entryId: string;
+    from: string;
+    name: string;
+    isDefault: boolean;
+    children: RegistryChildren;
+  };
 }
 
 export interface StyleMapping {
+  // Root nodes of the mapped tree; use flattenMappedComponents for a flat list
   components: MappedComponent[];
   designSystem: {
+    // Named Figma styles and variables first, then the remaining colors by palette role
     colors: { [key: string]: string };
     typography: { [key: string]: any };
     spacing: number[];
+    // Values of mode-dependent colors per variable mode (e.g. Light and Dark)
+    colorModes?: {
+      defaultMode: string;
+      modes: { [mode: string]: { [key: string]: string } };
+    };
   };
 }
 
+// Design system while mapping: colorTokenNames resolves Figma style names to keys in colors
+type DesignSystem = StyleMapping['designSystem'] & { colorTokenNames: Map<string, string> };
+
+type StrokeBorders = NonNullable<NonNullable<ComponentAnalysis['styling']>['borders']>;
+
+// sx property that receives each kind of node token reference
+const TOKEN_SX_KEYS: Array<[keyof NodeTokenRefs, string]> = [
+  ['background', 'backgroundColor'],
+  ['text', 'color'],
+  ['border', 'borderColor'],
+  ['border', 'outlineColor']
+];
+
+// Styles an icon keeps from its Figma layer
+const ICON_SX_KEYS = [
+  'width', 'height', 'minWidth', 'minHeight', 'maxWidth', 'maxHeight',
+  'flex', 'flexGrow', 'flexShrink', 'flexBasis', 'alignSelf', 'opacity', 'mixBlendMode', 'filter'
+];
+
+/**
+ * Identifier for a Figma style or variable name: "Primary/500" -> "primary500"
+ */
+const toTokenKey = (name: string): string => {
+  const words = name.replace(/[^A-Za-z0-9]+/g, ' ').trim().split(/\s+/).filter(Boolean);
+  const key = words
+    .map((word, index) => index === 0 ? word.charAt(0).toLowerCase() + word.slice(1) : word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+  return /^\d/.test(key) ? `token${key}` : key || 'token';
+};
+
+/**
+ * Depth-first list of every node in a mapped component tree
+ */
+export const flattenMappedComponents = (components: MappedComponent[]): MappedComponent[] =>
+  components.flatMap(component => [component, ...flattenMappedComponents(component.children || [])]);
+
 class StyleMapperService {
+  private ruleEngine: MappingRuleEngine;
+  private registry: ComponentRegistry;
+  private tokenExporter = new DesignTokenExporter();
+
+  constructor(ruleEngine?: MappingRuleEngine, registry?: ComponentRegistry) {
+    this.ruleEngine = ruleEngine || MappingRuleEngine.forProject();
+    this.registry = registry || new ComponentRegistry();
+  }
   
   /**
    * Map Figma components to Material-UI components with proper styling
    */
   mapComponentsToMui(
-    components: ComponentAnalysis[], 
+    allComponents: ComponentAnalysis[], 
     designTokens: DesignTokens,
     assetUrls: { [nodeId: string]: string }
   ): StyleMapping {
+    const components = this.dropHiddenComponents(allComponents);
     console.log('🎭 [STYLE MAPPER] Starting component mapping:', {
       components: components.length,
+      hidden: allComponents.length - components.length,
       designTokens: designTokens,
       assetUrls: Object.keys(assetUrls).length
     });
@@ -40,48 +119,237 @@ class StyleMapperService {
     const designSystem = this.buildDesignSystem(designTokens);
     console.log('🎨 [STYLE MAPPER] Design system built:', designSystem);
     
+    // Pick a Material-UI component for every node from the mapping rules
+    const ruleMatches = this.ruleEngine.matchAll(components);
+
     // Map components
-    const mappedComponents = components.map(component => 
-      this.mapSingleComponent(component, assetUrls, designSystem)
-    ).filter(Boolean) as MappedComponent[];
+    const mappedComponents = components.map(component => {
+      const libraryMatch = this.registry.resolve(component);
+      if (libraryMatch) {
+        return this.mapLibraryComponent(component, libraryMatch);
+      }
+      const icon: FigmaIcon | undefined = component.properties.icon;
+      if (icon && (icon.muiIcon || icon.svg)) {
+        return this.mapIconComponent(component, icon, designSystem);
+      }
+      const rule = ruleMatches.get(component.id);
+      return rule ? this.mapSingleComponent(component, rule, assetUrls, designSystem) : null;
+    }).filter(Boolean) as MappedComponent[];
+    
+    // Rebuild the Figma hierarchy from the flat, depth-first list
+    const tree = this.buildComponentTree(components, mappedComponents);
     
     console.log('🎯 [STYLE MAPPER] Components mapped:', {
       total: mappedComponents.length,
+      roots: tree.length,
+      afterCollapse: flattenMappedComponents(tree).length,
+      library: mappedComponents.filter(comp => comp.library).length,
+      icons: mappedComponents.filter(comp => comp.icon).length,
       byType: mappedComponents.reduce((acc, comp) => {
         acc[comp.muiComponent] = (acc[comp.muiComponent] || 0) + 1;
         return acc;
       }, {} as { [key: string]: number })
     });
     
+    const { colorTokenNames, ...mappedDesignSystem } = designSystem;
+    console.log('🏷️ [STYLE MAPPER] Named color tokens:', colorTokenNames.size);
+
     const result = {
-      components: mappedComponents,
-      designSystem
+      components: tree,
+      designSystem: mappedDesignSystem
     };
     
     console.log('✅ [STYLE MAPPER] Mapping complete');
     return result;
   }
 
+  /**
+   * Hidden layers are not part of the screen, and neither is anything inside them
+   */
+  private dropHiddenComponents(components: ComponentAnalysis[]): ComponentAnalysis[] {
+    const hidden = new Set<string>();
+    // The flat list is depth-first, so a hidden parent is always seen before its children
+    return components.filter(component => {
+      if (component.properties.visible === false || (component.parentId && hidden.has(component.parentId))) {
+        hidden.add(component.id);
+        return false;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Nest mapped components under their Figma parents and drop wrappers that
+   * contribute nothing visually
+   */
+  private buildComponentTree(
+    components: ComponentAnalysis[],
+    mappedComponents: MappedComponent[]
+  ): MappedComponent[] {
+    const analysisById = new Map(components.map(component => [component.id, component]));
+    const mappedById = new Map(mappedComponents.map(mapped => [mapped.id, mapped]));
+    const roots: MappedComponent[] = [];
+
+    // The flat list is depth-first, so parents are always seen before their children
+    mappedComponents.forEach(mapped => {
+      const analysis = analysisById.get(mapped.id);
+      const parent = analysis?.parentId ? mappedById.get(analysis.parentId) : undefined;
+      const parentAnalysis = analysis?.parentId ? analysisById.get(analysis.parentId) : undefined;
+
+      if (parent && analysis && parentAnalysis) {
+        mapped.position = {
+          x: analysis.bounds.x - parentAnalysis.bounds.x,
+          y: analysis.bounds.y - parentAnalysis.bounds.y
+        };
+        parent.children = parent.children || [];
+        parent.children.push(mapped);
+      } else {
+        mapped.position = { x: 0, y: 0 };
+        roots.push(mapped);
+      }
+    });
+
+    roots.forEach(root => this.applyLibraryChildren(root));
+
+    return roots
+      .map(root => this.collapseWrappers(root, analysisById))
+      .filter((node): node is MappedComponent => node !== null);
+  }
+
+  /**
+   * Library components render their own internals: keep only the text or nothing,
+   * unless the registry entry asks for the mapped layers
+   */
+  private applyLibraryChildren(node: MappedComponent): void {
+    if (node.library && node.library.children !== 'nodes') {
+      if (node.library.children === 'text') {
+        const text = flattenMappedComponents(node.children || [])
+          .map(child => child.content)
+          .filter(Boolean)
+          .join(' ');
+        node.content = text || undefined;
+      }
+      delete node.children;
+      return;
+    }
+
+    (node.children || []).forEach(child => this.applyLibraryChildren(child));
+  }
+
+  /**
+   * Replace pass-through wrappers with their only child and drop empty ones
+   */
+  private collapseWrappers(
+    node: MappedComponent,
+    analysisById: Map<string, ComponentAnalysis>
+  ): MappedComponent | null {
+    if (node.children) {
+      node.children = node.children
+        .map(child => this.collapseWrappers(child, analysisById))
+        .filter((child): child is MappedComponent => child !== null);
+      if (node.children.length === 0) {
+        delete node.children;
+      }
+    }
+
+    const analysis = analysisById.get(node.id);
+    if (!analysis || !this.isPlainWrapper(analysis, node)) {
+      return node;
+    }
+
+    if (!node.children) {
+      // Nothing to draw and nothing inside
+      return null;
+    }
+
+    if (node.children.length === 1) {
+      const [child] = node.children;
+      // The child takes the wrapper's place, so its offset is now relative to the grandparent
+      child.position = {
+        x: child.position.x + node.position.x,
+        y: child.position.y + node.position.y
+      };
+      return child;
+    }
+
+    return node;
+  }
+
+  /**
+   * A group or frame with no fills, borders, effects, padding or auto-layout
+   */
+  private isPlainWrapper(component: ComponentAnalysis, mapped: MappedComponent): boolean {
+    if (component.type !== 'GROUP' && component.type !== 'FRAME') {
+      return false;
+    }
+
+    const styling = component.properties.styling || {};
+    const props = component.properties;
+    const hasVisibleFill = ((props.fills || []) as FigmaPaint[]).some(fill => fill.visible !== false);
+    const hasVisibleStroke = ((props.strokes || []) as FigmaPaint[]).some(stroke => stroke.visible !== false);
+    const hasEffects = ((props.effects || []) as FigmaEffect[]).some(effect => effect.visible !== false);
+
+    return !hasVisibleFill &&
+      !hasVisibleStroke &&
+      !hasEffects &&
+      !styling.layout &&
+      !styling.spacing?.padding &&
+      !props.cornerRadius &&
+      (props.opacity ?? 1) === 1 &&
+      mapped.muiComponent === 'Box' &&
+      !mapped.content &&
+      !mapped.imageUrl;
+  }
+
   /**
    * Build design system from extracted tokens
    */
-  private buildDesignSystem(designTokens: DesignTokens) {
-    // Process colors
+  private buildDesignSystem(designTokens: DesignTokens): DesignSystem {
     const colors: { [key: string]: string } = {};
-    designTokens.colors.forEach((color, index) => {
-      // Detect common UI colors
-      if (color.toLowerCase().includes('ff7f00') || color.toLowerCase().includes('ff8c00')) {
-        colors.primary = color;
-        colors.accent = color;
-      } else if (color.toLowerCase().includes('ffffff')) {
-        colors.white = color;
-      } else if (color.toLowerCase().includes('000000')) {
-        colors.black = color;
-      } else {
-        colors[`color${index}`] = color;
+    const colorTokenNames = new Map<string, string>();
+    const uniqueKey = (base: string) => {
+      let key = base;
+      let suffix = 2;
+      while (colors[key] !== undefined) key = `${base}${suffix++}`;
+      return key;
+    };
+
+    // Named styles and variables keep their Figma names
+    const namedColors = (designTokens.named || []).filter(token => token.type === 'color' && typeof token.value === 'string');
+    namedColors.forEach(token => {
+      const key = uniqueKey(toTokenKey(token.name));
+      colors[key] = token.value.toLowerCase();
+      colorTokenNames.set(token.name, key);
+    });
+
+    // Other colors are named by palette role (primary, textSecondary, divider...) rather than by position
+    const namedHexes = new Set(Object.values(colors));
+    Object.entries(this.tokenExporter.buildThemeTokens(designTokens).colors).forEach(([role, hex]) => {
+      if (!namedHexes.has(hex.toLowerCase())) {
+        colors[uniqueKey(role)] = hex;
       }
     });
 
+    // Variable modes: only the first mode set that holds colors, as a screen shows one theme at a time
+    let colorModes: StyleMapping['designSystem']['colorModes'];
+    const modeSet = (designTokens.modes || []).find(set =>
+      namedColors.some(token => token.collection === set.collection && token.modes));
+    if (modeSet) {
+      const modes: { [mode: string]: { [key: string]: string } } = {};
+      modeSet.modes.forEach(mode => {
+        const values: { [key: string]: string } = {};
+        namedColors
+          .filter(token => token.collection === modeSet.collection)
+          .forEach(token => {
+            const key = colorTokenNames.get(token.name);
+            const value = token.modes?.[mode];
+            if (key && typeof value === 'string') values[key] = value.toLowerCase();
+          });
+        modes[mode] = values;
+      });
+      colorModes = { defaultMode: modeSet.defaultMode, modes };
+    }
+
     // Process typography
     const typography: { [key: string]: any } = {};
     designTokens.typography.forEach(typo => {
@@ -97,7 +365,9 @@ class StyleMapperService {
     return {
       colors,
       typography,
-      spacing: designTokens.spacing
+      spacing: designTokens.spacing,
+      colorModes,
+      colorTokenNames
     };
   }
 
@@ -106,77 +376,101 @@ class StyleMapperService {
    */
   private mapSingleComponent(
     component: ComponentAnalysis, 
+    rule: MappingRuleResult,
     assetUrls: { [nodeId: string]: string },
-    designSystem: any
+    designSystem: DesignSystem
   ): MappedComponent | null {
     
     const styling = component.properties.styling;
     const bounds = component.bounds;
     
-    // Determine MUI component type
-    const muiComponent = this.determineMuiComponent(component);
-    
-    // Build sx styling object
-    const sx = this.buildSxStyling(styling, bounds, designSystem);
+    // Build sx styling object, with the rule's overrides on top
+    const sx = { ...this.buildSxStyling(styling, bounds, designSystem), ...rule.sx };
     
-    // Build props
-    const props = this.buildComponentProps(component, assetUrls);
-    
-    // Extract text content
-    const content = this.extractTextContent(component);
+    // Text layers carry their own content; rules may set a fixed label
+    const content = rule.content ?? (component.type === 'TEXT' ? component.properties.characters || undefined : undefined);
+    const richText = rule.content === undefined && component.type === 'TEXT' ? component.properties.richText : undefined;
     
     // Get image URL if available
     const imageUrl = assetUrls[component.id];
 
+    // Colors bound to a named style or variable are referenced by name in the code
+    const tokens: { [sxKey: string]: string } = {};
+    const tokenRefs: NodeTokenRefs = component.properties.tokenRefs || {};
+    TOKEN_SX_KEYS.forEach(([ref, sxKey]) => {
+      const key = tokenRefs[ref] ? designSystem.colorTokenNames?.get(tokenRefs[ref]) : undefined;
+      if (key && typeof sx[sxKey] === 'string') tokens[sxKey] = key;
+    });
+
     return {
       id: component.id,
       name: component.name,
-      muiComponent,
-      props,
+      figmaType: component.type,
+      muiComponent: rule.component,
+      ruleId: rule.ruleId,
+      props: rule.props,
       sx,
+      position: { x: 0, y: 0 },
+      absolute: styling?.sizing?.absolute || undefined,
       content,
-      imageUrl
+      richText,
+      imageUrl,
+      tokens: Object.keys(tokens).length > 0 ? tokens : undefined
     };
   }
 
   /**
-   * Determine appropriate Material-UI component
+   * Map an instance of a registered design-system component; its own styles replace the Figma styling
    */
-  private determineMuiComponent(component: ComponentAnalysis): string {
-    const name = component.name.toLowerCase();
-    const type = component.type;
-    
-    // Button detection
-    if (name.includes('button') || name.includes('btn') || 
-        (name.includes('pay') && name.includes('confirm')) ||
-        name.includes('add new')) {
-      return 'Button';
-    }
-    
-    // Card detection for payment methods
-    if (name.includes('card') || name.includes('method') || 
-        name.includes('visa') || name.includes('mastercard') || 
-        name.includes('paypal') || name.includes('cash')) {
-      return 'Card';
-    }
-    
-    // Text detection
-    if (type === 'TEXT' || name.includes('text') || name.includes('title') || 
-        name.includes('total') || name.includes('payment')) {
-      return 'Typography';
-    }
-    
-    // Image detection
-    if (type === 'RECTANGLE' && component.properties.styling?.images) {
-      return 'Box'; // Will contain image
-    }
-    
-    // Container detection
-    if (type === 'FRAME' || type === 'GROUP') {
-      return 'Box';
+  private mapLibraryComponent(component: ComponentAnalysis, match: ComponentRegistryMatch): MappedComponent {
+    return {
+      id: component.id,
+      name: component.name,
+      figmaType: component.type,
+      muiComponent: match.name,
+      ruleId: `registry:${match.entryId}`,
+      props: match.props,
+      sx: {},
+      position: { x: 0, y: 0 },
+      absolute: component.properties.styling?.sizing?.absolute || undefined,
+      library: {
+        entryId: match.entryId,
+        from: match.from,
+        name: match.name,
+        isDefault: match.isDefault,
+        children: match.children
+      }
+    };
+  }
+
+  /**
+   * Map an icon; only its size, placement and color carry over from the Figma styling
+   */
+  private mapIconComponent(component: ComponentAnalysis, icon: FigmaIcon, designSystem: DesignSystem): MappedComponent {
+    const styling = component.properties.styling;
+    const fullSx = this.buildSxStyling(styling, component.bounds, designSystem);
+    const sx: Record<string, any> = {};
+    ICON_SX_KEYS.forEach(key => {
+      if (fullSx[key] !== undefined) sx[key] = fullSx[key];
+    });
+    // Icon glyphs scale with width and height rather than font size
+    sx.fontSize = 'inherit';
+    if (icon.svg?.color || icon.color) {
+      sx.color = icon.svg?.color || icon.color;
     }
-    
-    return 'Box'; // Default fallback
+
+    return {
+      id: component.id,
+      name: component.name,
+      figmaType: component.type,
+      muiComponent: icon.muiIcon ? `${icon.muiIcon}Icon` : 'SvgIcon',
+      ruleId: 'icon',
+      props: {},
+      sx,
+      position: { x: 0, y: 0 },
+      absolute: styling?.sizing?.absolute || undefined,
+      icon
+    };
   }
 
   /**
@@ -186,16 +480,30 @@ class StyleMapperService {
     const sx: Record<string, any> = {};
     
     // Dimensions
-    if (bounds) {
+    if (styling?.sizing && (styling.layout || styling.sizing.parentLayoutMode !== 'NONE')) {
+      // Auto-layout aware sizing keeps the design fluid
+      Object.assign(sx, this.buildSizingSx(styling.sizing, bounds));
+    } else if (bounds) {
       sx.width = bounds.width;
       sx.height = bounds.height;
       sx.minWidth = bounds.width;
       sx.minHeight = bounds.height;
     }
+
+    // Auto-layout
+    if (styling?.layout) {
+      Object.assign(sx, this.buildFlexSx(styling.layout));
+    }
     
-    // Colors
+    // Colors; gradients and stacked fills replace the single background color
+    if (styling?.backgrounds?.length) {
+      sx.background = styling.backgrounds.join(', ');
+      if (styling.backgroundBlendModes?.length) {
+        sx.backgroundBlendMode = styling.backgroundBlendModes.join(', ');
+      }
+    }
     if (styling?.colors) {
-      if (styling.colors.background) {
+      if (styling.colors.background && !styling.backgrounds?.length) {
         sx.backgroundColor = styling.colors.background;
       }
       if (styling.colors.text) {
@@ -217,9 +525,29 @@ class StyleMapperService {
       if (styling.typography.fontWeight) {
         sx.fontWeight = styling.typography.fontWeight;
       }
+      if (styling.typography.lineHeight && styling.typography.lineHeight !== 'normal') {
+        sx.lineHeight = styling.typography.lineHeight;
+      }
       if (styling.typography.textAlign) {
         sx.textAlign = styling.typography.textAlign;
       }
+      (['fontStyle', 'textTransform', 'fontVariant', 'textDecoration', 'letterSpacing'] as const).forEach(key => {
+        if (styling.typography[key]) sx[key] = styling.typography[key];
+      });
+
+      // Ellipsis after the last visible line
+      const { maxLines } = styling.typography;
+      if (maxLines) {
+        sx.overflow = 'hidden';
+        sx.textOverflow = 'ellipsis';
+        if (maxLines === 1) {
+          sx.whiteSpace = 'nowrap';
+        } else {
+          sx.display = '-webkit-box';
+          sx.WebkitLineClamp = maxLines;
+          sx.WebkitBoxOrient = 'vertical';
+        }
+      }
     }
     
     // Spacing
@@ -228,13 +556,17 @@ class StyleMapperService {
       sx.padding = `${p.top}px ${p.right}px ${p.bottom}px ${p.left}px`;
     }
     
-    // Borders
+    // Borders (px strings: MUI multiplies a numeric borderRadius by the theme's shape.borderRadius)
     if (styling?.borders) {
-      if (styling.borders.radius) {
-        sx.borderRadius = styling.borders.radius;
+      const { radius } = styling.borders;
+      if (Array.isArray(radius)) {
+        sx.borderRadius = radius.map((corner: number) => `${corner}px`).join(' ');
+      } else if (radius) {
+        sx.borderRadius = `${radius}px`;
       }
       if (styling.borders.width) {
-        sx.border = `${styling.borders.width}px ${styling.borders.style || 'solid'} ${styling.borders.color || '#000'}`;
+        Object.assign(sx, this.buildStrokeSx(styling.borders, sx.borderColor || styling.borders.color || '#000'));
+        if (sx.outlineColor) delete sx.borderColor;
       }
     }
     
@@ -242,107 +574,154 @@ class StyleMapperService {
     if (styling?.shadows && styling.shadows.length > 0) {
       sx.boxShadow = styling.shadows.join(', ');
     }
+    if (styling?.textShadows && styling.textShadows.length > 0) {
+      sx.textShadow = styling.textShadows.join(', ');
+    }
+
+    // Blur, opacity and blending
+    if (styling?.blur?.layer) {
+      sx.filter = `blur(${blurToCss(styling.blur.layer)})`;
+    }
+    if (styling?.blur?.background) {
+      sx.backdropFilter = `blur(${blurToCss(styling.blur.background)})`;
+      sx.WebkitBackdropFilter = sx.backdropFilter;
+    }
+    if (styling?.opacity !== undefined && styling.opacity < 1) {
+      sx.opacity = styling.opacity;
+    }
+    if (styling?.blendMode) {
+      sx.mixBlendMode = styling.blendMode;
+    }
     
     return sx;
   }
 
   /**
-   * Build component props
+   * Figma strokes as CSS. Inside strokes are borders kept within the box; outside and centre
+   * strokes are outlines, since a border would change the layout size.
    */
-  private buildComponentProps(component: ComponentAnalysis, assetUrls: { [nodeId: string]: string }): Record<string, any> {
-    const props: Record<string, any> = {};
-    const name = component.name.toLowerCase();
-    
-    // Button props
-    if (name.includes('button') || name.includes('btn')) {
-      props.variant = name.includes('primary') || name.includes('pay') ? 'contained' : 'outlined';
-      props.size = component.bounds?.height > 60 ? 'large' : 'medium';
-      
-      // Special handling for pay button
-      if (name.includes('pay') || name.includes('confirm')) {
-        props.variant = 'contained';
-        props.color = 'primary';
-        props.fullWidth = true;
-      }
-    }
-    
-    // Card props for payment methods
-    if (name.includes('method') || name.includes('visa') || name.includes('mastercard') || name.includes('paypal') || name.includes('cash')) {
-      props.variant = 'outlined';
-      props.sx = { 
-        ...props.sx,
-        cursor: 'pointer',
-        '&:hover': {
-          borderColor: 'primary.main'
-        }
-      };
-      
-      // Selected state for mastercard
-      if (name.includes('mastercard')) {
-        props.sx = {
-          ...props.sx,
-          borderColor: 'orange',
-          borderWidth: 2,
-          position: 'relative'
-        };
-      }
-    }
-    
-    // Typography props
-    if (component.type === 'TEXT') {
-      if (name.includes('total') || name.includes('$96')) {
-        props.variant = 'h4';
-        props.fontWeight = 'bold';
-      } else if (name.includes('payment') && !name.includes('method')) {
-        props.variant = 'h5';
-      } else {
-        props.variant = 'body1';
+  private buildStrokeSx(borders: StrokeBorders, color: string): Record<string, any> {
+    const style = borders.style || 'solid';
+    const width = borders.width ?? 1;
+    const sx: Record<string, any> = {};
+
+    if (borders.widths) {
+      const { top, right, bottom, left } = borders.widths;
+      sx.borderWidth = `${top}px ${right}px ${bottom}px ${left}px`;
+      sx.borderStyle = style;
+      sx.borderColor = color;
+      sx.boxSizing = 'border-box';
+    } else if (borders.align === 'OUTSIDE' || borders.align === 'CENTER') {
+      sx.outlineWidth = `${width}px`;
+      sx.outlineStyle = style;
+      sx.outlineColor = color;
+      if (borders.align === 'CENTER') {
+        sx.outlineOffset = `${-width / 2}px`;
       }
+    } else {
+      sx.borderWidth = `${width}px`;
+      sx.borderStyle = style;
+      sx.borderColor = color;
+      sx.boxSizing = 'border-box';
     }
-    
-    return props;
+
+    return sx;
   }
 
   /**
-   * Extract text content from component
+   * Convert Figma auto-layout into flexbox
    */
-  private extractTextContent(component: ComponentAnalysis): string | undefined {
-    if (component.type === 'TEXT' && component.properties.characters) {
-      return component.properties.characters;
-    }
-    
-    // Infer content from name for non-text components
-    const name = component.name.toLowerCase();
-    if (name.includes('pay') && name.includes('confirm')) {
-      return 'PAY & CONFIRM';
-    } else if (name.includes('add new')) {
-      return '+ ADD NEW';
-    } else if (name.includes('total')) {
-      return 'TOTAL: $96';
-    } else if (name.includes('select payment method')) {
-      return 'Select Payment Method';
+  private buildFlexSx(layout: AutoLayout): Record<string, any> {
+    const isRow = layout.mode === 'HORIZONTAL';
+    const justifyMap: Record<AutoLayout['primaryAxisAlignItems'], string> = {
+      MIN: 'flex-start',
+      CENTER: 'center',
+      MAX: 'flex-end',
+      SPACE_BETWEEN: 'space-between'
+    };
+    const alignMap: Record<AutoLayout['counterAxisAlignItems'], string> = {
+      MIN: 'flex-start',
+      CENTER: 'center',
+      MAX: 'flex-end',
+      BASELINE: 'baseline'
+    };
+
+    const sx: Record<string, any> = {
+      display: 'flex',
+      flexDirection: isRow ? 'row' : 'column',
+      justifyContent: justifyMap[layout.primaryAxisAlignItems] || 'flex-start',
+      alignItems: alignMap[layout.counterAxisAlignItems] || 'flex-start'
+    };
+
+    // "Auto" spacing in Figma is space-between, where the fixed gap no longer applies
+    const mainGap = layout.primaryAxisAlignItems === 'SPACE_BETWEEN' ? 0 : layout.itemSpacing;
+
+    if (layout.wrap) {
+      sx.flexWrap = 'wrap';
+      const crossGap = layout.counterAxisSpacing ?? layout.itemSpacing;
+      sx.columnGap = `${isRow ? mainGap : crossGap}px`;
+      sx.rowGap = `${isRow ? crossGap : mainGap}px`;
+      if (layout.counterAxisAlignContent === 'SPACE_BETWEEN') {
+        sx.alignContent = 'space-between';
+      }
+    } else if (mainGap) {
+      sx.gap = `${mainGap}px`;
     }
-    
-    return undefined;
+
+    return sx;
   }
 
   /**
-   * Generate payment method icons based on component name
+   * Translate hug/fill/fixed sizing into flex item styles
    */
-  generatePaymentIcon(componentName: string): string {
-    const name = componentName.toLowerCase();
-    
-    if (name.includes('visa')) {
-      return 'https://cdn.worldvectorlogo.com/logos/visa-10.svg';
-    } else if (name.includes('mastercard')) {
-      return 'https://cdn.worldvectorlogo.com/logos/mastercard-2.svg';
-    } else if (name.includes('paypal')) {
-      return 'https://cdn.worldvectorlogo.com/logos/paypal-3.svg';
-    } else if (name.includes('cash')) {
-      return 'https://cdn-icons-png.flaticon.com/512/1705/1705082.png';
+  private buildSizingSx(sizing: LayoutSizing, bounds: ComponentAnalysis['bounds']): Record<string, any> {
+    const sx: Record<string, any> = {};
+    const inFlex = sizing.parentLayoutMode !== 'NONE';
+    const parentIsRow = sizing.parentLayoutMode === 'HORIZONTAL';
+
+    const applyAxis = (axis: 'horizontal' | 'vertical') => {
+      const mode = sizing[axis];
+      const isWidth = axis === 'horizontal';
+      const sizeKey = isWidth ? 'width' : 'height';
+      const minKey = isWidth ? 'minWidth' : 'minHeight';
+      const isMainAxis = inFlex && (parentIsRow === isWidth);
+
+      if (mode === 'FILL') {
+        if (isMainAxis) {
+          sx.flex = '1 1 0';
+          sx[minKey] = 0;
+        } else if (inFlex) {
+          sx.alignSelf = 'stretch';
+        } else {
+          sx[sizeKey] = '100%';
+        }
+      } else if (mode === 'HUG') {
+        if (isWidth) {
+          sx.width = 'fit-content';
+        }
+      } else if (bounds) {
+        sx[sizeKey] = bounds[sizeKey];
+        if (isWidth) {
+          // Fixed widths may still shrink on narrower viewports
+          sx.maxWidth = '100%';
+        }
+        if (isMainAxis) {
+          sx.flexShrink = 0;
+        }
+      }
+    };
+
+    applyAxis('horizontal');
+    applyAxis('vertical');
+
+    if (inFlex && sizing.layoutAlign && sizing.layoutAlign !== 'INHERIT' && sizing.layoutAlign !== 'STRETCH') {
+      const selfAlignMap: Record<string, string> = { MIN: 'flex-start', CENTER: 'center', MAX: 'flex-end' };
+      if (selfAlignMap[sizing.layoutAlign]) {
+        sx.alignSelf = selfAlignMap[sizing.layoutAlign];
+      }
     }
-    
-    return '';
+
+    return sx;
   }
 }
 
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import VibeCodingService, { VibeCodingError, createStubVibeProvider } from './vibeCodingService';
+import { CompletionRequest, StubProvider, getMessageText } from './llmProvider';
+
+const SCREEN = `import React from 'react';
+import { Box, Typography } from '@mui/material';
+import { PrimaryButton } from '@acme/design-system';
+import ArrowIcon from './icons/ArrowIcon';
+
+const Screen = () => (
+  <Box>
+    <Typography>Hello</Typography>
+    <PrimaryButton endIcon={<ArrowIcon />}>Next</PrimaryButton>
+  </Box>
+);
+
+export default Screen;
+`;
+
+/**
+ * A service whose model always answers `reply`, with the requests it received
+ */
+const withReply = (reply: string) => {
+  const requests: CompletionRequest[] = [];
+  const service = new VibeCodingService(new StubProvider(request => {
+    requests.push(request);
+    return reply;
+  }));
+  return { service, requests };
+};
+
+describe('VibeCodingService', () => {
+  it('applies a change through the stub provider', async () => {
+    const service = new VibeCodingService(createStubVibeProvider());
+
+    const result = await service.iterate({ prompt: 'Make the title bigger', currentCode: SCREEN });
+
+    expect(result.provider).toBe('stub');
+    expect(result.model).toBe('stub');
+    expect(result.confidence).toBe(1);
+    expect(result.explanation).toContain('Make the title bigger');
+    expect(result.code).toContain('// Requested: Make the title bigger');
+    expect(result.code).toContain('export default Screen;');
+  });
+
+  it('sends the history, the design context and the current code', async () => {
+    const { service, requests } = withReply(JSON.stringify({ code: SCREEN, explanation: 'Done', confidence: 0.9 }));
+
+    await service.iterate({
+      prompt: 'Add a subtitle',
+      currentCode: SCREEN,
+      analysisData: { figmaData: { fileData: { name: 'Onboarding' } } },
+      history: [{ userPrompt: 'Center it', aiResponse: 'Centered the content.' }]
+    });
+
+    const messages = requests[0].messages;
+    expect(requests[0].json).toBe(true);
+    expect(messages.map(message => message.role)).toEqual(['system', 'system', 'user', 'assistant', 'user']);
+    expect(getMessageText(messages[1].content)).toContain('Onboarding');
+    expect(getMessageText(messages[4].content)).toContain('Requested change: Add a subtitle');
+  });
+
+  it('allows the modules the current code already imports', async () => {
+    const { service, requests } = withReply(JSON.stringify({ code: SCREEN }));
+
+    await service.iterate({ prompt: 'Tweak', currentCode: SCREEN });
+
+    const prompt = getMessageText(requests[0].messages[0].content);
+    ['react', '@mui/material', '@mui/icons-material', '@acme/design-system', './icons/ArrowIcon'].forEach(source => {
+      expect(prompt).toContain(`'${source}'`);
+    });
+  });
+
+  describe('parsing the response', () => {
+    it('reads a JSON reply and strips a code fence inside it', async () => {
+      const { service } = withReply(`Sure!\n${JSON.stringify({ code: `\`\`\`tsx\n${SCREEN}\`\`\``, explanation: 'Tweaked', confidence: 3 })}`);
+
+      const result = await service.iterate({ prompt: 'Tweak', currentCode: SCREEN });
+
+      expect(result.code).toBe(SCREEN.trim());
+      expect(result.explanation).toBe('Tweaked');
+      expect(result.confidence).toBe(1);
+    });
+
+    it('defaults a missing explanation and an unreadable confidence', async () => {
+      const { service } = withReply(JSON.stringify({ code: SCREEN, confidence: 'high' }));
+
+      const result = await service.iterate({ prompt: 'Tweak', currentCode: SCREEN });
+
+      expect(result.explanation).toBe('Updated the component.');
+      expect(result.confidence).toBe(0.7);
+    });
+
+    it('falls back to a fenced code block', async () => {
+      const { service } = withReply(`Here you go:\n\`\`\`tsx\n${SCREEN}\`\`\``);
+
+      const result = await service.iterate({ prompt: 'Tweak', currentCode: SCREEN });
+
+      expect(result.code).toBe(SCREEN.trim());
+      expect(result.explanation).toBe('Here you go:');
+      expect(result.confidence).toBe(0.5);
+    });
+
+    it('rejects a reply without code', async () => {
+      const { service } = withReply('I cannot help with that.');
+
+      await expect(service.iterate({ prompt: 'Tweak', currentCode: SCREEN })).rejects.toMatchObject({
+        name: 'VibeCodingError',
+        rawResponse: 'I cannot help with that.'
+      });
+    });
+
+    it('rejects code without a default export', async () => {
+      const { service } = withReply(JSON.stringify({ code: 'const Screen = () => null;' }));
+
+      await expect(service.iterate({ prompt: 'Tweak', currentCode: SCREEN })).rejects.toBeInstanceOf(VibeCodingError);
+    });
+  });
+});
@@ -0,0 +1,232 @@
+import { ChatMessage, LLMProvider, StubProvider, getMessageText } from './llmProvider';
+
+export interface VibeChatTurn {
+  userPrompt?: string;
+  aiResponse?: string;
+}
+
+export interface VibeIterationRequest {
+  prompt: string;
+  currentCode: string;
+  analysisData?: any;
+  // Oldest first
+  history?: VibeChatTurn[];
+  signal?: AbortSignal;
+}
+
+export interface VibeIterationResult {
+  code: string;
+  explanation: string;
+  confidence: number;
+  provider: string;
+  model: string;
+}
+
+export class VibeCodingError extends Error {
+  constructor(message: string, public rawResponse?: string) {
+    super(message);
+    this.name = 'VibeCodingError';
+  }
+}
+
+const MAX_HISTORY_TURNS = 6;
+const MAX_CONTEXT_CHARS = 6000;
+
+// Modules every screen may use; the current code adds its registry components and icon modules
+const BASE_IMPORTS = ['react', '@mui/material', '@mui/icons-material'];
+
+/**
+ * Module specifiers the code imports from, in order of appearance
+ */
+const importSources = (code: string): string[] =>
+  Array.from(new Set(Array.from(code.matchAll(/^\s*import\s+(?:[\s\S]*?\s+from\s+)?['"]([^'"]+)['"]/gm), match => match[1])));
+
+const systemPrompt = (currentCode: string): string => {
+  const allowed = Array.from(new Set([...BASE_IMPORTS, ...importSources(currentCode)]));
+  return `You are a senior React engineer iterating on a single screen component with a designer.
+The component is TypeScript + React 18 + Material-UI v6 and must stay a single file whose default
+export is the screen component. Only import from ${allowed.map(source => `'${source}'`).join(', ')};
+keep the existing imports of design-system components and icon modules as they are.
+
+Apply the requested change to the current code and keep everything else as it is.
+Respond with a JSON object only:
+{
+  "explanation": "1-3 sentences describing what you changed",
+  "code": "the complete updated file",
+  "confidence": 0.0-1.0
+}`;
+};
+
+/**
+ * Applies chat prompts to a screen's generated code through an LLM
+ */
+class VibeCodingService {
+  private provider: LLMProvider;
+  private model?: string;
+
+  constructor(provider: LLMProvider, model?: string) {
+    this.provider = provider;
+    this.model = model;
+  }
+
+  /**
+   * Ask the model to modify the current code according to the prompt
+   */
+  async iterate(request: VibeIterationRequest): Promise<VibeIterationResult> {
+    const messages = this.buildMessages(request);
+
+    console.log('💬 [VIBE CODING] Sending iteration request:', {
+      provider: this.provider.name,
+      model: this.model || this.provider.defaultModel,
+      historyTurns: request.history?.length || 0,
+      codeLength: request.currentCode.length
+    });
+
+    const completion = await this.provider.complete({
+      messages,
+      model: this.model,
+      temperature: 0.2,
+      maxTokens: 8000,
+      json: true,
+      signal: request.signal
+    });
+
+    const result = this.parseResponse(completion.content);
+
+    console.log('✅ [VIBE CODING] Iteration complete:', {
+      codeLength: result.code.length,
+      confidence: result.confidence
+    });
+
+    return {
+      ...result,
+      provider: completion.provider,
+      model: completion.model
+    };
+  }
+
+  private buildMessages(request: VibeIterationRequest): ChatMessage[] {
+    const messages: ChatMessage[] = [{ role: 'system', content: systemPrompt(request.currentCode) }];
+
+    const context = this.summarizeAnalysis(request.analysisData);
+    if (context) {
+      messages.push({
+        role: 'system',
+        content: `Design context extracted from the original Figma file:\n${context}`
+      });
+    }
+
+    // Earlier turns give the model the conversation; the current code already reflects accepted edits
+    (request.history || []).slice(-MAX_HISTORY_TURNS).forEach(turn => {
+      if (turn.userPrompt) {
+        messages.push({ role: 'user', content: turn.userPrompt });
+      }
+      if (turn.aiResponse) {
+        messages.push({ role: 'assistant', content: turn.aiResponse });
+      }
+    });
+
+    messages.push({
+      role: 'user',
+      content: `Current code:\n\`\`\`tsx\n${request.currentCode}\n\`\`\`\n\nRequested change: ${request.prompt}`
+    });
+
+    return messages;
+  }
+
+  /**
+   * Keep the parts of analysis_data that help with edits and stay within a small budget
+   */
+  private summarizeAnalysis(analysisData: any): string {
+    if (!analysisData) return '';
+
+    const figmaData = analysisData.figmaData || {};
+    const summary = {
+      fileName: figmaData.fileData?.name,
+      designTokens: figmaData.designTokens,
+      designSystem: figmaData.styleMapping?.designSystem || analysisData.gptAnalysis?.designSystem,
+      layout: analysisData.gptAnalysis?.layout,
+      screenType: analysisData.semanticGrouping?.layoutStructure?.screenType,
+      groups: (analysisData.semanticGrouping?.groups || []).map((group: any) => ({
+        name: group.name,
+        type: group.type,
+        description: group.description
+      }))
+    };
+
+    const text = JSON.stringify(summary, null, 1);
+    return text.length > MAX_CONTEXT_CHARS ? `${text.slice(0, MAX_CONTEXT_CHARS)}…` : text;
+  }
+
+  /**
+   * Read the JSON reply, falling back to a fenced code block if the model ignored the format
+   */
+  private parseResponse(content: string): Omit<VibeIterationResult, 'provider' | 'model'> {
+    let parsed: any = null;
+    try {
+      const jsonMatch = content.match(/\{[\s\S]*\}/);
+      parsed = jsonMatch ? JSON.parse(jsonMatch[0]) : null;
+    } catch {
+      parsed = null;
+    }
+
+    if (parsed && typeof parsed.code === 'string') {
+      return this.validate({
+        code: this.stripCodeFence(parsed.code),
+        explanation: typeof parsed.explanation === 'string' ? parsed.explanation : 'Updated the component.',
+        confidence: this.clampConfidence(parsed.confidence)
+      }, content);
+    }
+
+    const fenced = content.match(/```(?:tsx|jsx|typescript|javascript)?\n([\s\S]*?)```/);
+    if (fenced) {
+      const explanation = content.replace(fenced[0], '').trim();
+      return this.validate({
+        code: fenced[1].trim(),
+        explanation: explanation || 'Updated the component.',
+        confidence: 0.5
+      }, content);
+    }
+
+    throw new VibeCodingError('The model response did not contain updated code', content);
+  }
+
+  private validate(
+    result: Omit<VibeIterationResult, 'provider' | 'model'>,
+    rawResponse: string
+  ): Omit<VibeIterationResult, 'provider' | 'model'> {
+    if (!/export\s+default/.test(result.code)) {
+      throw new VibeCodingError('The updated code has no default export', rawResponse);
+    }
+    return result;
+  }
+
+  private stripCodeFence(code: string): string {
+    const fenced = code.match(/^\s*```[a-z]*\n([\s\S]*?)```\s*$/);
+    return fenced ? fenced[1].trim() : code.trim();
+  }
+
+  private clampConfidence(value: any): number {
+    const confidence = typeof value === 'number' ? value : parseFloat(value);
+    if (Number.isNaN(confidence)) return 0.7;
+    return Math.min(1, Math.max(0, confidence));
+  }
+}
+
+/**
+ * Local provider that echoes the current code back with the prompt noted at the top.
+ * Lets the chat flow run end to end without network access.
+ */
+export const createStubVibeProvider = (): StubProvider =>
+  new StubProvider(request => {
+    const lastMessage = getMessageText(request.messages[request.messages.length - 1]?.content || '');
+    const code = lastMessage.match(/```tsx\n([\s\S]*?)\n```/)?.[1] || '';
+    const prompt = lastMessage.split('Requested change: ')[1] || '';
+    return JSON.stringify({
+      explanation: `Stub provider: recorded "${prompt}" without changing the component.`,
+      code: `// Requested: ${prompt.replace(/\n/g, ' ')}\n${code}`,
+      confidence: 1
+    });
+  });
+
+export default VibeCodingService;
@@ -0,0 +1,111 @@
+import { FigmaFile, FigmaNode } from '../services/figmaService';
+import { SemanticGroup, SemanticGroupingResult } from '../services/semanticGroupingService';
+
+/**
+ * Small Figma documents for tests, in the shape GET /v1/files/:key returns
+ */
+
+type Box = { x: number; y: number; width: number; height: number };
+
+export const solid = (r: number, g: number, b: number, extra: Record<string, unknown> = {}) => ({
+  type: 'SOLID',
+  color: { r, g, b, a: 1 },
+  ...extra
+});
+
+export const frame = (id: string, name: string, box: Box, children: FigmaNode[] = [], extra: Partial<FigmaNode> = {}): FigmaNode => ({
+  id,
+  name,
+  type: 'FRAME',
+  absoluteBoundingBox: box,
+  fills: [],
+  children,
+  ...extra
+});
+
+export const rectangle = (id: string, name: string, box: Box, extra: Partial<FigmaNode> = {}): FigmaNode => ({
+  id,
+  name,
+  type: 'RECTANGLE',
+  absoluteBoundingBox: box,
+  fills: [solid(0.9, 0.9, 0.9)],
+  ...extra
+});
+
+export const text = (id: string, characters: string, box: Box, extra: Partial<FigmaNode> = {}): FigmaNode => ({
+  id,
+  name: characters,
+  type: 'TEXT',
+  characters,
+  absoluteBoundingBox: box,
+  style: { fontFamily: 'Inter', fontWeight: 400, fontSize: 16, lineHeightPx: 24 },
+  fills: [solid(0.1, 0.1, 0.1)],
+  ...extra
+});
+
+export const figmaFile = (screen: FigmaNode, name = 'Fixture'): FigmaFile => ({
+  name,
+  lastModified: '2026-01-01T00:00:00Z',
+  thumbnailUrl: '',
+  document: {
+    id: '0:0',
+    name: 'Document',
+    type: 'DOCUMENT',
+    children: [{ id: '0:1', name: 'Page 1', type: 'CANVAS', children: [screen] }]
+  }
+});
+
+/**
+ * Login screen: a title, a primary button and a hidden error banner
+ */
+export const loginScreen = (): FigmaNode =>
+  frame('1:1', 'Login', { x: 0, y: 0, width: 375, height: 667 }, [
+    text('1:2', 'Welcome back', { x: 24, y: 24, width: 327, height: 32 }),
+    frame('1:3', 'Sign in Button', { x: 24, y: 72, width: 327, height: 48 }, [
+      text('1:4', 'Sign in', { x: 150, y: 84, width: 75, height: 24 }, { fills: [solid(1, 1, 1)] })
+    ], { fills: [solid(0.2, 0.4, 0.9)], cornerRadius: 8 }),
+    frame('1:5', 'Error Banner', { x: 24, y: 136, width: 327, height: 40 }, [
+      text('1:6', 'Wrong password', { x: 32, y: 144, width: 200, height: 24 })
+    ], { visible: false, fills: [solid(0.9, 0.1, 0.1)] })
+  ], { fills: [solid(1, 1, 1)] });
+
+/**
+ * Settings screen: a header, a card of two rows and a footer note
+ */
+export const settingsScreen = (): FigmaNode =>
+  frame('2:1', 'Settings', { x: 0, y: 0, width: 375, height: 667 }, [
+    frame('2:2', 'Header', { x: 0, y: 0, width: 375, height: 64 }, [
+      text('2:3', 'Settings', { x: 16, y: 20, width: 100, height: 24 })
+    ]),
+    frame('2:5', 'Card', { x: 16, y: 80, width: 343, height: 200 }, [
+      frame('2:6', 'Notifications Row', { x: 16, y: 80, width: 343, height: 56 }, [
+        text('2:7', 'Notifications', { x: 32, y: 96, width: 150, height: 24 }),
+        rectangle('2:8', 'Toggle', { x: 300, y: 96, width: 40, height: 24 })
+      ]),
+      frame('2:9', 'Dark Mode Row', { x: 16, y: 136, width: 343, height: 56 }, [
+        text('2:10', 'Dark mode', { x: 32, y: 152, width: 150, height: 24 })
+      ])
+    ]),
+    text('2:11', 'Version 1.0', { x: 16, y: 620, width: 200, height: 24 })
+  ], { fills: [solid(1, 1, 1)] });
+
+export const semanticGroup = (id: string, name: string, bounds: Box, childIds: string[] = [], extra: Partial<SemanticGroup> = {}): SemanticGroup => ({
+  id,
+  name,
+  type: 'container',
+  description: `${name} group`,
+  bounds,
+  children: childIds.map(childId => ({ id: childId, name: childId, type: 'FRAME', bounds, properties: {} })),
+  properties: {},
+  confidence: 0.9,
+  ...extra
+});
+
+export const grouping = (groups: SemanticGroup[]): SemanticGroupingResult => ({
+  groups,
+  totalNodes: groups.reduce((total, group) => total + group.children.length, 0),
+  groupedNodes: groups.reduce((total, group) => total + group.children.length, 0),
+  ungroupedNodes: [],
+  confidence: 0.9,
+  processingTime: 0
+});
@@ -0,0 +1,25 @@
+/**
+ * JSON with object keys sorted, so equal values always serialize (and hash) the same way
+ */
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_, item) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return item;
+    return Object.keys(item)
+      .sort()
+      .reduce((sorted: Record<string, unknown>, key) => {
+        sorted[key] = item[key];
+        return sorted;
+      }, {});
+  }) ?? 'undefined';
+}
+
+/**
+ * SHA-256 of text or bytes as hex, using Web Crypto (browsers and Node 18+)
+ */
+export async function sha256Hex(content: string | ArrayBuffer): Promise<string> {
+  const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import {
+  FigmaPaint,
+  Point,
+  gradientToCss,
+  paintsToBackgroundLayers,
+  paintsToBlendModes,
+  shadowToCss
+} from './figmaPaint';
+import { solid } from '../test/figmaFixtures';
+
+const RED = { r: 1, g: 0, b: 0, a: 1 };
+const BLUE = { r: 0, g: 0, b: 1, a: 1 };
+const STOPS = [{ position: 0, color: RED }, { position: 1, color: BLUE }];
+const BOX = { width: 200, height: 100 };
+
+const gradient = (type: string, handles: Point[], extra: Partial<FigmaPaint> = {}): FigmaPaint => ({
+  type,
+  gradientHandlePositions: handles,
+  gradientStops: STOPS,
+  ...extra
+});
+
+// Start, end and width handles of Figma's default gradients (left to right, centred)
+const LEFT_TO_RIGHT: Point[] = [{ x: 0, y: 0.5 }, { x: 1, y: 0.5 }, { x: 0, y: 1 }];
+const FROM_CENTRE: Point[] = [{ x: 0.5, y: 0.5 }, { x: 1, y: 0.5 }, { x: 0.5, y: 1 }];
+
+describe('gradientToCss', () => {
+  const cases: Array<[string, FigmaPaint, string[]]> = [
+    ['linear, left to right', gradient('GRADIENT_LINEAR', LEFT_TO_RIGHT), ['linear-gradient(90deg, #ff0000 0%, #0000ff 100%)']],
+    ['linear, top to bottom', gradient('GRADIENT_LINEAR', [{ x: 0.5, y: 0 }, { x: 0.5, y: 1 }, { x: 0, y: 0 }]), ['linear-gradient(180deg, #ff0000 0%, #0000ff 100%)']],
+    ['linear, over the middle half', gradient('GRADIENT_LINEAR', [{ x: 0.25, y: 0.5 }, { x: 0.75, y: 0.5 }, { x: 0.25, y: 1 }]), ['linear-gradient(90deg, #ff0000 25%, #0000ff 75%)']],
+    ['linear, from a plugin transform', { type: 'GRADIENT_LINEAR', gradientTransform: [[1, 0, 0], [0, 1, 0]], gradientStops: STOPS }, ['linear-gradient(90deg, #ff0000 0%, #0000ff 100%)']],
+    ['linear, with paint opacity', gradient('GRADIENT_LINEAR', LEFT_TO_RIGHT, { opacity: 0.5 }), ['linear-gradient(90deg, rgba(255, 0, 0, 0.5) 0%, rgba(0, 0, 255, 0.5) 100%)']],
+    ['radial', gradient('GRADIENT_RADIAL', FROM_CENTRE), ['radial-gradient(ellipse 100px 50px at 50% 50%, #ff0000 0%, #0000ff 100%)']],
+    ['angular', gradient('GRADIENT_ANGULAR', FROM_CENTRE), ['conic-gradient(from 90deg at 50% 50%, #ff0000 0%, #0000ff 100%)']],
+    ['collapsed handles', gradient('GRADIENT_LINEAR', [{ x: 0.5, y: 0.5 }, { x: 0.5, y: 0.5 }, { x: 0.5, y: 0.5 }]), ['linear-gradient(#0000ff, #0000ff)']]
+  ];
+
+  it.each(cases)('converts a %s gradient', (_name, paint, css) => {
+    expect(gradientToCss(paint, BOX)).toEqual(css);
+  });
+
+  it('approximates a diamond gradient with a layer per quadrant over the last stop', () => {
+    expect(gradientToCss(gradient('GRADIENT_DIAMOND', FROM_CENTRE), BOX)).toEqual([
+      'linear-gradient(to top left, #ff0000 0%, #0000ff 50%) 0px 0px / 100px 50px no-repeat',
+      'linear-gradient(to top right, #ff0000 0%, #0000ff 50%) 100px 0px / 100px 50px no-repeat',
+      'linear-gradient(to bottom left, #ff0000 0%, #0000ff 50%) 0px 50px / 100px 50px no-repeat',
+      'linear-gradient(to bottom right, #ff0000 0%, #0000ff 50%) 100px 50px / 100px 50px no-repeat',
+      'linear-gradient(#0000ff, #0000ff)'
+    ]);
+  });
+
+  it('ignores a skewed width handle on linear gradients', () => {
+    const skewed = gradient('GRADIENT_LINEAR', [{ x: 0, y: 0.5 }, { x: 1, y: 0.5 }, { x: 0.5, y: 1 }]);
+
+    expect(gradientToCss(skewed, BOX)).toEqual(gradientToCss(gradient('GRADIENT_LINEAR', LEFT_TO_RIGHT), BOX));
+  });
+
+  it('returns nothing without stops or handles', () => {
+    expect(gradientToCss(gradient('GRADIENT_LINEAR', LEFT_TO_RIGHT, { gradientStops: [] }), BOX)).toEqual([]);
+    expect(gradientToCss({ type: 'GRADIENT_LINEAR', gradientStops: [] }, BOX)).toEqual([]);
+  });
+});
+
+describe('paintsToBackgroundLayers', () => {
+  it('stacks visible paints top first and drops hidden, image and empty paints', () => {
+    const paints = [
+      solid(1, 0, 0),
+      solid(0, 0, 1, { opacity: 0.5, blendMode: 'MULTIPLY' }),
+      solid(0, 1, 0, { visible: false }),
+      solid(0, 1, 0, { opacity: 0 }),
+      { type: 'IMAGE', imageRef: 'abc' }
+    ];
+
+    expect(paintsToBackgroundLayers(paints, BOX)).toEqual([
+      'linear-gradient(rgba(0, 0, 255, 0.5), rgba(0, 0, 255, 0.5))',
+      '#ff0000'
+    ]);
+    expect(paintsToBlendModes(paints, BOX)).toEqual(['multiply', 'normal']);
+  });
+
+  it('has no blend modes when every paint blends normally', () => {
+    expect(paintsToBlendModes([solid(1, 0, 0), gradient('GRADIENT_LINEAR', LEFT_TO_RIGHT)], BOX)).toEqual([]);
+  });
+});
+
+describe('shadowToCss', () => {
+  const dropShadow = { type: 'DROP_SHADOW', color: { r: 0, g: 0, b: 0, a: 0.25 }, offset: { x: 0, y: 4 }, radius: 8, spread: 2 };
+  const innerShadow = { type: 'INNER_SHADOW', color: { r: 0, g: 0, b: 0, a: 0.5 }, offset: { x: 1, y: 1 }, radius: 2 };
+
+  it('converts drop and inner shadows to box-shadow values', () => {
+    expect(shadowToCss(dropShadow)).toBe('0px 4px 8px 2px rgba(0, 0, 0, 0.25)');
+    expect(shadowToCss(innerShadow)).toBe('inset 1px 1px 2px 0px rgba(0, 0, 0, 0.5)');
+  });
+
+  it('drops spread and inner shadows on text', () => {
+    expect(shadowToCss(dropShadow, true)).toBe('0px 4px 8px rgba(0, 0, 0, 0.25)');
+    expect(shadowToCss(innerShadow, true)).toBeNull();
+  });
+
+  it('skips hidden shadows and blurs', () => {
+    expect(shadowToCss({ ...dropShadow, visible: false })).toBeNull();
+    expect(shadowToCss({ type: 'LAYER_BLUR', radius: 4 })).toBeNull();
+  });
+});
@@ -0,0 +1,295 @@
+export interface PaintBox {
+  width: number;
+  height: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Channels from 0 to 1
+export interface FigmaColor {
+  r: number;
+  g: number;
+  b: number;
+  a?: number;
+}
+
+export interface FigmaColorStop {
+  // 0-1 along the gradient
+  position: number;
+  color: FigmaColor;
+}
+
+/**
+ * A fill or stroke as the REST API (and plugin data) describe it
+ */
+export interface FigmaPaint {
+  // SOLID, GRADIENT_LINEAR, GRADIENT_RADIAL, GRADIENT_ANGULAR, GRADIENT_DIAMOND, IMAGE, EMOJI or VIDEO
+  type: string;
+  visible?: boolean;
+  opacity?: number;
+  blendMode?: string;
+  color?: FigmaColor;
+  // Start, end and width handles in the node's 0-1 space (REST API)
+  gradientHandlePositions?: Point[];
+  // Node space to gradient space (plugin data)
+  gradientTransform?: number[][];
+  gradientStops?: FigmaColorStop[];
+  imageRef?: string;
+  scaleMode?: string;
+  boundVariables?: Record<string, unknown>;
+}
+
+/**
+ * A shadow or blur effect
+ */
+export interface FigmaEffect {
+  // DROP_SHADOW, INNER_SHADOW, LAYER_BLUR or BACKGROUND_BLUR
+  type: string;
+  visible?: boolean;
+  radius?: number;
+  color?: FigmaColor;
+  offset?: Point;
+  spread?: number;
+  blendMode?: string;
+  showShadowBehindNode?: boolean;
+  boundVariables?: Record<string, unknown>;
+}
+
+// Figma's gradient space: the gradient runs from (0, 0.5) to (1, 0.5); (0, 1) is the width handle
+const GRADIENT_SPACE_HANDLES: Point[] = [{ x: 0, y: 0.5 }, { x: 1, y: 0.5 }, { x: 0, y: 1 }];
+
+// Figma blend modes without a CSS counterpart map to the closest one
+const BLEND_MODES: Record<string, string> = {
+  DARKEN: 'darken',
+  MULTIPLY: 'multiply',
+  LINEAR_BURN: 'multiply',
+  COLOR_BURN: 'color-burn',
+  LIGHTEN: 'lighten',
+  SCREEN: 'screen',
+  LINEAR_DODGE: 'color-dodge',
+  COLOR_DODGE: 'color-dodge',
+  OVERLAY: 'overlay',
+  SOFT_LIGHT: 'soft-light',
+  HARD_LIGHT: 'hard-light',
+  DIFFERENCE: 'difference',
+  EXCLUSION: 'exclusion',
+  HUE: 'hue',
+  SATURATION: 'saturation',
+  COLOR: 'color',
+  LUMINOSITY: 'luminosity'
+};
+
+const round = (value: number, digits = 2): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const channel = (value: number): number => Math.round(Math.min(1, Math.max(0, value)) * 255);
+
+/**
+ * CSS color for a Figma color, with the paint or stop opacity folded into the alpha
+ */
+export function paintColorToCss(color: FigmaColor, opacity = 1): string {
+  const alpha = round((color.a ?? 1) * opacity, 3);
+  if (alpha >= 1) {
+    return `#${[color.r, color.g, color.b].map(value => channel(value).toString(16).padStart(2, '0')).join('')}`;
+  }
+  return `rgba(${channel(color.r)}, ${channel(color.g)}, ${channel(color.b)}, ${alpha})`;
+}
+
+/**
+ * The start, end and width handles of a gradient in the node's 0-1 space. Files from the REST API
+ * carry `gradientHandlePositions`; plugin data only has `gradientTransform`, which maps the node's
+ * space into gradient space and is inverted here.
+ */
+export function gradientHandles(paint: FigmaPaint): Point[] | null {
+  if (Array.isArray(paint.gradientHandlePositions) && paint.gradientHandlePositions.length >= 3) {
+    return paint.gradientHandlePositions.slice(0, 3).map(point => ({ x: point.x, y: point.y }));
+  }
+
+  const transform = paint.gradientTransform;
+  if (!Array.isArray(transform) || transform.length < 2) return null;
+  const [[a, c, e], [b, d, f]] = transform;
+  const determinant = a * d - b * c;
+  if (!determinant) return null;
+
+  return GRADIENT_SPACE_HANDLES.map(({ x, y }) => ({
+    x: (d * (x - e) - c * (y - f)) / determinant,
+    y: (a * (y - f) - b * (x - e)) / determinant
+  }));
+}
+
+const stopList = (paint: FigmaPaint, position: (offset: number) => number): string =>
+  (paint.gradientStops || [])
+    .map(stop => `${paintColorToCss(stop.color, paint.opacity ?? 1)} ${round(position(stop.position))}%`)
+    .join(', ');
+
+const lastStopColor = (paint: FigmaPaint): string => {
+  const stops = paint.gradientStops || [];
+  return stops.length > 0 ? paintColorToCss(stops[stops.length - 1].color, paint.opacity ?? 1) : 'transparent';
+};
+
+/**
+ * CSS angle (0deg points up, clockwise) of the direction from one point to another
+ */
+const cssAngle = (from: Point, to: Point): number =>
+  (Math.atan2(to.x - from.x, -(to.y - from.y)) * (180 / Math.PI) + 360) % 360;
+
+/**
+ * Linear gradient along the start-to-end handle, with stop positions mapped from the Figma handles
+ * onto the CSS gradient line, which always spans the whole box through its centre. CSS color bands
+ * run perpendicular to that line, so a skewed width handle (bands at another angle) is lost.
+ */
+function linearGradientCss(paint: FigmaPaint, start: Point, end: Point, box: PaintBox): string {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const length = Math.hypot(dx, dy);
+  const ux = dx / length;
+  const uy = dy / length;
+
+  const lineLength = Math.abs(box.width * ux) + Math.abs(box.height * uy);
+  const lineStart = { x: box.width / 2 - (lineLength / 2) * ux, y: box.height / 2 - (lineLength / 2) * uy };
+  const startOffset = (start.x - lineStart.x) * ux + (start.y - lineStart.y) * uy;
+
+  const stops = stopList(paint, offset => ((startOffset + offset * length) / lineLength) * 100);
+  return `linear-gradient(${round(cssAngle(start, end))}deg, ${stops})`;
+}
+
+/**
+ * Diamond gradients have no CSS equivalent and are approximated. Each quadrant around the centre
+ * gets a corner-to-corner linear gradient, whose middle line joins the two neighbouring diamond tips,
+ * over the last stop color. The diamond keeps horizontal and vertical axes; rotation and skew are lost.
+ */
+function diamondGradientLayers(paint: FigmaPaint, center: Point, radiusX: number, radiusY: number): string[] {
+  const stops = stopList(paint, offset => offset * 50);
+  const size = `${round(radiusX)}px ${round(radiusY)}px`;
+  const quadrants: Array<[string, number, number]> = [
+    ['top left', center.x - radiusX, center.y - radiusY],
+    ['top right', center.x, center.y - radiusY],
+    ['bottom left', center.x - radiusX, center.y],
+    ['bottom right', center.x, center.y]
+  ];
+
+  return [
+    ...quadrants.map(([corner, x, y]) => `linear-gradient(to ${corner}, ${stops}) ${round(x)}px ${round(y)}px / ${size} no-repeat`),
+    `linear-gradient(${lastStopColor(paint)}, ${lastStopColor(paint)})`
+  ];
+}
+
+/**
+ * CSS background layers for a Figma gradient paint, top layer first. CSS gradients cannot be
+ * rotated or skewed independently of the box, so the result only matches Figma for some handles:
+ * - linear: while the width handle is perpendicular to the gradient line
+ * - radial: while the ellipse is not rotated; its radii are the handle lengths
+ * - angular: a circular conic gradient starting at the end handle; elliptical sweeps are lost
+ * - diamond: never exactly, it is built from several layers (see diamondGradientLayers)
+ */
+export function gradientToCss(paint: FigmaPaint, box: PaintBox): string[] {
+  const handles = gradientHandles(paint);
+  if (!handles || !paint.gradientStops?.length) return [];
+
+  const [start, end, widthHandle] = handles.map(point => ({ x: point.x * box.width, y: point.y * box.height }));
+  const radiusX = Math.hypot(end.x - start.x, end.y - start.y);
+  const radiusY = Math.hypot(widthHandle.x - start.x, widthHandle.y - start.y);
+
+  // Collapsed handles paint the last stop everywhere
+  if (radiusX === 0) {
+    return [`linear-gradient(${lastStopColor(paint)}, ${lastStopColor(paint)})`];
+  }
+
+  const centerX = box.width ? round((start.x / box.width) * 100) : 50;
+  const centerY = box.height ? round((start.y / box.height) * 100) : 50;
+
+  switch (paint.type) {
+    case 'GRADIENT_LINEAR':
+      return [linearGradientCss(paint, start, end, box)];
+    case 'GRADIENT_RADIAL':
+      return [`radial-gradient(ellipse ${round(radiusX)}px ${round(radiusY || radiusX)}px at ${centerX}% ${centerY}%, ${stopList(paint, offset => offset * 100)})`];
+    case 'GRADIENT_ANGULAR':
+      return [`conic-gradient(from ${round(cssAngle(start, end))}deg at ${centerX}% ${centerY}%, ${stopList(paint, offset => offset * 100)})`];
+    case 'GRADIENT_DIAMOND':
+      return diamondGradientLayers(paint, start, radiusX, radiusY || radiusX);
+    default:
+      return [];
+  }
+}
+
+/**
+ * CSS blend mode for a Figma blend mode; undefined for NORMAL and PASS_THROUGH
+ */
+export function figmaBlendModeToCss(blendMode?: string): string | undefined {
+  return blendMode ? BLEND_MODES[blendMode] : undefined;
+}
+
+export function isVisiblePaint(paint: { visible?: boolean; opacity?: number } | null | undefined): boolean {
+  return paint?.visible !== false && (paint?.opacity ?? 1) > 0;
+}
+
+export function isSolidPaint(paint: FigmaPaint): paint is FigmaPaint & { color: FigmaColor } {
+  return paint.type === 'SOLID' && !!paint.color;
+}
+
+interface BackgroundLayer {
+  css: string;
+  blendMode: string;
+}
+
+function backgroundLayers(paints: FigmaPaint[] | undefined, box: PaintBox): BackgroundLayer[] {
+  const visible = (paints || []).filter(paint => isVisiblePaint(paint) && paint.type !== 'IMAGE' && paint.type !== 'VIDEO');
+  const layers: BackgroundLayer[] = [];
+
+  visible.forEach((paint, index) => {
+    const blendMode = figmaBlendModeToCss(paint.blendMode) || 'normal';
+    if (paint.type === 'SOLID' && paint.color) {
+      const color = paintColorToCss(paint.color, paint.opacity ?? 1);
+      layers.unshift({ css: index === 0 ? color : `linear-gradient(${color}, ${color})`, blendMode });
+    } else if (paint.type.startsWith('GRADIENT_')) {
+      layers.unshift(...gradientToCss(paint, box).map(css => ({ css, blendMode })));
+    }
+  });
+
+  return layers;
+}
+
+/**
+ * Stacked solid and gradient fills as CSS background layers, top layer first (Figma lists fills
+ * bottom-up). Solid fills above the bottom layer become flat gradients, since CSS only allows a
+ * plain color in the last layer. Hidden and image fills are skipped; images are handled as assets.
+ */
+export function paintsToBackgroundLayers(paints: FigmaPaint[] | undefined, box: PaintBox): string[] {
+  return backgroundLayers(paints, box).map(layer => layer.css);
+}
+
+/**
+ * background-blend-mode values matching paintsToBackgroundLayers, or an empty list when every
+ * fill blends normally
+ */
+export function paintsToBlendModes(paints: FigmaPaint[] | undefined, box: PaintBox): string[] {
+  const modes = backgroundLayers(paints, box).map(layer => layer.blendMode);
+  return modes.some(mode => mode !== 'normal') ? modes : [];
+}
+
+/**
+ * CSS for Figma shadow effects. Text layers get text-shadow values, which have no spread or inset.
+ */
+export function shadowToCss(effect: FigmaEffect, forText = false): string | null {
+  if (!isVisiblePaint(effect) || (effect.type !== 'DROP_SHADOW' && effect.type !== 'INNER_SHADOW')) return null;
+  if (forText && effect.type === 'INNER_SHADOW') return null;
+
+  const color = effect.color ? paintColorToCss(effect.color) : 'rgba(0, 0, 0, 0.25)';
+  const offset = `${round(effect.offset?.x || 0)}px ${round(effect.offset?.y || 0)}px ${round(effect.radius || 0)}px`;
+  if (forText) return `${offset} ${color}`;
+
+  const inset = effect.type === 'INNER_SHADOW' ? 'inset ' : '';
+  return `${inset}${offset} ${round(effect.spread || 0)}px ${color}`;
+}
+
+/**
+ * CSS blur length for a Figma blur radius; Figma's radius is roughly twice the CSS standard deviation
+ */
+export function blurToCss(radius: number): string {
+  return `${round(radius / 2)}px`;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import FigmaService, { ComponentAnalysis } from '../services/figmaService';
+import { assignNodesToGroups, coverage, intersectionOverUnion } from './groupAssignment';
+import { figmaFile, settingsScreen } from '../test/figmaFixtures';
+
+const components = (): ComponentAnalysis[] =>
+  new FigmaService('test-token').analyzeLocalFile(figmaFile(settingsScreen())).components;
+
+const ids = (members: ComponentAnalysis[][]): string[][] =>
+  members.map(group => group.map(component => component.id).sort());
+
+const CARD = { x: 16, y: 80, width: 343, height: 200 };
+const NOTIFICATIONS_ROW = { x: 16, y: 80, width: 343, height: 56 };
+const FOOTER = { x: 0, y: 600, width: 375, height: 67 };
+
+describe('groupAssignment', () => {
+  it('measures overlap between boxes', () => {
+    expect(intersectionOverUnion(CARD, CARD)).toBe(1);
+    expect(intersectionOverUnion(CARD, FOOTER)).toBe(0);
+    expect(coverage(NOTIFICATIONS_ROW, CARD)).toBe(1);
+    // A line has no area; its centre decides
+    expect(coverage({ x: 20, y: 100, width: 100, height: 0 }, CARD)).toBe(1);
+    expect(coverage({ x: 20, y: 400, width: 100, height: 0 }, CARD)).toBe(0);
+  });
+
+  it('anchors a group on the container with its bounds and takes the descendants along', () => {
+    const members = assignNodesToGroups([{ bounds: CARD }], components());
+
+    expect(ids(members)).toEqual([['2:10', '2:5', '2:6', '2:7', '2:8', '2:9']]);
+  });
+
+  it('gives nested nodes to the innermost owning group', () => {
+    const members = assignNodesToGroups([{ bounds: CARD }, { bounds: NOTIFICATIONS_ROW }], components());
+
+    expect(ids(members)).toEqual([
+      ['2:10', '2:5', '2:9'],
+      ['2:6', '2:7', '2:8']
+    ]);
+  });
+
+  it('puts a node covered by overlapping groups in the smallest one, whatever the order', () => {
+    const wide = { bounds: FOOTER };
+    const narrow = { bounds: { x: 8, y: 610, width: 260, height: 44 } };
+
+    expect(ids(assignNodesToGroups([wide, narrow], components()))).toEqual([[], ['2:11']]);
+    expect(ids(assignNodesToGroups([narrow, wide], components()))).toEqual([['2:11'], []]);
+  });
+
+  it('leaves nodes outside every group unassigned', () => {
+    const members = assignNodesToGroups([{ bounds: CARD }, { bounds: FOOTER }], components());
+    const assigned = new Set(members.flat().map(component => component.id));
+
+    expect(assigned.has('2:1')).toBe(false);
+    expect(assigned.has('2:2')).toBe(false);
+    expect(assigned.has('2:3')).toBe(false);
+  });
+
+  it('skips claimed nodes and their descendants, and ignores claimed ids that do not exist', () => {
+    const claimed = new Set(['2:6', '9:99']);
+    const members = assignNodesToGroups([{ bounds: CARD }], components(), { claimed });
+
+    expect(ids(members)).toEqual([['2:10', '2:5', '2:9']]);
+  });
+
+  it('scores nodes whose parent is missing from the list by their own bounds', () => {
+    const withoutCard = components().filter(component => component.id !== '2:5');
+    const members = assignNodesToGroups([{ bounds: CARD }], withoutCard);
+
+    // The rows now match no container, so they and their children join by coverage
+    expect(ids(members)).toEqual([['2:10', '2:6', '2:7', '2:8', '2:9']]);
+  });
+});
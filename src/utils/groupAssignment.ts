@@ -0,0 +1,151 @@
+import { ComponentAnalysis } from '../services/figmaService';
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface AssignableGroup {
+  bounds: Bounds;
+}
+
+export interface GroupAssignmentOptions {
+  // Share of a node's area that must fall inside a group's bounds for the node to join it
+  minCoverage?: number;
+  // Intersection-over-union at which a container node is taken as the group itself
+  anchorIoU?: number;
+  // Nodes owned elsewhere (e.g. listed by the model for another group); they and their descendants are skipped
+  claimed?: Set<string>;
+}
+
+const DEFAULT_MIN_COVERAGE = 0.75;
+const DEFAULT_ANCHOR_IOU = 0.8;
+
+const area = (bounds: Bounds): number => Math.max(0, bounds.width) * Math.max(0, bounds.height);
+
+export function intersectionArea(a: Bounds, b: Bounds): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return width > 0 && height > 0 ? width * height : 0;
+}
+
+/**
+ * Share of `inner` that lies inside `outer`. Zero-area nodes (lines, empty text)
+ * count as fully covered when their centre is inside.
+ */
+export function coverage(inner: Bounds, outer: Bounds): number {
+  const innerArea = area(inner);
+  if (innerArea === 0) {
+    const cx = inner.x + inner.width / 2;
+    const cy = inner.y + inner.height / 2;
+    const inside = cx >= outer.x && cx <= outer.x + outer.width && cy >= outer.y && cy <= outer.y + outer.height;
+    return inside ? 1 : 0;
+  }
+  return intersectionArea(inner, outer) / innerArea;
+}
+
+export function intersectionOverUnion(a: Bounds, b: Bounds): number {
+  const intersection = intersectionArea(a, b);
+  const union = area(a) + area(b) - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+/**
+ * Assign Figma nodes to groups by geometry and hierarchy, without relying on names or content:
+ * 1. A container whose box matches a group's bounds (IoU >= anchorIoU) anchors that group.
+ * 2. Every other node follows its nearest ancestor that already belongs to a group.
+ * 3. Remaining nodes join the group covering most of their area (>= minCoverage),
+ *    preferring the smallest such group when scores tie.
+ * Returns the members of each group, in the same order as `groups`.
+ */
+export function assignNodesToGroups(
+  groups: AssignableGroup[],
+  components: ComponentAnalysis[],
+  options: GroupAssignmentOptions = {}
+): ComponentAnalysis[][] {
+  const minCoverage = options.minCoverage ?? DEFAULT_MIN_COVERAGE;
+  const anchorIoU = options.anchorIoU ?? DEFAULT_ANCHOR_IOU;
+  const claimed = options.claimed || new Set<string>();
+
+  const byId = new Map(components.map(component => [component.id, component]));
+  const parentIds = new Set(components.map(component => component.parentId).filter(Boolean));
+
+  // Group index per node; -1 marks nodes that belong to no group (or are claimed elsewhere)
+  const owner = new Map<string, number>();
+  claimed.forEach(id => owner.set(id, -1));
+
+  const insideClaimed = (component: ComponentAnalysis): boolean => {
+    for (let current: ComponentAnalysis | undefined = component; current; current = current.parentId ? byId.get(current.parentId) : undefined) {
+      if (claimed.has(current.id)) return true;
+    }
+    return false;
+  };
+
+  // 1. Anchor containers that are the group
+  const anchors = new Map<string, { group: number; iou: number }>();
+  groups.forEach((group, index) => {
+    let best: { id: string; iou: number } | null = null;
+    for (const component of components) {
+      if (!parentIds.has(component.id) || insideClaimed(component)) continue;
+      const iou = intersectionOverUnion(component.bounds, group.bounds);
+      if (iou >= anchorIoU && (!best || iou > best.iou)) {
+        best = { id: component.id, iou };
+      }
+    }
+    if (best) {
+      const existing = anchors.get(best.id);
+      if (!existing || best.iou > existing.iou) {
+        anchors.set(best.id, { group: index, iou: best.iou });
+      }
+    }
+  });
+  anchors.forEach(({ group }, id) => owner.set(id, group));
+
+  // 3. Best-covering group for a node with no owning ancestor
+  const scoreNode = (component: ComponentAnalysis): number => {
+    let bestIndex = -1;
+    let bestCoverage = 0;
+    groups.forEach((group, index) => {
+      const score = coverage(component.bounds, group.bounds);
+      if (score < minCoverage) return;
+      const better = score > bestCoverage + 1e-6 ||
+        (Math.abs(score - bestCoverage) <= 1e-6 && bestIndex !== -1 && area(group.bounds) < area(groups[bestIndex].bounds));
+      if (better) {
+        bestIndex = index;
+        bestCoverage = score;
+      }
+    });
+    return bestIndex;
+  };
+
+  // 2. Nearest ancestor first, memoised so each node is resolved once
+  const unassigned = new Set<string>();
+  const resolve = (component: ComponentAnalysis): number => {
+    const known = owner.get(component.id);
+    if (known !== undefined) return known;
+    if (unassigned.has(component.id)) return -1;
+
+    const parent = component.parentId ? byId.get(component.parentId) : undefined;
+    const inherited = parent ? resolve(parent) : -1;
+    const parentOwned = !!parent && owner.has(parent.id);
+
+    const result = parentOwned ? inherited : scoreNode(component);
+    if (parentOwned || result !== -1) {
+      owner.set(component.id, result);
+    } else {
+      unassigned.add(component.id);
+    }
+    return result;
+  };
+
+  const members: ComponentAnalysis[][] = groups.map(() => []);
+  components.forEach(component => {
+    if (claimed.has(component.id)) return;
+    const index = resolve(component);
+    if (index >= 0) members[index].push(component);
+  });
+
+  return members;
+}
@@ -0,0 +1,260 @@
+/**
+ * Sandboxed preview runtime for generated screens.
+ *
+ * The preview iframe loads React, MUI and the Sucrase transpiler from esm.sh
+ * through an import map, transpiles the TSX it receives over postMessage and
+ * renders the default export. Compile and runtime errors are posted back with
+ * line numbers; Sucrase keeps output lines aligned with the source, so they
+ * point straight at the generated code.
+ */
+
+export const PREVIEW_CHANNEL = 'vibeforge-preview';
+
+export interface PreviewRenderMessage {
+  channel: typeof PREVIEW_CHANNEL;
+  type: 'render';
+  version: number;
+  code: string;
+  // Local modules the code imports, by import specifier (e.g. './icons/ArrowIcon')
+  modules?: { [specifier: string]: string };
+}
+
+export interface PreviewError {
+  kind: 'compile' | 'runtime';
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+export type PreviewSandboxMessage =
+  | { channel: typeof PREVIEW_CHANNEL; type: 'ready' }
+  | { channel: typeof PREVIEW_CHANNEL; type: 'rendered'; version: number }
+  | ({ channel: typeof PREVIEW_CHANNEL; type: 'error'; version: number } & PreviewError);
+
+// Kept in step with package.json so the preview matches what the app ships
+const REACT_VERSION = '18.3.1';
+const MUI_VERSION = '6.4.12';
+const EMOTION_VERSION = '11.14.0';
+const SUCRASE_VERSION = '3.35.0';
+
+const ESM_CDN = 'https://esm.sh';
+const SHARED_EXTERNALS = 'external=react,react-dom,@emotion/react,@emotion/styled';
+
+const buildImportMap = () => ({
+  imports: {
+    'react': `${ESM_CDN}/react@${REACT_VERSION}`,
+    'react/': `${ESM_CDN}/react@${REACT_VERSION}/`,
+    'react-dom': `${ESM_CDN}/react-dom@${REACT_VERSION}?external=react`,
+    'react-dom/client': `${ESM_CDN}/react-dom@${REACT_VERSION}/client?external=react`,
+    '@emotion/react': `${ESM_CDN}/@emotion/react@${EMOTION_VERSION}?external=react`,
+    '@emotion/styled': `${ESM_CDN}/@emotion/styled@${EMOTION_VERSION}?external=react,@emotion/react`,
+    '@mui/material': `${ESM_CDN}/@mui/material@${MUI_VERSION}?${SHARED_EXTERNALS}`,
+    '@mui/material/styles': `${ESM_CDN}/@mui/material@${MUI_VERSION}/styles?${SHARED_EXTERNALS}`,
+    'sucrase': `${ESM_CDN}/sucrase@${SUCRASE_VERSION}`
+  }
+});
+
+// Runs inside the iframe. Plain JavaScript with no template literals so it can be inlined below.
+const SANDBOX_SCRIPT = `
+import { transform } from 'sucrase';
+import { Component, createElement } from 'react';
+import { createRoot } from 'react-dom/client';
+import { CssBaseline, ThemeProvider, createTheme } from '@mui/material';
+
+const CHANNEL = '__CHANNEL__';
+const ICONS_BASE = '__ICONS_BASE__';
+const ICONS_QUERY = '__ICONS_QUERY__';
+
+const root = createRoot(document.getElementById('root'));
+const theme = createTheme();
+let currentVersion = 0;
+let currentUrls = [];
+
+const post = (message) => {
+  parent.postMessage(Object.assign({ channel: CHANNEL, version: currentVersion }, message), '*');
+};
+
+const locate = (error, kind) => {
+  if (kind === 'compile' && error && error.loc) {
+    return { line: error.loc.line, column: error.loc.column + 1 };
+  }
+  const match = /blob:[^\\s)]*:(\\d+):(\\d+)/.exec((error && error.stack) || '');
+  return match ? { line: Number(match[1]), column: Number(match[2]) } : {};
+};
+
+const report = (kind, error) => {
+  const message = error && error.message ? error.message : String(error);
+  post(Object.assign({ type: 'error', kind: kind, message: message }, locate(error, kind)));
+};
+
+// The icons barrel is thousands of modules, so named imports are split into per-icon imports.
+// The replacement spans as many lines as the original statement to keep line numbers stable.
+const rewriteIconImports = (code) =>
+  code.replace(/import\\s*\\{([^}]*)\\}\\s*from\\s*['"]@mui\\/icons-material['"];?/g, (statement, names) =>
+    names.split(',').map((name) => name.trim()).filter(Boolean).map((name) => {
+      const parts = name.split(/\\s+as\\s+/);
+      const icon = parts[0].trim();
+      const local = (parts[1] || parts[0]).trim();
+      return 'import ' + local + ' from "' + ICONS_BASE + icon + ICONS_QUERY + '";';
+    }).join(' ') + '\\n'.repeat(statement.split('\\n').length - 1)
+  );
+
+// Design-system imports from the component registry cannot be resolved in the sandbox, so each
+// imported binding becomes a labelled placeholder. Line counts are kept as above.
+const SANDBOX_MODULE = /^(react(-dom)?(\\/|$)|@mui\\/|@emotion\\/|https?:|blob:|data:)/;
+const placeholders = {};
+
+window.__previewPlaceholder = (name) => {
+  if (!placeholders[name]) {
+    placeholders[name] = (props) => createElement('div', {
+      'data-component': name,
+      title: name + ' (not available in preview)',
+      style: { display: 'inline-block', padding: '4px 8px', border: '1px dashed #9e9e9e', borderRadius: '4px', color: '#616161', fontFamily: 'monospace', fontSize: '12px' }
+    }, props.children === undefined ? '<' + name + ' />' : props.children);
+  }
+  return placeholders[name];
+};
+
+const rewriteLibraryImports = (code) =>
+  code.replace(/import\\s+([\\w$\\s{},*]+?)\\s+from\\s*['"]([^'"]+)['"];?/g, (statement, clause, source) => {
+    if (SANDBOX_MODULE.test(source)) return statement;
+    const bindings = [];
+    const named = /\\{([^}]*)\\}/.exec(clause);
+    clause.replace(/\\{[^}]*\\}/, '').split(',').map((part) => part.trim()).filter(Boolean).forEach((part) => {
+      const namespace = /^\\*\\s+as\\s+([\\w$]+)$/.exec(part);
+      bindings.push(namespace
+        ? 'const ' + namespace[1] + ' = new Proxy({}, { get: (target, key) => window.__previewPlaceholder(String(key)) });'
+        : 'const ' + part + ' = window.__previewPlaceholder("' + part + '");');
+    });
+    (named ? named[1].split(',') : []).map((name) => name.trim()).filter(Boolean).forEach((name) => {
+      const parts = name.split(/\\s+as\\s+/);
+      bindings.push('const ' + parts[parts.length - 1].trim() + ' = window.__previewPlaceholder("' + parts[0].trim() + '");');
+    });
+    return bindings.join(' ') + '\\n'.repeat(statement.split('\\n').length - 1);
+  });
+
+// Local modules sent along with the screen (generated icons) load from their own blob URLs
+const rewriteLocalImports = (code, urls) =>
+  code.replace(/(from\\s*['"])([^'"]+)(['"])/g, (statement, before, source, after) =>
+    urls[source] ? before + urls[source] + after : statement
+  );
+
+const compile = (code, filePath) => transform(code, {
+  transforms: ['typescript', 'jsx'],
+  jsxRuntime: 'automatic',
+  production: true,
+  filePath: filePath
+}).code;
+
+const toModuleUrl = (code) => URL.createObjectURL(new Blob([code], { type: 'text/javascript' }));
+
+class PreviewBoundary extends Component {
+  constructor(props) {
+    super(props);
+    this.state = { failed: false };
+  }
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error) {
+    report('runtime', error);
+  }
+
+  render() {
+    return this.state.failed ? null : this.props.children;
+  }
+}
+
+const render = async (code, version, modules) => {
+  currentVersion = version;
+
+  let compiled;
+  const moduleUrls = {};
+  try {
+    compiled = compile(code, 'GeneratedScreen.tsx');
+    Object.keys(modules || {}).forEach((specifier) => {
+      const moduleCode = compile(modules[specifier], specifier.split('/').pop() + '.tsx');
+      moduleUrls[specifier] = toModuleUrl(rewriteLibraryImports(rewriteIconImports(moduleCode)));
+    });
+  } catch (error) {
+    Object.keys(moduleUrls).forEach((specifier) => URL.revokeObjectURL(moduleUrls[specifier]));
+    report('compile', error);
+    return;
+  }
+
+  const url = toModuleUrl(rewriteLibraryImports(rewriteLocalImports(rewriteIconImports(compiled), moduleUrls)));
+  const urls = [url].concat(Object.keys(moduleUrls).map((specifier) => moduleUrls[specifier]));
+  try {
+    const module = await import(url);
+    if (version !== currentVersion) return;
+    if (typeof module.default !== 'function') {
+      throw new Error('The code must default-export a React component');
+    }
+    root.render(
+      createElement(ThemeProvider, { theme: theme },
+        createElement(CssBaseline),
+        createElement(PreviewBoundary, { key: version }, createElement(module.default))
+      )
+    );
+    post({ type: 'rendered' });
+  } catch (error) {
+    report('runtime', error);
+  } finally {
+    currentUrls.forEach((previous) => URL.revokeObjectURL(previous));
+    currentUrls = urls;
+  }
+};
+
+window.addEventListener('error', (event) => report('runtime', event.error || event.message));
+window.addEventListener('unhandledrejection', (event) => report('runtime', event.reason));
+window.addEventListener('message', (event) => {
+  const data = event.data;
+  if (!data || data.channel !== CHANNEL || data.type !== 'render') return;
+  render(data.code, data.version, data.modules);
+});
+
+post({ type: 'ready' });
+`;
+
+/**
+ * Full HTML document for the preview iframe's srcdoc
+ */
+export const buildPreviewDocument = (): string => {
+  const script = SANDBOX_SCRIPT
+    .replace('__CHANNEL__', PREVIEW_CHANNEL)
+    .replace('__ICONS_BASE__', `${ESM_CDN}/@mui/icons-material@${MUI_VERSION}/`)
+    .replace('__ICONS_QUERY__', `?${SHARED_EXTERNALS},@mui/material`);
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <script type="importmap">${JSON.stringify(buildImportMap())}</script>
+    <style>html, body { margin: 0; min-height: 100%; }</style>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module">${script}</script>
+  </body>
+</html>`;
+};
+
+/**
+ * A few lines of source around an error, with the failing line marked
+ */
+export const getCodeFrame = (code: string, line: number, context = 2): string => {
+  const lines = code.split('\n');
+  const start = Math.max(1, line - context);
+  const end = Math.min(lines.length, line + context);
+  const width = String(end).length;
+  const frame: string[] = [];
+
+  for (let current = start; current <= end; current++) {
+    const marker = current === line ? '>' : ' ';
+    frame.push(`${marker} ${String(current).padStart(width)} | ${lines[current - 1]}`);
+  }
+
+  return frame.join('\n');
+};
@@ -0,0 +1,190 @@
+import { FigmaPaint, paintColorToCss, isVisiblePaint } from './figmaPaint';
+
+export interface TextRun {
+  text: string;
+  // CSS for the run where it differs from the layer's base style
+  sx: Record<string, string | number>;
+  href?: string;
+}
+
+export interface TextParagraph {
+  runs: TextRun[];
+  listType?: 'ORDERED' | 'UNORDERED';
+  // Nesting level of a list item, from 0
+  indent?: number;
+}
+
+export interface RichText {
+  paragraphs: TextParagraph[];
+  // Space after each paragraph in px
+  paragraphSpacing?: number;
+}
+
+export interface FigmaHyperlink {
+  type: 'URL' | 'NODE';
+  url?: string;
+  nodeID?: string;
+}
+
+/**
+ * A text layer's base style, or one entry of its styleOverrideTable
+ */
+export interface FigmaTypeStyle {
+  fontFamily?: string;
+  fontWeight?: number;
+  fontSize?: number;
+  italic?: boolean;
+  textCase?: string;
+  textDecoration?: string;
+  letterSpacing?: number;
+  lineHeightPx?: number;
+  paragraphSpacing?: number;
+  textAlignHorizontal?: string;
+  textAlignVertical?: string;
+  textAutoResize?: string;
+  textTruncation?: string;
+  maxLines?: number;
+  hyperlink?: FigmaHyperlink;
+  fills?: FigmaPaint[];
+}
+
+/**
+ * The parts of a TEXT node that describe its content and styling
+ */
+export interface FigmaTextContent {
+  characters?: string;
+  style?: FigmaTypeStyle;
+  characterStyleOverrides?: number[];
+  styleOverrideTable?: Record<string, FigmaTypeStyle>;
+  lineTypes?: string[];
+  lineIndentations?: number[];
+}
+
+const TEXT_CASE: Record<string, Record<string, string>> = {
+  UPPER: { textTransform: 'uppercase' },
+  LOWER: { textTransform: 'lowercase' },
+  TITLE: { textTransform: 'capitalize' },
+  SMALL_CAPS: { fontVariant: 'small-caps' },
+  SMALL_CAPS_FORCED: { fontVariant: 'all-small-caps' },
+  ORIGINAL: { textTransform: 'none' }
+};
+
+const TEXT_DECORATION: Record<string, string> = {
+  UNDERLINE: 'underline',
+  STRIKETHROUGH: 'line-through',
+  NONE: 'none'
+};
+
+/**
+ * CSS for the parts of a Figma type style that the base typography does not cover:
+ * italics, case, decoration and letter spacing
+ */
+export function typeStyleExtrasToCss(style: FigmaTypeStyle | undefined): Record<string, string | number> {
+  const css: Record<string, string | number> = {};
+  if (!style) return css;
+
+  if (style.italic !== undefined) css.fontStyle = style.italic ? 'italic' : 'normal';
+  if (style.textCase && TEXT_CASE[style.textCase]) Object.assign(css, TEXT_CASE[style.textCase]);
+  if (style.textDecoration && TEXT_DECORATION[style.textDecoration]) css.textDecoration = TEXT_DECORATION[style.textDecoration];
+  if (style.letterSpacing) css.letterSpacing = `${Math.round(style.letterSpacing * 100) / 100}px`;
+  return css;
+}
+
+/**
+ * CSS for one entry of a text layer's styleOverrideTable, keeping only what differs from the base style
+ */
+function overrideToCss(override: FigmaTypeStyle | undefined, baseStyle: FigmaTypeStyle, baseColor?: string): Record<string, string | number> {
+  const css: Record<string, string | number> = {};
+  if (!override) return css;
+
+  if (override.fontFamily && override.fontFamily !== baseStyle.fontFamily) css.fontFamily = override.fontFamily;
+  if (override.fontWeight && override.fontWeight !== baseStyle.fontWeight) css.fontWeight = override.fontWeight;
+  if (override.fontSize && override.fontSize !== baseStyle.fontSize) css.fontSize = override.fontSize;
+
+  const extras = typeStyleExtrasToCss(override);
+  const baseExtras = typeStyleExtrasToCss(baseStyle);
+  Object.entries(extras).forEach(([key, value]) => {
+    if (value === baseExtras[key]) return;
+    // Resetting something the base style never set changes nothing
+    if (baseExtras[key] === undefined && (value === 'normal' || value === 'none')) return;
+    css[key] = value;
+  });
+  if (override.letterSpacing === 0 && baseExtras.letterSpacing) css.letterSpacing = '0px';
+
+  const fill = (override.fills || []).find(paint => isVisiblePaint(paint) && paint.type === 'SOLID' && paint.color);
+  if (fill?.color) {
+    const color = paintColorToCss(fill.color, fill.opacity ?? 1);
+    if (color !== baseColor) css.color = color;
+  }
+
+  return css;
+}
+
+const sameRunStyle = (a: TextRun, b: TextRun): boolean =>
+  a.href === b.href && JSON.stringify(a.sx) === JSON.stringify(b.sx);
+
+/**
+ * Split a TEXT node into paragraphs of styled runs, using characterStyleOverrides and
+ * styleOverrideTable for per-character styles and lineTypes for lists. Returns undefined for
+ * a single unstyled paragraph, which renders as plain text.
+ */
+export function buildRichText(node: FigmaTextContent, baseColor?: string): RichText | undefined {
+  const characters = node.characters || '';
+  if (!characters) return undefined;
+
+  const baseStyle = node.style || {};
+  const overrides = node.characterStyleOverrides || [];
+  const table = node.styleOverrideTable || {};
+  const lineTypes = node.lineTypes || [];
+  const lineIndentations = node.lineIndentations || [];
+  const baseHref = baseStyle.hyperlink?.type === 'URL' ? baseStyle.hyperlink.url : undefined;
+
+  const styleCache = new Map<number, Pick<TextRun, 'sx' | 'href'>>();
+  const runStyle = (id: number): Pick<TextRun, 'sx' | 'href'> => {
+    let style = styleCache.get(id);
+    if (!style) {
+      const override = id ? table[id] : undefined;
+      const link = override?.hyperlink;
+      style = {
+        sx: overrideToCss(override, baseStyle, baseColor),
+        href: link ? (link.type === 'URL' ? link.url : undefined) : baseHref
+      };
+      styleCache.set(id, style);
+    }
+    return style;
+  };
+
+  const paragraphs: TextParagraph[] = [];
+  let offset = 0;
+  characters.split('\n').forEach((line, lineIndex) => {
+    const runs: TextRun[] = [];
+    for (let index = 0; index < line.length; index++) {
+      const run: TextRun = { text: line[index], ...runStyle(overrides[offset + index] || 0) };
+      const previous = runs[runs.length - 1];
+      if (previous && sameRunStyle(previous, run)) {
+        previous.text += run.text;
+      } else {
+        runs.push(run);
+      }
+    }
+
+    const paragraph: TextParagraph = { runs };
+    const lineType = lineTypes[lineIndex];
+    if (lineType === 'ORDERED' || lineType === 'UNORDERED') {
+      paragraph.listType = lineType;
+      paragraph.indent = Math.max(0, (lineIndentations[lineIndex] || 1) - 1);
+    }
+    paragraphs.push(paragraph);
+    offset += line.length + 1;
+  });
+
+  const styled = paragraphs.some(paragraph =>
+    paragraph.listType || paragraph.runs.some(run => run.href || Object.keys(run.sx).length > 0)
+  );
+  if (!styled && paragraphs.length === 1) return undefined;
+
+  return {
+    paragraphs,
+    ...(baseStyle.paragraphSpacing ? { paragraphSpacing: baseStyle.paragraphSpacing } : {})
+  };
+}
@@ -0,0 +1,215 @@
+export interface OptimizedSvg {
+  viewBox: string;
+  // Inner markup with JSX attribute names
+  body: string;
+  // The icon's only color, replaced by currentColor in the markup; undefined for multi-color icons
+  color?: string;
+}
+
+// @mui/icons-material icons that Figma icon names are matched against (filled variants)
+const MUI_ICONS = new Set([
+  'AccessTime', 'AccountBalance', 'AccountCircle', 'Add', 'AddCircle', 'Alarm', 'Apps', 'ArrowBack', 'ArrowBackIos',
+  'ArrowDownward', 'ArrowDropDown', 'ArrowDropUp', 'ArrowForward', 'ArrowForwardIos', 'ArrowUpward', 'AttachFile',
+  'AttachMoney', 'Autorenew', 'Backspace', 'Badge', 'Block', 'Bolt', 'Bookmark', 'BookmarkBorder', 'Build',
+  'CalendarMonth', 'CalendarToday', 'Call', 'Camera', 'CameraAlt', 'Cancel', 'Category', 'Celebration', 'Chat',
+  'ChatBubble', 'Check', 'CheckBox', 'CheckBoxOutlineBlank', 'CheckCircle', 'ChevronLeft', 'ChevronRight', 'Clear',
+  'Close', 'Cloud', 'CloudDownload', 'CloudUpload', 'Code', 'ContentCopy', 'ContentPaste', 'CreditCard', 'Dashboard',
+  'Delete', 'Description', 'Discount', 'Done', 'Download', 'DragIndicator', 'Edit', 'Email', 'Error', 'ExpandLess',
+  'ExpandMore', 'Explore', 'Face', 'Favorite', 'FavoriteBorder', 'Feed', 'FileDownload', 'FileUpload', 'FilterList',
+  'Fingerprint', 'Flag', 'Folder', 'Forum', 'Grade', 'Group', 'Help', 'HelpOutline', 'History', 'Home', 'Image',
+  'Info', 'Inventory', 'Key', 'KeyboardArrowDown', 'KeyboardArrowLeft', 'KeyboardArrowRight', 'KeyboardArrowUp',
+  'Language', 'Lightbulb', 'Link', 'List', 'LocalOffer', 'LocalShipping', 'LocationOn', 'Lock', 'LockOpen', 'Login',
+  'Logout', 'Mail', 'Map', 'Menu', 'Mic', 'MoreHoriz', 'MoreVert', 'Notifications', 'NotificationsNone', 'Palette',
+  'Pause', 'Payment', 'People', 'Person', 'PersonAdd', 'Phone', 'PhotoCamera', 'PlayArrow', 'Print', 'Public',
+  'QrCode', 'Receipt', 'Redo', 'Refresh', 'Remove', 'RemoveCircle', 'Reply', 'Save', 'Search', 'Security', 'Sell',
+  'Send', 'Settings', 'Share', 'ShoppingBag', 'ShoppingCart', 'Sort', 'Star', 'StarBorder', 'StarHalf', 'Stop',
+  'Store', 'Sync', 'ThumbDown', 'ThumbUp', 'Timer', 'Today', 'Translate', 'TrendingUp', 'Tune', 'Undo', 'Upload',
+  'Verified', 'Visibility', 'VisibilityOff', 'VolumeOff', 'VolumeUp', 'Wallet', 'Warning', 'Wifi', 'ZoomIn', 'ZoomOut'
+]);
+
+// Names other icon sets use for the same glyphs
+const ICON_ALIASES: Record<string, string> = {
+  ArrowLeft: 'ArrowBack',
+  ArrowRight: 'ArrowForward',
+  ArrowUp: 'ArrowUpward',
+  ArrowDown: 'ArrowDownward',
+  Back: 'ArrowBack',
+  Bell: 'Notifications',
+  Calendar: 'CalendarToday',
+  Card: 'CreditCard',
+  Cart: 'ShoppingCart',
+  CaretDown: 'ArrowDropDown',
+  CaretUp: 'ArrowDropUp',
+  ChevronDown: 'ExpandMore',
+  ChevronUp: 'ExpandLess',
+  Clock: 'AccessTime',
+  Cog: 'Settings',
+  Copy: 'ContentCopy',
+  Dots: 'MoreHoriz',
+  DotsVertical: 'MoreVert',
+  Eye: 'Visibility',
+  EyeOff: 'VisibilityOff',
+  Filter: 'FilterList',
+  Gear: 'Settings',
+  Globe: 'Language',
+  Hamburger: 'Menu',
+  Heart: 'Favorite',
+  Kebab: 'MoreVert',
+  Location: 'LocationOn',
+  Magnifier: 'Search',
+  MapPin: 'LocationOn',
+  Minus: 'Remove',
+  More: 'MoreHoriz',
+  Pencil: 'Edit',
+  Pin: 'LocationOn',
+  Plus: 'Add',
+  Profile: 'Person',
+  SignOut: 'Logout',
+  SignIn: 'Login',
+  Tick: 'Check',
+  Trash: 'Delete',
+  TrashCan: 'Delete',
+  User: 'Person',
+  Users: 'People',
+  X: 'Close'
+};
+
+// SVG attributes whose JSX name is not simply camel-cased
+const JSX_ATTRIBUTES: Record<string, string> = {
+  class: 'className',
+  'xlink:href': 'xlinkHref',
+  'xml:space': 'xmlSpace'
+};
+
+const camelCase = (name: string): string => name.replace(/[-:]([a-z])/g, (_, letter: string) => letter.toUpperCase());
+
+const pascalWords = (text: string): string[] =>
+  text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase());
+
+/**
+ * The @mui/icons-material icon for a Figma icon name such as "Icons/arrow-left", "ic_search_24px"
+ * or "Heart (outlined)", or undefined when there is no confident match
+ */
+export function matchMuiIcon(figmaName: string): string | undefined {
+  const segments = figmaName.split('/').map(part => part.trim()).filter(Boolean);
+  let outlined = false;
+
+  // Variant-only segments such as "Star/Outline" fall back to the segment before them
+  for (let index = segments.length - 1; index >= 0; index--) {
+    const words = pascalWords(segments[index].replace(/^[a-z]+:/i, ''))
+      .filter(word => !/^(Icon|Icons|Ic|Mdi|Fa|Svg|\d+(px|dp)?)$/i.test(word));
+    outlined = outlined || words.some(word => word === 'Outline' || word === 'Outlined');
+    const base = words.filter(word => !/^(Outline|Outlined|Filled|Fill|Solid|Regular|Line|Rounded|Sharp)$/.test(word)).join('');
+    if (!base) continue;
+
+    const icon = MUI_ICONS.has(base) ? base : ICON_ALIASES[base];
+    if (!icon) return undefined;
+    return outlined ? `${icon}Outlined` : icon;
+  }
+  return undefined;
+}
+
+const roundNumbers = (value: string): string =>
+  value.replace(/-?\d*\.\d{4,}/g, number => String(Math.round(parseFloat(number) * 1000) / 1000));
+
+const styleToJsx = (style: string): string => {
+  const entries = style
+    .split(';')
+    .map(rule => rule.split(':').map(part => part.trim()))
+    .filter(([property, value]) => property && value)
+    .map(([property, value]) => `${camelCase(property)}: ${JSON.stringify(value)}`);
+  return `{{ ${entries.join(', ')} }}`;
+};
+
+/**
+ * Shrink an SVG exported by Figma into JSX-ready markup: drop the XML prolog, comments, titles and
+ * unused ids, prefix the ids that are referenced, round path data and swap a single color for
+ * currentColor so the icon follows the text color
+ */
+export function optimizeSvg(svg: string, idPrefix = 'icon'): OptimizedSvg | null {
+  const root = /<svg\b([^>]*)>([\s\S]*)<\/svg>/i.exec(svg);
+  if (!root) return null;
+
+  const rootAttributes = root[1];
+  const viewBox = /viewBox="([^"]+)"/.exec(rootAttributes)?.[1] || (() => {
+    const width = /\bwidth="([\d.]+)/.exec(rootAttributes)?.[1];
+    const height = /\bheight="([\d.]+)/.exec(rootAttributes)?.[1];
+    return width && height ? `0 0 ${width} ${height}` : '0 0 24 24';
+  })();
+
+  let body = root[2]
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(title|desc|metadata)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<defs>\s*<\/defs>/g, '')
+    .replace(/>\s+</g, '><')
+    .trim();
+
+  // Referenced ids are kept, prefixed so several icons on one page cannot collide
+  const referenced = new Set(Array.from(body.matchAll(/(?:url\(#|href="#)([^)"]+)/g)).map(match => match[1]));
+  body = body
+    .replace(/\sid="([^"]+)"/g, (attribute, id: string) => (referenced.has(id) ? ` id="${idPrefix}-${id}"` : ''))
+    .replace(/(url\(#|href="#)([^)"]+)/g, (_, prefix: string, id: string) => `${prefix}${idPrefix}-${id}`);
+
+  // Monochrome icons take their color from the surrounding text; clip paths and masks don't count
+  const painted = body.replace(/<(clipPath|mask)\b[\s\S]*?<\/\1>/g, '');
+  const colors = new Set(
+    Array.from(painted.matchAll(/\b(?:fill|stroke|stop-color)="([^"]+)"/g))
+      .map(match => match[1].toLowerCase())
+      .filter(color => color !== 'none' && color !== 'currentcolor' && !color.startsWith('url('))
+  );
+  const color = colors.size === 1 ? Array.from(colors)[0] : undefined;
+  if (color) {
+    body = body.replace(/<(clipPath|mask)\b[\s\S]*?<\/\1>|\b(fill|stroke|stop-color)="([^"]+)"/g,
+      (match, container: string, name: string, value: string) =>
+        !container && value.toLowerCase() === color ? `${name}="currentColor"` : match
+    );
+  }
+
+  // JSX attribute names and values
+  body = body
+    .replace(/\s(d|points|transform)="([^"]*)"/g, (_, name: string, value: string) => ` ${name}="${roundNumbers(value)}"`)
+    .replace(/\sstyle="([^"]*)"/g, (_, style: string) => ` style=${styleToJsx(style)}`)
+    .replace(/\s(xmlns(:\w+)?)="[^"]*"/g, '')
+    .replace(/\s([a-z]+[-:][a-z-]+|class)=/g, (_, name: string) => ` ${JSX_ATTRIBUTES[name] || camelCase(name)}=`);
+
+  return { viewBox, body, ...(color ? { color } : {}) };
+}
+
+/**
+ * One tag per line, indented by nesting depth
+ */
+const formatMarkup = (body: string, pad: string, indent: string): string => {
+  let depth = 0;
+  return (body.match(/<[^>]+>|[^<]+/g) || [])
+    .map(token => token.trim())
+    .filter(Boolean)
+    .map(token => {
+      if (token.startsWith('</')) depth = Math.max(0, depth - 1);
+      const line = `${pad}${indent.repeat(depth)}${token}`;
+      if (token.startsWith('<') && !token.startsWith('</') && !token.endsWith('/>')) depth++;
+      return line;
+    })
+    .join('\n');
+};
+
+/**
+ * Source of a typed React icon component built on MUI's SvgIcon, so it takes sx, fontSize and color
+ */
+export function svgIconModule(componentName: string, icon: OptimizedSvg, sourceName?: string, indent = '  '): string {
+  const comment = sourceName ? `// Exported from the Figma layer "${sourceName.replace(/\n/g, ' ')}"\n` : '';
+  return `import React from 'react';
+import { SvgIcon, SvgIconProps } from '@mui/material';
+
+${comment}const ${componentName} = (props: SvgIconProps) => (
+${indent}<SvgIcon viewBox="${icon.viewBox}" {...props}>
+${formatMarkup(icon.body, indent.repeat(2), indent)}
+${indent}</SvgIcon>
+);
+
+export default ${componentName};
+`;
+}
@@ -0,0 +1,69 @@
+/**
+ * Node entry point of the screen job worker. Build and start it with `npm run worker`;
+ * `npm run worker -- --once` processes the jobs that are queued and exits, which is handy
+ * in local development. Configuration comes from the environment:
+ *
+ *   SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY   project and a key that can read every screen
+ *   WORKER_USER_ID                            the user whose jobs this worker runs
+ *   FIGMA_TOKEN                               that user's Figma access token
+ *   LLM_PROVIDER                              openai (default), azure-openai, anthropic or openai-compatible
+ *   LLM_API_KEY, LLM_ENDPOINT, LLM_API_VERSION
+ *   LLM_MODEL_SEMANTIC_GROUPING, LLM_MODEL_VISION   optional per-stage models
+ *   WORKER_ID                                 defaults to the host name and process id
+ */
+import { hostname } from 'node:os';
+import { createClient } from '@refinedev/supabase';
+import ScreenJobRunner from '../services/screenJobRunner';
+import { LLMProviderKind, LLMSettings } from '../services/llmProvider';
+
+const requireEnv = (name: string): string => {
+  const value = process.env[name];
+  if (!value) {
+    console.error(`❌ [WORKER] ${name} is not set`);
+    process.exit(1);
+  }
+  return value;
+};
+
+const llmSettings: LLMSettings = {
+  provider: (process.env.LLM_PROVIDER as LLMProviderKind) || 'openai',
+  apiKey: process.env.LLM_API_KEY,
+  endpoint: process.env.LLM_ENDPOINT,
+  apiVersion: process.env.LLM_API_VERSION,
+  models: {
+    semanticGrouping: process.env.LLM_MODEL_SEMANTIC_GROUPING,
+    vision: process.env.LLM_MODEL_VISION
+  }
+};
+
+const client = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_SERVICE_ROLE_KEY'), {
+  auth: { persistSession: false, autoRefreshToken: false }
+});
+
+const runner = new ScreenJobRunner({
+  client,
+  workerId: process.env.WORKER_ID || `${hostname()}-${process.pid}`,
+  ownerId: requireEnv('WORKER_USER_ID'),
+  figmaToken: requireEnv('FIGMA_TOKEN'),
+  llmSettings
+});
+
+const main = async () => {
+  if (process.argv.includes('--once')) {
+    let processed = 0;
+    while (await runner.runOnce()) processed++;
+    console.log(`✅ [WORKER] Processed ${processed} job(s)`);
+    return;
+  }
+
+  // A job in progress goes back to the queue and resumes from its checkpoint elsewhere
+  const shutdown = () => runner.stop();
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+  await runner.start();
+};
+
+main().catch(error => {
+  console.error('❌ [WORKER] Stopped:', error);
+  process.exit(1);
+});